@@ -20,7 +20,7 @@ export default tseslint.config(
   {
     languageOptions: {
       parserOptions: {
-        project: true,
+        project: './tsconfig.test.json',
         tsconfigRootDir: import.meta.dirname,
       },
     },
@@ -92,4 +92,19 @@ export default tseslint.config(
       'prettier/prettier': 'error',
     },
   },
+
+  // node:test suites and cases return promises the runner awaits itself
+  {
+    files: ['src/**/*.test.ts'],
+    rules: {
+      '@typescript-eslint/no-floating-promises': [
+        'error',
+        {
+          allowForKnownSafeCalls: [
+            { from: 'package', name: ['describe', 'it', 'test'], package: 'node:test' },
+          ],
+        },
+      ],
+    },
+  },
 );
\ No newline at end of file
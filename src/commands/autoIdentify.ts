@@ -0,0 +1,230 @@
+/**
+ * Auto-Identify Command
+ *
+ * Slash command for managing channels where posted images are identified
+ * automatically, and for opting in or out of it.
+ */
+
+import type { ChatInputCommandInteraction } from 'discord.js';
+import {
+  ChannelType,
+  InteractionContextType,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from 'discord.js';
+import {
+  disableAutoIdentifyChannel,
+  enableAutoIdentifyChannel,
+  listAutoIdentifyChannels,
+  setAutoIdentifyOptOut,
+  type AutoIdentifyMode,
+} from '../utils/autoIdentifyStore.js';
+import { createErrorEmbed, createInfoEmbed } from '../utils/embedBuilder.js';
+import { logger } from '../utils/logger.js';
+import type { Command } from '../types/index.js';
+import { localizations, resolveLocale, t } from '../i18n/index.js';
+
+/**
+ * Subcommands that change channel configuration and require Manage Channels
+ */
+const MODERATOR_SUBCOMMANDS = ['enable', 'disable', 'list'];
+
+/**
+ * The /autoidentify command
+ */
+export const autoIdentifyCommand: Command = {
+  // Command definition
+  data: new SlashCommandBuilder()
+    .setName(t('en', 'command.autoIdentify.name'))
+    .setNameLocalizations(localizations('command.autoIdentify.name'))
+    .setDescription(t('en', 'command.autoIdentify.description'))
+    .setDescriptionLocalizations(localizations('command.autoIdentify.description'))
+    .setContexts(InteractionContextType.Guild)
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('enable')
+        .setDescription(t('en', 'command.autoIdentify.enable'))
+        .setDescriptionLocalizations(localizations('command.autoIdentify.enable'))
+        .addChannelOption((option) =>
+          option
+            .setName('channel')
+            .setDescription(t('en', 'command.autoIdentify.enable.channel'))
+            .setDescriptionLocalizations(localizations('command.autoIdentify.enable.channel'))
+            .addChannelTypes(ChannelType.GuildText)
+        )
+        .addStringOption((option) =>
+          option
+            .setName('mode')
+            .setDescription(t('en', 'command.autoIdentify.enable.mode'))
+            .setDescriptionLocalizations(localizations('command.autoIdentify.enable.mode'))
+            .addChoices(
+              {
+                name: t('en', 'command.autoIdentify.enable.mode.reply'),
+                name_localizations: localizations('command.autoIdentify.enable.mode.reply'),
+                value: 'reply',
+              },
+              {
+                name: t('en', 'command.autoIdentify.enable.mode.thread'),
+                name_localizations: localizations('command.autoIdentify.enable.mode.thread'),
+                value: 'thread',
+              }
+            )
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('disable')
+        .setDescription(t('en', 'command.autoIdentify.disable'))
+        .setDescriptionLocalizations(localizations('command.autoIdentify.disable'))
+        .addChannelOption((option) =>
+          option
+            .setName('channel')
+            .setDescription(t('en', 'command.autoIdentify.disable.channel'))
+            .setDescriptionLocalizations(localizations('command.autoIdentify.disable.channel'))
+            .addChannelTypes(ChannelType.GuildText)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('list')
+        .setDescription(t('en', 'command.autoIdentify.list'))
+        .setDescriptionLocalizations(localizations('command.autoIdentify.list'))
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('opt-out')
+        .setDescription(t('en', 'command.autoIdentify.optOut'))
+        .setDescriptionLocalizations(localizations('command.autoIdentify.optOut'))
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('opt-in')
+        .setDescription(t('en', 'command.autoIdentify.optIn'))
+        .setDescriptionLocalizations(localizations('command.autoIdentify.optIn'))
+    ),
+
+  // Command execution
+  async execute(interaction: ChatInputCommandInteraction) {
+    const locale = resolveLocale(interaction);
+
+    if (!interaction.inGuild()) {
+      await interaction.reply({
+        embeds: [createErrorEmbed(t(locale, 'error.guildOnly'), undefined, locale)],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    const { guildId } = interaction;
+
+    if (
+      MODERATOR_SUBCOMMANDS.includes(subcommand) &&
+      !interaction.memberPermissions.has(PermissionFlagsBits.ManageChannels)
+    ) {
+      await interaction.reply({
+        embeds: [createErrorEmbed(t(locale, 'error.manageChannelsRequired'), undefined, locale)],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const channelId = interaction.options.getChannel('channel')?.id ?? interaction.channelId;
+
+    switch (subcommand) {
+      case 'enable': {
+        const mode = (interaction.options.getString('mode') ?? 'reply') as AutoIdentifyMode;
+        await enableAutoIdentifyChannel(guildId, channelId, mode, interaction.user.id);
+
+        logger.info('Auto-identify enabled', {
+          user: interaction.user.tag,
+          guildId,
+          channelId,
+          mode,
+        });
+
+        await interaction.reply({
+          embeds: [
+            createInfoEmbed(
+              t(locale, 'autoIdentify.enabled.title'),
+              t(
+                locale,
+                mode === 'thread' ? 'autoIdentify.enabled.thread' : 'autoIdentify.enabled.reply',
+                { channel: `<#${channelId}>` }
+              ),
+              locale
+            ),
+          ],
+          ephemeral: true,
+        });
+        return;
+      }
+
+      case 'disable': {
+        const removed = await disableAutoIdentifyChannel(guildId, channelId);
+
+        logger.info('Auto-identify disabled', { user: interaction.user.tag, guildId, channelId });
+
+        await interaction.reply({
+          embeds: [
+            createInfoEmbed(
+              t(locale, 'autoIdentify.disabled.title'),
+              t(
+                locale,
+                removed ? 'autoIdentify.disabled.description' : 'autoIdentify.disabled.notEnabled',
+                { channel: `<#${channelId}>` }
+              ),
+              locale
+            ),
+          ],
+          ephemeral: true,
+        });
+        return;
+      }
+
+      case 'list': {
+        const channels = await listAutoIdentifyChannels(guildId);
+
+        await interaction.reply({
+          embeds: [
+            createInfoEmbed(
+              t(locale, 'autoIdentify.list.title'),
+              channels.length > 0
+                ? channels
+                    .map(
+                      ({ channelId: id, mode }) =>
+                        `• <#${id}> — ${t(locale, mode === 'thread' ? 'autoIdentify.list.thread' : 'autoIdentify.list.reply')}`
+                    )
+                    .join('\n')
+                : t(locale, 'autoIdentify.list.empty'),
+              locale
+            ),
+          ],
+          ephemeral: true,
+        });
+        return;
+      }
+
+      case 'opt-out':
+      case 'opt-in': {
+        const optedOut = subcommand === 'opt-out';
+        await setAutoIdentifyOptOut(guildId, interaction.user.id, optedOut);
+
+        await interaction.reply({
+          embeds: [
+            createInfoEmbed(
+              t(locale, optedOut ? 'autoIdentify.optedOut.title' : 'autoIdentify.optedIn.title'),
+              t(
+                locale,
+                optedOut ? 'autoIdentify.optedOut.description' : 'autoIdentify.optedIn.description'
+              ),
+              locale
+            ),
+          ],
+          ephemeral: true,
+        });
+        return;
+      }
+    }
+  },
+};
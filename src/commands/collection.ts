@@ -0,0 +1,265 @@
+/**
+ * Collection Command
+ *
+ * Slash command for keeping a personal collection of identified cards.
+ */
+
+import type { AutocompleteInteraction, ChatInputCommandInteraction } from 'discord.js';
+import { SlashCommandBuilder } from 'discord.js';
+import { formatCardDisplay } from '../utils/cardsight.js';
+import {
+  addToCollection,
+  getCollectionEntry,
+  listCollection,
+  removeFromCollection,
+  type CollectionSort,
+} from '../utils/collectionStore.js';
+import {
+  createCollectionCardEmbed,
+  createCollectionPages,
+  createErrorEmbed,
+  createFileTooLargeEmbed,
+  createIdentificationErrorEmbed,
+  createInfoEmbed,
+  createInvalidFileEmbed,
+  createQueueFullEmbed,
+  createServiceDegradedEmbed,
+} from '../utils/embedBuilder.js';
+import {
+  enqueueIdentification,
+  imageSourceFromAttachment,
+  onIdentified,
+  validateImageSource,
+} from '../utils/identification.js';
+import { logger } from '../utils/logger.js';
+import { editReplyWithPages } from '../utils/pagination.js';
+import { getQueueLane } from '../utils/workQueue.js';
+import type { Command } from '../types/index.js';
+import { localizations, resolveLocale, t } from '../i18n/index.js';
+
+/**
+ * Maximum number of autocomplete choices Discord accepts
+ */
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+
+/**
+ * Adds the cards identified in an image to the user's collection
+ */
+async function addFromImage(interaction: ChatInputCommandInteraction): Promise<void> {
+  const source = imageSourceFromAttachment(interaction.options.getAttachment('image', true));
+  const locale = resolveLocale(interaction);
+
+  const validationError = validateImageSource(source);
+  if (validationError) {
+    await interaction.reply({
+      embeds: [
+        validationError === 'invalid-type'
+          ? createInvalidFileEmbed(locale)
+          : createFileTooLargeEmbed(locale),
+      ],
+      ephemeral: true,
+    });
+    return;
+  }
+
+  const queued = enqueueIdentification([source], { lane: getQueueLane(interaction) });
+  if (!queued.accepted) {
+    await interaction.reply({ embeds: [createQueueFullEmbed(locale)], ephemeral: true });
+    return;
+  }
+
+  await interaction.deferReply({ ephemeral: true });
+
+  const results = await queued.result;
+  await onIdentified(results, interaction);
+
+  const [{ result }] = results;
+  if (result.degraded) {
+    await interaction.editReply({ embeds: [createServiceDegradedEmbed(locale)] });
+    return;
+  }
+  if (!result.success) {
+    await interaction.editReply({ embeds: [createIdentificationErrorEmbed(result, locale)] });
+    return;
+  }
+  if (result.detections.length === 0) {
+    await interaction.editReply({
+      embeds: [createErrorEmbed(t(locale, 'collection.noDetections'), undefined, locale)],
+    });
+    return;
+  }
+
+  const added = await addToCollection(
+    interaction.user.id,
+    result.detections.map((detection) => detection.card)
+  );
+
+  logger.info('Cards added to collection', {
+    user: interaction.user.tag,
+    addedCount: added.length,
+    detectionsCount: result.detections.length,
+  });
+
+  await interaction.editReply({
+    embeds: [
+      createInfoEmbed(
+        t(
+          locale,
+          added.length > 0 ? 'collection.added.title' : 'collection.alreadyCollected.title'
+        ),
+        added.length > 0
+          ? added.map((card) => `• ${formatCardDisplay(card)}`).join('\n')
+          : t(locale, 'collection.alreadyCollected.image'),
+        locale
+      ),
+    ],
+  });
+}
+
+/**
+ * The /collection command
+ */
+export const collectionCommand: Command = {
+  // Command definition
+  data: new SlashCommandBuilder()
+    .setName(t('en', 'command.collection.name'))
+    .setNameLocalizations(localizations('command.collection.name'))
+    .setDescription(t('en', 'command.collection.description'))
+    .setDescriptionLocalizations(localizations('command.collection.description'))
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('add')
+        .setDescription(t('en', 'command.collection.add'))
+        .setDescriptionLocalizations(localizations('command.collection.add'))
+        .addAttachmentOption((option) =>
+          option
+            .setName('image')
+            .setDescription(t('en', 'command.collection.add.image'))
+            .setDescriptionLocalizations(localizations('command.collection.add.image'))
+            .setRequired(true)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('list')
+        .setDescription(t('en', 'command.collection.list'))
+        .setDescriptionLocalizations(localizations('command.collection.list'))
+        .addStringOption((option) =>
+          option
+            .setName('sort')
+            .setDescription(t('en', 'command.collection.list.sort'))
+            .setDescriptionLocalizations(localizations('command.collection.list.sort'))
+            .addChoices(
+              ...(['added', 'year', 'set', 'manufacturer'] as const).map((sort) => ({
+                name: t('en', `command.collection.list.sort.${sort}`),
+                name_localizations: localizations(`command.collection.list.sort.${sort}`),
+                value: sort,
+              }))
+            )
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('show')
+        .setDescription(t('en', 'command.collection.show'))
+        .setDescriptionLocalizations(localizations('command.collection.show'))
+        .addStringOption((option) =>
+          option
+            .setName('card')
+            .setDescription(t('en', 'command.collection.show.card'))
+            .setDescriptionLocalizations(localizations('command.collection.show.card'))
+            .setRequired(true)
+            .setAutocomplete(true)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('remove')
+        .setDescription(t('en', 'command.collection.remove'))
+        .setDescriptionLocalizations(localizations('command.collection.remove'))
+        .addStringOption((option) =>
+          option
+            .setName('card')
+            .setDescription(t('en', 'command.collection.remove.card'))
+            .setDescriptionLocalizations(localizations('command.collection.remove.card'))
+            .setRequired(true)
+            .setAutocomplete(true)
+        )
+    ),
+
+  // Only adding cards calls CardSight
+  rateLimited: (interaction) => interaction.options.getSubcommand() === 'add',
+
+  // Command execution
+  async execute(interaction: ChatInputCommandInteraction) {
+    const subcommand = interaction.options.getSubcommand();
+    const locale = resolveLocale(interaction);
+
+    switch (subcommand) {
+      case 'add': {
+        await addFromImage(interaction);
+        return;
+      }
+
+      case 'list': {
+        const sort = (interaction.options.getString('sort') ?? 'added') as CollectionSort;
+        const entries = await listCollection(interaction.user.id, sort);
+
+        await interaction.deferReply({ ephemeral: true });
+        await editReplyWithPages(interaction, createCollectionPages(entries, sort, locale));
+        return;
+      }
+
+      case 'show': {
+        const entry = await getCollectionEntry(
+          interaction.user.id,
+          interaction.options.getString('card', true)
+        );
+
+        await interaction.reply({
+          embeds: [
+            entry
+              ? createCollectionCardEmbed(entry, locale)
+              : createErrorEmbed(t(locale, 'collection.notFound'), undefined, locale),
+          ],
+          ephemeral: true,
+        });
+        return;
+      }
+
+      case 'remove': {
+        const removed = await removeFromCollection(
+          interaction.user.id,
+          interaction.options.getString('card', true)
+        );
+
+        await interaction.reply({
+          embeds: [
+            removed
+              ? createInfoEmbed(
+                  t(locale, 'collection.removed.title'),
+                  formatCardDisplay(removed.card),
+                  locale
+                )
+              : createErrorEmbed(t(locale, 'collection.notFound'), undefined, locale),
+          ],
+          ephemeral: true,
+        });
+        return;
+      }
+    }
+  },
+
+  // Suggests cards from the user's collection
+  async autocomplete(interaction: AutocompleteInteraction) {
+    const query = interaction.options.getFocused().toLowerCase();
+    const entries = await listCollection(interaction.user.id);
+
+    await interaction.respond(
+      entries
+        .map((entry) => ({ name: formatCardDisplay(entry.card).slice(0, 100), value: entry.id }))
+        .filter((choice) => choice.name.toLowerCase().includes(query))
+        .slice(0, MAX_AUTOCOMPLETE_CHOICES)
+    );
+  },
+};
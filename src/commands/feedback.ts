@@ -0,0 +1,113 @@
+/**
+ * Feedback Command
+ *
+ * Slash command for exporting the feedback and corrections users have given
+ * on identification results, so they can be sent upstream to CardSight.
+ */
+
+import type { ChatInputCommandInteraction } from 'discord.js';
+import {
+  AttachmentBuilder,
+  InteractionContextType,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from 'discord.js';
+import { createErrorEmbed, createInfoEmbed } from '../utils/embedBuilder.js';
+import {
+  formatFeedbackExport,
+  listFeedback,
+  type FeedbackExportFormat,
+} from '../utils/feedbackStore.js';
+import { logger } from '../utils/logger.js';
+import type { Command } from '../types/index.js';
+import { localizations, resolveLocale, t } from '../i18n/index.js';
+
+/**
+ * The /feedback command
+ */
+export const feedbackCommand: Command = {
+  // Command definition
+  data: new SlashCommandBuilder()
+    .setName('feedback')
+    .setDescription(t('en', 'command.feedback.description'))
+    .setDescriptionLocalizations(localizations('command.feedback.description'))
+    .setContexts(InteractionContextType.Guild)
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('export')
+        .setDescription(t('en', 'command.feedback.export'))
+        .setDescriptionLocalizations(localizations('command.feedback.export'))
+        .addStringOption((option) =>
+          option
+            .setName('format')
+            .setDescription(t('en', 'command.feedback.export.format'))
+            .setDescriptionLocalizations(localizations('command.feedback.export.format'))
+            .addChoices({ name: 'CSV', value: 'csv' }, { name: 'JSON', value: 'json' })
+        )
+    ),
+
+  // Command execution
+  async execute(interaction: ChatInputCommandInteraction) {
+    const locale = resolveLocale(interaction);
+
+    if (!interaction.inGuild()) {
+      await interaction.reply({
+        embeds: [createErrorEmbed(t(locale, 'error.guildOnly'), undefined, locale)],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    if (!interaction.memberPermissions.has(PermissionFlagsBits.ManageGuild)) {
+      await interaction.reply({
+        embeds: [createErrorEmbed(t(locale, 'error.manageGuildRequired'), undefined, locale)],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const format = (interaction.options.getString('format') ?? 'csv') as FeedbackExportFormat;
+    const records = await listFeedback(interaction.guildId);
+
+    if (records.length === 0) {
+      await interaction.reply({
+        embeds: [
+          createInfoEmbed(
+            t(locale, 'feedback.export.empty.title'),
+            t(locale, 'feedback.export.empty.description'),
+            locale
+          ),
+        ],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const corrections = records.filter((record) => record.rating === 'incorrect').length;
+    const date = new Date().toISOString().slice(0, 10);
+
+    await interaction.reply({
+      embeds: [
+        createInfoEmbed(
+          t(locale, 'feedback.export.title'),
+          t(locale, 'feedback.export.description', { count: records.length, corrections }),
+          locale
+        ),
+      ],
+      files: [
+        new AttachmentBuilder(Buffer.from(formatFeedbackExport(records, format)), {
+          name: `feedback-${interaction.guildId}-${date}.${format}`,
+        }),
+      ],
+      ephemeral: true,
+    });
+
+    logger.info('Feedback exported', {
+      user: interaction.user.tag,
+      guildId: interaction.guildId,
+      format,
+      records: records.length,
+    });
+  },
+};
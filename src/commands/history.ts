@@ -0,0 +1,183 @@
+/**
+ * History Command
+ *
+ * Slash command for looking up past identifications after their reply has
+ * scrolled away. Members see their own history; members with the Manage
+ * Server permission can also see the whole server's.
+ */
+
+import type { AutocompleteInteraction, ChatInputCommandInteraction, Interaction } from 'discord.js';
+import { PermissionFlagsBits, SlashCommandBuilder } from 'discord.js';
+import { config } from '../config/index.js';
+import { createAddToCollectionRow } from '../utils/collectionButton.js';
+import {
+  createErrorEmbed,
+  createHistoryPages,
+  formatHistorySummary,
+} from '../utils/embedBuilder.js';
+import { createFeedbackRow } from '../utils/feedbackButtons.js';
+import { getGuildSettings } from '../utils/guildSettings.js';
+import { getHistoryEntry, listHistory, type HistoryEntry } from '../utils/historyStore.js';
+import {
+  applyConfidenceThreshold,
+  createIdentificationResultPages,
+} from '../utils/identification.js';
+import { editReplyWithPages } from '../utils/pagination.js';
+import type { Command } from '../types/index.js';
+import { localizations, resolveLocale, t } from '../i18n/index.js';
+
+/**
+ * Maximum number of autocomplete choices Discord accepts
+ */
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+
+/**
+ * Whether the interaction's member can see the whole server's history
+ */
+function canViewGuildHistory(interaction: Interaction): boolean {
+  return (
+    interaction.inGuild() && interaction.memberPermissions.has(PermissionFlagsBits.ManageGuild)
+  );
+}
+
+/**
+ * Whether the interaction's user may open a history entry
+ */
+function canViewEntry(interaction: Interaction, entry: HistoryEntry): boolean {
+  return (
+    entry.userId === interaction.user.id ||
+    (entry.guildId === interaction.guildId && canViewGuildHistory(interaction))
+  );
+}
+
+/**
+ * The /history command
+ */
+export const historyCommand: Command = {
+  // Command definition
+  data: new SlashCommandBuilder()
+    .setName('history')
+    .setDescription(t('en', 'command.history.description'))
+    .setDescriptionLocalizations(localizations('command.history.description'))
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('list')
+        .setDescription(t('en', 'command.history.list'))
+        .setDescriptionLocalizations(localizations('command.history.list'))
+        .addBooleanOption((option) =>
+          option
+            .setName('server')
+            .setDescription(t('en', 'command.history.list.server'))
+            .setDescriptionLocalizations(localizations('command.history.list.server'))
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('show')
+        .setDescription(t('en', 'command.history.show'))
+        .setDescriptionLocalizations(localizations('command.history.show'))
+        .addStringOption((option) =>
+          option
+            .setName('identification')
+            .setDescription(t('en', 'command.history.show.identification'))
+            .setDescriptionLocalizations(localizations('command.history.show.identification'))
+            .setRequired(true)
+            .setAutocomplete(true)
+        )
+    ),
+
+  // Command execution
+  async execute(interaction: ChatInputCommandInteraction) {
+    const subcommand = interaction.options.getSubcommand();
+    const locale = resolveLocale(interaction);
+
+    if (!config.history.enabled) {
+      await interaction.reply({
+        embeds: [createErrorEmbed(t(locale, 'history.disabled'), undefined, locale)],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    switch (subcommand) {
+      case 'list': {
+        const guildWide = interaction.options.getBoolean('server') ?? false;
+        if (guildWide && !canViewGuildHistory(interaction)) {
+          await interaction.reply({
+            embeds: [createErrorEmbed(t(locale, 'history.guildForbidden'), undefined, locale)],
+            ephemeral: true,
+          });
+          return;
+        }
+
+        const entries = await listHistory(
+          guildWide && interaction.guildId
+            ? { guildId: interaction.guildId }
+            : { userId: interaction.user.id }
+        );
+
+        await interaction.deferReply({ ephemeral: true });
+        await editReplyWithPages(
+          interaction,
+          createHistoryPages(
+            entries,
+            guildWide ? 'guild' : 'user',
+            config.history.retentionDays,
+            locale
+          )
+        );
+        return;
+      }
+
+      case 'show': {
+        const entry = await getHistoryEntry(interaction.options.getString('identification', true));
+        if (!entry || !canViewEntry(interaction, entry)) {
+          await interaction.reply({
+            embeds: [createErrorEmbed(t(locale, 'history.notFound'), undefined, locale)],
+            ephemeral: true,
+          });
+          return;
+        }
+
+        const settings = await getGuildSettings(interaction.guildId);
+        const identifications = applyConfidenceThreshold(entry.identifications, settings);
+        const extraRows = [
+          createAddToCollectionRow(identifications, locale),
+          await createFeedbackRow(entry.identifications, settings, locale),
+        ].filter((row) => row !== null);
+
+        await interaction.deferReply({ ephemeral: true });
+        await editReplyWithPages(
+          interaction,
+          createIdentificationResultPages(identifications, settings, locale),
+          extraRows
+        );
+        return;
+      }
+    }
+  },
+
+  // Suggests the user's identifications, and the server's for members who can see them
+  async autocomplete(interaction: AutocompleteInteraction) {
+    const query = interaction.options.getFocused().toLowerCase();
+    const locale = resolveLocale(interaction);
+    const entries = await listHistory(
+      canViewGuildHistory(interaction) && interaction.guildId
+        ? { guildId: interaction.guildId }
+        : { userId: interaction.user.id }
+    );
+
+    await interaction.respond(
+      entries
+        .map((entry) => {
+          const createdAt = `${entry.createdAt.slice(0, 16).replace('T', ' ')} UTC`;
+          return {
+            name: `${createdAt} • ${formatHistorySummary(entry, locale)}`.slice(0, 100),
+            value: entry.id,
+          };
+        })
+        .filter((choice) => choice.name.toLowerCase().includes(query))
+        .slice(0, MAX_AUTOCOMPLETE_CHOICES)
+    );
+  },
+};
@@ -1,125 +1,146 @@
 /**
  * Identify Command
  *
- * Slash command for identifying trading cards from uploaded images.
+ * Slash command for identifying trading cards from uploaded images or an
+ * image link.
  */
 
-import type { ChatInputCommandInteraction } from 'discord.js';
+import type { Attachment, ChatInputCommandInteraction } from 'discord.js';
 import { SlashCommandBuilder } from 'discord.js';
-import { identifyCard } from '../utils/cardsight.js';
 import {
-  createIdentificationEmbed,
   createErrorEmbed,
-  createProcessingEmbed,
   createInvalidFileEmbed,
   createFileTooLargeEmbed,
 } from '../utils/embedBuilder.js';
-import { logger, logDebug } from '../utils/logger.js';
-import { SupportedImageFormats, MAX_FILE_SIZE, type Command } from '../types/index.js';
+import {
+  imageSourceFromAttachment,
+  imageSourceFromUrl,
+  replyWithIdentification,
+  validateImageSource,
+} from '../utils/identification.js';
+import { checkImageUrl } from '../utils/imageFetcher.js';
+import { logDebug } from '../utils/logger.js';
+import { MAX_IMAGES_PER_COMMAND, type Command } from '../types/index.js';
+import { localizations, resolveLocale, t } from '../i18n/index.js';
+
+/**
+ * Names of the attachment options: image, image2, image3, ...
+ */
+const IMAGE_OPTION_NAMES = Array.from({ length: MAX_IMAGES_PER_COMMAND }, (_, index) =>
+  index === 0 ? 'image' : `image${index + 1}`
+);
+
+/**
+ * Builds the /identify command definition with several optional images and an image link
+ */
+function buildCommandData(): SlashCommandBuilder {
+  const builder = new SlashCommandBuilder()
+    .setName(t('en', 'command.identify.name'))
+    .setNameLocalizations(localizations('command.identify.name'))
+    .setDescription(t('en', 'command.identify.description'))
+    .setDescriptionLocalizations(localizations('command.identify.description'));
+
+  // Every option is optional so a link can be identified without an upload
+  IMAGE_OPTION_NAMES.forEach((name, index) => {
+    builder.addAttachmentOption((option) =>
+      index === 0
+        ? option
+            .setName(name)
+            .setDescription(t('en', 'command.identify.image'))
+            .setDescriptionLocalizations(localizations('command.identify.image'))
+        : option
+            .setName(name)
+            .setDescription(t('en', 'command.identify.extraImage', { index: index + 1 }))
+            .setDescriptionLocalizations(
+              localizations('command.identify.extraImage', { index: index + 1 })
+            )
+    );
+  });
+
+  builder.addStringOption((option) =>
+    option
+      .setName('url')
+      .setDescription(t('en', 'command.identify.url'))
+      .setDescriptionLocalizations(localizations('command.identify.url'))
+      .setMaxLength(2000)
+  );
+
+  return builder;
+}
 
 /**
  * The /identify command
  */
 export const identifyCommand: Command = {
   // Command definition
-  data: new SlashCommandBuilder()
-    .setName('identify')
-    .setDescription('Identify a trading card from an image')
-    .addAttachmentOption((option) =>
-      option.setName('image').setDescription('The card image to identify').setRequired(true)
-    ),
+  data: buildCommandData(),
+
+  // Counts against the CardSight rate limits
+  rateLimited: true,
 
   // Command execution
   async execute(interaction: ChatInputCommandInteraction) {
-    // Get the uploaded attachment
-    const attachment = interaction.options.getAttachment('image', true);
-
-    // Sanitize filename to prevent path traversal and other attacks
-    const sanitizedFilename = attachment.name
-      .replace(/[^a-zA-Z0-9._-]/g, '_') // Remove potentially dangerous characters
-      .substring(0, 255); // Limit length
-
-    logDebug('Identify command invoked', {
-      user: interaction.user.tag,
-      fileName: sanitizedFilename, // Use sanitized filename in logs
-      fileSize: attachment.size,
-      contentType: attachment.contentType,
-    });
-
-    // Validate file type
-    if (!attachment.contentType || !SupportedImageFormats.includes(attachment.contentType as any)) {
-      await interaction.reply({
-        embeds: [createInvalidFileEmbed()],
-        ephemeral: true,
-      });
-      return;
+    const locale = resolveLocale(interaction);
+
+    // Get the uploaded attachments, in option order, then the linked image
+    const sources = IMAGE_OPTION_NAMES.map((name) => interaction.options.getAttachment(name))
+      .filter((attachment): attachment is Attachment => attachment !== null)
+      .map(imageSourceFromAttachment);
+
+    const url = interaction.options.getString('url')?.trim();
+    if (url) {
+      // Reject malformed and blocked links before queueing; addresses are checked when fetched
+      const checked = checkImageUrl(url);
+      if (!checked.ok) {
+        await interaction.reply({
+          embeds: [
+            createErrorEmbed(
+              t(locale, checked.error === 'invalid-url' ? 'error.invalidUrl' : 'error.urlBlocked'),
+              undefined,
+              locale
+            ),
+          ],
+          ephemeral: true,
+        });
+        return;
+      }
+      sources.push(imageSourceFromUrl(url));
     }
 
-    // Validate file size
-    if (attachment.size > MAX_FILE_SIZE) {
+    if (sources.length === 0) {
       await interaction.reply({
-        embeds: [createFileTooLargeEmbed()],
+        embeds: [createErrorEmbed(t(locale, 'identify.noImage'), undefined, locale)],
         ephemeral: true,
       });
       return;
     }
 
-    // Show processing message
-    await interaction.reply({
-      embeds: [createProcessingEmbed()],
+    logDebug('Identify command invoked', {
+      user: interaction.user.tag,
+      files: sources.map(({ filename, size, contentType }) => ({
+        fileName: filename, // Use sanitized filename in logs
+        fileSize: size,
+        contentType,
+      })),
     });
 
-    try {
-      // Download the image
-      const response = await fetch(attachment.url);
-      if (!response.ok) {
-        throw new Error(`Failed to download image: ${response.statusText}`);
-      }
-
-      const arrayBuffer = await response.arrayBuffer();
-      const imageBuffer = Buffer.from(arrayBuffer);
-
-      // Identify the card (pass the MIME type from the attachment)
-      const result = await identifyCard(
-        imageBuffer,
-        sanitizedFilename, // Use sanitized filename
-        attachment.contentType || undefined
-      );
-
-      // Create response embed (pass attachment URL for thumbnail)
-      let embed;
-      if (result.success) {
-        embed = createIdentificationEmbed(result, attachment.url);
-      } else {
-        embed = createErrorEmbed(result.error || 'Failed to identify card', result.requestId);
-      }
-
-      // Update the reply with results
-      await interaction.editReply({
-        embeds: [embed],
-      });
-
-      // Log successful identification
-      if (result.success && result.detections.length > 0) {
-        logger.info('Card identification successful', {
-          user: interaction.user.tag,
-          detectionsCount: result.detections.length,
-          processingTime: result.processingTime,
+    // A single image is validated up front with a dedicated embed; in a batch
+    // each invalid image is reported alongside the others instead
+    if (sources.length === 1) {
+      const validationError = validateImageSource(sources[0]);
+      if (validationError) {
+        await interaction.reply({
+          embeds: [
+            validationError === 'invalid-type'
+              ? createInvalidFileEmbed(locale)
+              : createFileTooLargeEmbed(locale),
+          ],
+          ephemeral: true,
         });
+        return;
       }
-    } catch (error) {
-      logger.error('Failed to process card identification', {
-        error: error instanceof Error ? error.message : String(error),
-        user: interaction.user.tag,
-      });
-
-      const errorEmbed = createErrorEmbed(
-        'Failed to process the image. Please try again with a different image.'
-      );
-
-      await interaction.editReply({
-        embeds: [errorEmbed],
-      });
     }
+
+    await replyWithIdentification(interaction, sources);
   },
 };
@@ -0,0 +1,65 @@
+/**
+ * Identify Card Context Menu Command
+ *
+ * Message context-menu command for identifying trading cards from images
+ * that were already posted in a message.
+ */
+
+import type { MessageContextMenuCommandInteraction } from 'discord.js';
+import { ApplicationCommandType, ContextMenuCommandBuilder } from 'discord.js';
+import { createErrorEmbed } from '../utils/embedBuilder.js';
+import {
+  imageSourceFromAttachment,
+  imageSourceFromEmbed,
+  replyWithIdentification,
+  type ImageSource,
+} from '../utils/identification.js';
+import { logDebug } from '../utils/logger.js';
+import { MAX_IMAGES_PER_COMMAND, type MessageContextMenuCommand } from '../types/index.js';
+import { localizations, resolveLocale, t } from '../i18n/index.js';
+
+/**
+ * The "Identify card" message command
+ */
+export const identifyMessageCommand: MessageContextMenuCommand = {
+  // Command definition
+  data: new ContextMenuCommandBuilder()
+    .setName(t('en', 'command.identifyMessage.name'))
+    .setNameLocalizations(localizations('command.identifyMessage.name'))
+    .setType(ApplicationCommandType.Message),
+
+  // Counts against the CardSight rate limits
+  rateLimited: true,
+
+  // Command execution
+  async execute(interaction: MessageContextMenuCommandInteraction) {
+    const message = interaction.targetMessage;
+    const locale = resolveLocale(interaction);
+
+    // Collect image attachments first, then images from embeds
+    const sources: ImageSource[] = [
+      ...message.attachments
+        .filter((attachment) => attachment.contentType?.startsWith('image/'))
+        .map(imageSourceFromAttachment),
+      ...message.embeds
+        .map(imageSourceFromEmbed)
+        .filter((source): source is ImageSource => source !== null),
+    ];
+
+    logDebug('Identify card context menu invoked', {
+      user: interaction.user.tag,
+      messageId: message.id,
+      imagesCount: sources.length,
+    });
+
+    if (sources.length === 0) {
+      await interaction.reply({
+        embeds: [createErrorEmbed(t(locale, 'error.noImagesInMessage'), undefined, locale)],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    await replyWithIdentification(interaction, sources.slice(0, MAX_IMAGES_PER_COMMAND));
+  },
+};
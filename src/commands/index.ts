@@ -0,0 +1,47 @@
+/**
+ * Command Registry
+ *
+ * Collects every application command and component handler the bot provides.
+ */
+
+import { autoIdentifyCommand } from './autoIdentify.js';
+import { collectionCommand } from './collection.js';
+import { feedbackCommand } from './feedback.js';
+import { historyCommand } from './history.js';
+import { identifyCommand } from './identify.js';
+import { identifyMessageCommand } from './identifyMessage.js';
+import { lookupCommand } from './lookup.js';
+import { settingsCommand } from './settings.js';
+import { webhooksCommand } from './webhooks.js';
+import { collectionAddHandler } from '../utils/collectionButton.js';
+import { feedbackHandler } from '../utils/feedbackButtons.js';
+import { pagerHandler } from '../utils/pagination.js';
+import type { CommandRegistry } from '../types/index.js';
+
+/**
+ * Creates the registry of all commands, keyed by command name, and of
+ * component handlers, keyed by custom ID prefix
+ */
+export function createCommandRegistry(): CommandRegistry {
+  const registry: CommandRegistry = {
+    chatInput: new Map(),
+    messageContextMenu: new Map(),
+    components: new Map(),
+  };
+
+  registry.chatInput.set(identifyCommand.data.name, identifyCommand);
+  registry.chatInput.set(lookupCommand.data.name, lookupCommand);
+  registry.chatInput.set(autoIdentifyCommand.data.name, autoIdentifyCommand);
+  registry.chatInput.set(collectionCommand.data.name, collectionCommand);
+  registry.chatInput.set(historyCommand.data.name, historyCommand);
+  registry.chatInput.set(settingsCommand.data.name, settingsCommand);
+  registry.chatInput.set(feedbackCommand.data.name, feedbackCommand);
+  registry.chatInput.set(webhooksCommand.data.name, webhooksCommand);
+  registry.messageContextMenu.set(identifyMessageCommand.data.name, identifyMessageCommand);
+
+  registry.components.set(collectionAddHandler.prefix, collectionAddHandler);
+  registry.components.set(feedbackHandler.prefix, feedbackHandler);
+  registry.components.set(pagerHandler.prefix, pagerHandler);
+
+  return registry;
+}
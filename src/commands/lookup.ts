@@ -0,0 +1,117 @@
+/**
+ * Lookup Command
+ *
+ * Slash command for searching the CardSight catalog by text, for when the
+ * card is already known or a photo can't be identified.
+ */
+
+import type { AutocompleteInteraction, ChatInputCommandInteraction } from 'discord.js';
+import { SlashCommandBuilder } from 'discord.js';
+import {
+  autocompleteCatalog,
+  searchCatalog,
+  type CatalogAutocompleteField,
+  type CatalogQuery,
+} from '../utils/cardsight.js';
+import { createErrorEmbed, createLookupPages } from '../utils/embedBuilder.js';
+import { logger } from '../utils/logger.js';
+import { editReplyWithPages } from '../utils/pagination.js';
+import type { Command } from '../types/index.js';
+import { localizations, resolveLocale, t } from '../i18n/index.js';
+
+/**
+ * Maximum number of cards shown for a search
+ */
+const MAX_LOOKUP_RESULTS = 25;
+
+/**
+ * The /lookup command
+ */
+export const lookupCommand: Command = {
+  // Command definition
+  data: new SlashCommandBuilder()
+    .setName(t('en', 'command.lookup.name'))
+    .setNameLocalizations(localizations('command.lookup.name'))
+    .setDescription(t('en', 'command.lookup.description'))
+    .setDescriptionLocalizations(localizations('command.lookup.description'))
+    .addStringOption((option) =>
+      option
+        .setName('name')
+        .setDescription(t('en', 'command.lookup.cardName'))
+        .setDescriptionLocalizations(localizations('command.lookup.cardName'))
+        .setMaxLength(100)
+        .setAutocomplete(true)
+    )
+    .addStringOption((option) =>
+      option
+        .setName('year')
+        .setDescription(t('en', 'command.lookup.year'))
+        .setDescriptionLocalizations(localizations('command.lookup.year'))
+        .setMaxLength(10)
+    )
+    .addStringOption((option) =>
+      option
+        .setName('set')
+        .setDescription(t('en', 'command.lookup.set'))
+        .setDescriptionLocalizations(localizations('command.lookup.set'))
+        .setMaxLength(100)
+        .setAutocomplete(true)
+    )
+    .addStringOption((option) =>
+      option
+        .setName('number')
+        .setDescription(t('en', 'command.lookup.number'))
+        .setDescriptionLocalizations(localizations('command.lookup.number'))
+        .setMaxLength(20)
+    ),
+
+  // Every search calls CardSight
+  rateLimited: true,
+
+  // Command execution
+  async execute(interaction: ChatInputCommandInteraction) {
+    const locale = resolveLocale(interaction);
+    const query: CatalogQuery = {
+      name: interaction.options.getString('name')?.trim() || undefined,
+      year: interaction.options.getString('year')?.trim() || undefined,
+      set: interaction.options.getString('set')?.trim() || undefined,
+      number: interaction.options.getString('number')?.trim().replace(/^#/, '') || undefined,
+    };
+
+    if (!Object.values(query).some(Boolean)) {
+      await interaction.reply({
+        embeds: [createErrorEmbed(t(locale, 'lookup.emptyQuery'), undefined, locale)],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    await interaction.deferReply();
+
+    const result = await searchCatalog(query, MAX_LOOKUP_RESULTS);
+    logger.info('Catalog lookup', {
+      user: interaction.user.tag,
+      query,
+      success: result.success,
+      totalCount: result.totalCount,
+    });
+
+    await editReplyWithPages(interaction, createLookupPages(result, locale));
+  },
+
+  // Suggests card names and sets from the catalog
+  async autocomplete(interaction: AutocompleteInteraction) {
+    const focused = interaction.options.getFocused(true);
+    const suggestions = await autocompleteCatalog(
+      focused.name as CatalogAutocompleteField,
+      focused.value
+    );
+
+    await interaction.respond(
+      suggestions.map((suggestion) => ({
+        name: suggestion.slice(0, 100),
+        value: suggestion.slice(0, 100),
+      }))
+    );
+  },
+};
@@ -0,0 +1,320 @@
+/**
+ * Settings Command
+ *
+ * Slash command for viewing and changing how the bot behaves in a server.
+ */
+
+import type { ChatInputCommandInteraction } from 'discord.js';
+import {
+  ChannelType,
+  InteractionContextType,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from 'discord.js';
+import {
+  createErrorEmbed,
+  createGuildSettingsEmbed,
+  createInfoEmbed,
+} from '../utils/embedBuilder.js';
+import {
+  getGuildSettings,
+  resetGuildSettings,
+  updateGuildSettings,
+  type GuildSettings,
+} from '../utils/guildSettings.js';
+import type { AuditLogLevel } from '../utils/auditLog.js';
+import { logger } from '../utils/logger.js';
+import type { Command, ConfidenceLevel } from '../types/index.js';
+import { localizations, resolveLocale, t } from '../i18n/index.js';
+
+/**
+ * The /settings command
+ */
+export const settingsCommand: Command = {
+  // Command definition
+  data: new SlashCommandBuilder()
+    .setName(t('en', 'command.settings.name'))
+    .setNameLocalizations(localizations('command.settings.name'))
+    .setDescription(t('en', 'command.settings.description'))
+    .setDescriptionLocalizations(localizations('command.settings.description'))
+    .setContexts(InteractionContextType.Guild)
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('view')
+        .setDescription(t('en', 'command.settings.view'))
+        .setDescriptionLocalizations(localizations('command.settings.view'))
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('set')
+        .setDescription(t('en', 'command.settings.set'))
+        .setDescriptionLocalizations(localizations('command.settings.set'))
+        .addBooleanOption((option) =>
+          option
+            .setName('private-results')
+            .setDescription(t('en', 'command.settings.set.privateResults'))
+            .setDescriptionLocalizations(localizations('command.settings.set.privateResults'))
+        )
+        .addStringOption((option) =>
+          option
+            .setName('min-confidence')
+            .setDescription(t('en', 'command.settings.set.minConfidence'))
+            .setDescriptionLocalizations(localizations('command.settings.set.minConfidence'))
+            .addChoices(
+              {
+                name: t('en', 'command.settings.set.minConfidence.low'),
+                name_localizations: localizations('command.settings.set.minConfidence.low'),
+                value: 'Low',
+              },
+              {
+                name: t('en', 'confidence.Medium'),
+                name_localizations: localizations('confidence.Medium'),
+                value: 'Medium',
+              },
+              {
+                name: t('en', 'confidence.High'),
+                name_localizations: localizations('confidence.High'),
+                value: 'High',
+              }
+            )
+        )
+        .addBooleanOption((option) =>
+          option
+            .setName('thumbnails')
+            .setDescription(t('en', 'command.settings.set.thumbnails'))
+            .setDescriptionLocalizations(localizations('command.settings.set.thumbnails'))
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('allow-channel')
+        .setDescription(t('en', 'command.settings.allowChannel'))
+        .setDescriptionLocalizations(localizations('command.settings.allowChannel'))
+        .addChannelOption((option) =>
+          option
+            .setName('channel')
+            .setDescription(t('en', 'command.settings.allowChannel.channel'))
+            .setDescriptionLocalizations(localizations('command.settings.allowChannel.channel'))
+            .addChannelTypes(ChannelType.GuildText)
+            .setRequired(true)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('disallow-channel')
+        .setDescription(t('en', 'command.settings.disallowChannel'))
+        .setDescriptionLocalizations(localizations('command.settings.disallowChannel'))
+        .addChannelOption((option) =>
+          option
+            .setName('channel')
+            .setDescription(t('en', 'command.settings.disallowChannel.channel'))
+            .setDescriptionLocalizations(localizations('command.settings.disallowChannel.channel'))
+            .addChannelTypes(ChannelType.GuildText)
+            .setRequired(true)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('audit-log')
+        .setDescription(t('en', 'command.settings.auditLog'))
+        .setDescriptionLocalizations(localizations('command.settings.auditLog'))
+        .addChannelOption((option) =>
+          option
+            .setName('channel')
+            .setDescription(t('en', 'command.settings.auditLog.channel'))
+            .setDescriptionLocalizations(localizations('command.settings.auditLog.channel'))
+            .addChannelTypes(ChannelType.GuildText)
+        )
+        .addStringOption((option) =>
+          option
+            .setName('level')
+            .setDescription(t('en', 'command.settings.auditLog.level'))
+            .setDescriptionLocalizations(localizations('command.settings.auditLog.level'))
+            .addChoices(
+              {
+                name: t('en', 'settings.auditLog.level.errors'),
+                name_localizations: localizations('settings.auditLog.level.errors'),
+                value: 'errors',
+              },
+              {
+                name: t('en', 'settings.auditLog.level.warnings'),
+                name_localizations: localizations('settings.auditLog.level.warnings'),
+                value: 'warnings',
+              },
+              {
+                name: t('en', 'settings.auditLog.level.all'),
+                name_localizations: localizations('settings.auditLog.level.all'),
+                value: 'all',
+              }
+            )
+        )
+        .addBooleanOption((option) =>
+          option
+            .setName('disable')
+            .setDescription(t('en', 'command.settings.auditLog.disable'))
+            .setDescriptionLocalizations(localizations('command.settings.auditLog.disable'))
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('reset')
+        .setDescription(t('en', 'command.settings.reset'))
+        .setDescriptionLocalizations(localizations('command.settings.reset'))
+    ),
+
+  // Command execution
+  async execute(interaction: ChatInputCommandInteraction) {
+    const locale = resolveLocale(interaction);
+
+    if (!interaction.inGuild()) {
+      await interaction.reply({
+        embeds: [createErrorEmbed(t(locale, 'error.guildOnly'), undefined, locale)],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    if (!interaction.memberPermissions.has(PermissionFlagsBits.ManageGuild)) {
+      await interaction.reply({
+        embeds: [createErrorEmbed(t(locale, 'error.manageGuildRequired'), undefined, locale)],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    const { guildId } = interaction;
+
+    switch (subcommand) {
+      case 'view': {
+        await interaction.reply({
+          embeds: [createGuildSettingsEmbed(await getGuildSettings(guildId), locale)],
+          ephemeral: true,
+        });
+        return;
+      }
+
+      case 'set': {
+        const changes: Partial<GuildSettings> = {};
+        const ephemeralResults = interaction.options.getBoolean('private-results');
+        const minConfidence = interaction.options.getString('min-confidence');
+        const showThumbnails = interaction.options.getBoolean('thumbnails');
+
+        if (ephemeralResults !== null) {
+          changes.ephemeralResults = ephemeralResults;
+        }
+        if (minConfidence !== null) {
+          changes.minConfidence = minConfidence as ConfidenceLevel;
+        }
+        if (showThumbnails !== null) {
+          changes.showThumbnails = showThumbnails;
+        }
+
+        if (Object.keys(changes).length === 0) {
+          await interaction.reply({
+            embeds: [createErrorEmbed(t(locale, 'settings.noChanges'), undefined, locale)],
+            ephemeral: true,
+          });
+          return;
+        }
+
+        const settings = await updateGuildSettings(guildId, changes);
+        logger.info('Guild settings changed', { user: interaction.user.tag, guildId, changes });
+
+        await interaction.reply({
+          embeds: [createGuildSettingsEmbed(settings, locale)],
+          ephemeral: true,
+        });
+        return;
+      }
+
+      case 'allow-channel':
+      case 'disallow-channel': {
+        const channelId = interaction.options.getChannel('channel', true).id;
+        const { allowedChannelIds } = await getGuildSettings(guildId);
+        const otherChannelIds = allowedChannelIds.filter((id) => id !== channelId);
+
+        const settings = await updateGuildSettings(guildId, {
+          allowedChannelIds:
+            subcommand === 'allow-channel' ? [...otherChannelIds, channelId] : otherChannelIds,
+        });
+        logger.info('Guild allowed channels changed', {
+          user: interaction.user.tag,
+          guildId,
+          allowedChannelIds: settings.allowedChannelIds,
+        });
+
+        await interaction.reply({
+          embeds: [createGuildSettingsEmbed(settings, locale)],
+          ephemeral: true,
+        });
+        return;
+      }
+
+      case 'audit-log': {
+        const changes: Partial<GuildSettings> = {};
+        const channel = interaction.options.getChannel('channel');
+        const level = interaction.options.getString('level');
+        const disable = interaction.options.getBoolean('disable');
+
+        if (disable && channel) {
+          await interaction.reply({
+            embeds: [createErrorEmbed(t(locale, 'settings.auditLog.conflict'), undefined, locale)],
+            ephemeral: true,
+          });
+          return;
+        }
+
+        if (disable) {
+          changes.auditChannelId = null;
+        }
+        if (channel) {
+          changes.auditChannelId = channel.id;
+        }
+        if (level !== null) {
+          changes.auditLevel = level as AuditLogLevel;
+        }
+
+        if (Object.keys(changes).length === 0) {
+          await interaction.reply({
+            embeds: [createErrorEmbed(t(locale, 'settings.auditLog.noChanges'), undefined, locale)],
+            ephemeral: true,
+          });
+          return;
+        }
+
+        const settings = await updateGuildSettings(guildId, changes);
+        logger.info('Guild audit log changed', {
+          user: interaction.user.tag,
+          guildId,
+          auditChannelId: settings.auditChannelId,
+          auditLevel: settings.auditLevel,
+        });
+
+        await interaction.reply({
+          embeds: [createGuildSettingsEmbed(settings, locale)],
+          ephemeral: true,
+        });
+        return;
+      }
+
+      case 'reset': {
+        await resetGuildSettings(guildId);
+        logger.info('Guild settings reset', { user: interaction.user.tag, guildId });
+
+        await interaction.reply({
+          embeds: [
+            createInfoEmbed(
+              t(locale, 'settings.reset.title'),
+              t(locale, 'settings.reset.description'),
+              locale
+            ),
+          ],
+          ephemeral: true,
+        });
+        return;
+      }
+    }
+  },
+};
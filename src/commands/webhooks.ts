@@ -0,0 +1,254 @@
+/**
+ * Webhooks Command
+ *
+ * Slash command for managing the outbound webhooks that receive a server's
+ * identification events, and for sending them test deliveries.
+ */
+
+import type { AutocompleteInteraction, ChatInputCommandInteraction } from 'discord.js';
+import { InteractionContextType, PermissionFlagsBits, SlashCommandBuilder } from 'discord.js';
+import { config } from '../config/index.js';
+import { createErrorEmbed, createInfoEmbed } from '../utils/embedBuilder.js';
+import { logger } from '../utils/logger.js';
+import { checkWebhookUrl, sendTestWebhook, type WebhookUrlError } from '../utils/webhooks.js';
+import { addWebhook, getWebhook, listWebhooks, removeWebhook } from '../utils/webhookStore.js';
+import type { Command } from '../types/index.js';
+import { localizations, resolveLocale, t, type MessageKey } from '../i18n/index.js';
+
+/**
+ * Why a URL was refused, as shown to admins
+ */
+const URL_ERROR_MESSAGES: Record<WebhookUrlError, MessageKey> = {
+  'invalid-url': 'webhooks.invalidUrl',
+  'insecure-url': 'webhooks.insecureUrl',
+  'blocked-address': 'webhooks.blockedAddress',
+};
+
+/**
+ * The /webhooks command
+ */
+export const webhooksCommand: Command = {
+  // Command definition
+  data: new SlashCommandBuilder()
+    .setName('webhooks')
+    .setDescription(t('en', 'command.webhooks.description'))
+    .setDescriptionLocalizations(localizations('command.webhooks.description'))
+    .setContexts(InteractionContextType.Guild)
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('add')
+        .setDescription(t('en', 'command.webhooks.add'))
+        .setDescriptionLocalizations(localizations('command.webhooks.add'))
+        .addStringOption((option) =>
+          option
+            .setName('url')
+            .setDescription(t('en', 'command.webhooks.add.url'))
+            .setDescriptionLocalizations(localizations('command.webhooks.add.url'))
+            .setMaxLength(2000)
+            .setRequired(true)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('remove')
+        .setDescription(t('en', 'command.webhooks.remove'))
+        .setDescriptionLocalizations(localizations('command.webhooks.remove'))
+        .addStringOption((option) =>
+          option
+            .setName('webhook')
+            .setDescription(t('en', 'command.webhooks.remove.webhook'))
+            .setDescriptionLocalizations(localizations('command.webhooks.remove.webhook'))
+            .setAutocomplete(true)
+            .setRequired(true)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName('test')
+        .setDescription(t('en', 'command.webhooks.test'))
+        .setDescriptionLocalizations(localizations('command.webhooks.test'))
+        .addStringOption((option) =>
+          option
+            .setName('webhook')
+            .setDescription(t('en', 'command.webhooks.test.webhook'))
+            .setDescriptionLocalizations(localizations('command.webhooks.test.webhook'))
+            .setAutocomplete(true)
+            .setRequired(true)
+        )
+    ),
+
+  // Command execution
+  async execute(interaction: ChatInputCommandInteraction) {
+    const locale = resolveLocale(interaction);
+
+    if (!interaction.inGuild()) {
+      await interaction.reply({
+        embeds: [createErrorEmbed(t(locale, 'error.guildOnly'), undefined, locale)],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    if (!interaction.memberPermissions.has(PermissionFlagsBits.ManageGuild)) {
+      await interaction.reply({
+        embeds: [createErrorEmbed(t(locale, 'error.manageGuildRequired'), undefined, locale)],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    if (!config.webhooks.enabled) {
+      await interaction.reply({
+        embeds: [createErrorEmbed(t(locale, 'webhooks.disabled'), undefined, locale)],
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    const { guildId } = interaction;
+
+    switch (subcommand) {
+      case 'add': {
+        const checked = checkWebhookUrl(interaction.options.getString('url', true));
+        if (!checked.ok) {
+          await interaction.reply({
+            embeds: [
+              createErrorEmbed(t(locale, URL_ERROR_MESSAGES[checked.error]), undefined, locale),
+            ],
+            ephemeral: true,
+          });
+          return;
+        }
+
+        const webhooks = await listWebhooks(guildId);
+        if (webhooks.some(({ url }) => url === checked.url.href)) {
+          await interaction.reply({
+            embeds: [createErrorEmbed(t(locale, 'webhooks.duplicate'), undefined, locale)],
+            ephemeral: true,
+          });
+          return;
+        }
+        if (webhooks.length >= config.webhooks.maxPerGuild) {
+          await interaction.reply({
+            embeds: [
+              createErrorEmbed(
+                t(locale, 'webhooks.limit', { max: config.webhooks.maxPerGuild }),
+                undefined,
+                locale
+              ),
+            ],
+            ephemeral: true,
+          });
+          return;
+        }
+
+        const webhook = await addWebhook(guildId, checked.url.href, interaction.user.id);
+        logger.info('Webhook added', {
+          user: interaction.user.tag,
+          guildId,
+          webhookId: webhook.id,
+          host: checked.url.host,
+        });
+
+        await interaction.reply({
+          embeds: [
+            createInfoEmbed(
+              t(locale, 'webhooks.added.title'),
+              t(locale, 'webhooks.added.description', { id: webhook.id, secret: webhook.secret }),
+              locale
+            ),
+          ],
+          ephemeral: true,
+        });
+        return;
+      }
+
+      case 'remove': {
+        const webhookId = interaction.options.getString('webhook', true);
+        const removed = await removeWebhook(guildId, webhookId);
+        if (removed) {
+          logger.info('Webhook removed', { user: interaction.user.tag, guildId, webhookId });
+        }
+
+        await interaction.reply({
+          embeds: [
+            removed
+              ? createInfoEmbed(
+                  t(locale, 'webhooks.removed.title'),
+                  t(locale, 'webhooks.removed.description', { id: webhookId }),
+                  locale
+                )
+              : createErrorEmbed(
+                  t(locale, 'webhooks.notFound', { id: webhookId }),
+                  undefined,
+                  locale
+                ),
+          ],
+          ephemeral: true,
+        });
+        return;
+      }
+
+      case 'test': {
+        const webhookId = interaction.options.getString('webhook', true);
+        const webhook = await getWebhook(guildId, webhookId);
+        if (!webhook) {
+          await interaction.reply({
+            embeds: [
+              createErrorEmbed(
+                t(locale, 'webhooks.notFound', { id: webhookId }),
+                undefined,
+                locale
+              ),
+            ],
+            ephemeral: true,
+          });
+          return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+        const result = await sendTestWebhook(webhook, guildId, {
+          channelId: interaction.channelId,
+          userId: interaction.user.id,
+        });
+
+        await interaction.editReply({
+          embeds: [
+            result.ok
+              ? createInfoEmbed(
+                  t(locale, 'webhooks.test.title'),
+                  t(locale, 'webhooks.test.delivered', { id: webhook.id, status: result.status }),
+                  locale
+                )
+              : createErrorEmbed(
+                  t(locale, 'webhooks.test.failed', { id: webhook.id, error: result.error }),
+                  undefined,
+                  locale
+                ),
+          ],
+        });
+        return;
+      }
+    }
+  },
+
+  // Suggests the server's webhooks by ID and host
+  async autocomplete(interaction: AutocompleteInteraction) {
+    if (
+      !interaction.inGuild() ||
+      !interaction.memberPermissions.has(PermissionFlagsBits.ManageGuild)
+    ) {
+      await interaction.respond([]);
+      return;
+    }
+
+    const query = interaction.options.getFocused().toLowerCase();
+    const choices = (await listWebhooks(interaction.guildId))
+      .map(({ id, url }) => ({ name: `${id} — ${new URL(url).host}`.slice(0, 100), value: id }))
+      .filter(({ name }) => name.toLowerCase().includes(query));
+
+    await interaction.respond(choices.slice(0, 25));
+  },
+};
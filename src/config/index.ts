@@ -3,9 +3,18 @@
  *
  * This module handles all configuration for the Discord bot,
  * loading environment variables and validating required settings.
+ *
+ * Required settings are read when first used rather than at import time, so
+ * modules can be loaded without credentials they don't need (for example the
+ * CardSight API key when the mock recognition backend is configured).
+ * validateConfig checks everything the configured features require at startup.
  */
 
+import { existsSync } from 'node:fs';
 import dotenv from 'dotenv';
+import type { ConfidenceLevel } from '../types/index.js';
+import type { LogRedactionMode } from '../utils/logRedaction.js';
+import type { RecognitionProvider } from '../utils/recognition.js';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -24,6 +33,13 @@ export interface Config {
   cardsight: {
     apiKey: string;
     timeout?: number;
+    concurrency: number;
+  };
+
+  // Card Recognition Backend Configuration
+  recognition: {
+    provider: RecognitionProvider;
+    mockFixturesPath: string;
   };
 
   // Application Configuration
@@ -31,6 +47,129 @@ export interface Config {
     logLevel: string;
     nodeEnv: string;
   };
+
+  // Log Output Configuration
+  logging: {
+    dir: string;
+    consoleFormat: 'pretty' | 'json';
+    fileFormat: 'json' | 'text';
+    combinedFile: boolean;
+    maxSize: string;
+    maxFiles: string;
+    zipArchives: boolean;
+  };
+
+  // Privacy Configuration
+  privacy: {
+    logRedaction: LogRedactionMode;
+    hashSalt: string;
+  };
+
+  // Image Download Configuration
+  fetch: {
+    connectTimeoutMs: number;
+    readTimeoutMs: number;
+    maxRedirects: number;
+    allowedHosts: string[];
+    deniedHosts: string[];
+  };
+
+  // Image Preprocessing Configuration
+  image: {
+    maxDimension: number;
+    maxBytes: number;
+  };
+
+  // Persistent Storage Configuration
+  storage: {
+    dataDir: string;
+  };
+
+  // Auto-Identify Channel Configuration
+  autoIdentify: {
+    maxPerWindow: number;
+    windowMs: number;
+  };
+
+  // Identification Result Cache Configuration
+  cache: {
+    enabled: boolean;
+    ttlMs: number;
+    maxEntries: number;
+    disk: boolean;
+  };
+
+  // CardSight Retry and Circuit Breaker Configuration
+  resilience: {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    circuitBreakerThreshold: number;
+    circuitBreakerResetMs: number;
+  };
+
+  // Paginated Result Configuration
+  pagination: {
+    idleTimeoutMs: number;
+  };
+
+  // Command Rate Limit Configuration (token buckets)
+  rateLimit: {
+    user: { capacity: number; refillMs: number };
+    guild: { capacity: number; refillMs: number };
+    global: { capacity: number; refillMs: number };
+    exemptRoleIds: string[];
+  };
+
+  // Defaults for guilds that have not changed their /settings
+  guildDefaults: {
+    ephemeralResults: boolean;
+    minConfidence: ConfidenceLevel;
+    showThumbnails: boolean;
+  };
+
+  // Application Command Registration Configuration
+  registration: {
+    devGuildIds: string[];
+    onStartup: boolean;
+  };
+
+  // Health and Metrics HTTP Server Configuration
+  http: {
+    enabled: boolean;
+    host: string;
+    port: number;
+  };
+
+  // Identification Queue Configuration
+  queue: {
+    concurrency: number;
+    maxDepth: number;
+    priorityRoleIds: string[];
+    priorityBoosters: boolean;
+  };
+
+  // Graceful Shutdown Configuration
+  shutdown: {
+    drainTimeoutMs: number;
+  };
+
+  // Identification History Configuration
+  history: {
+    enabled: boolean;
+    retentionDays: number;
+  };
+
+  // Outbound Webhook Configuration
+  webhooks: {
+    enabled: boolean;
+    maxPerGuild: number;
+    timeoutMs: number;
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    allowPrivateHosts: boolean;
+  };
 }
 
 /**
@@ -51,26 +190,189 @@ function getOptionalEnv(key: string, defaultValue: string): string {
   return process.env[key] || defaultValue;
 }
 
+/**
+ * Gets an optional integer environment variable with a default value
+ */
+function getOptionalIntEnv(key: string, defaultValue: number): number {
+  const value = process.env[key];
+  return value ? parseInt(value, 10) : defaultValue;
+}
+
+/**
+ * Gets an optional boolean environment variable ("true"/"false") with a default value
+ */
+function getOptionalBoolEnv(key: string, defaultValue: boolean): boolean {
+  const value = process.env[key];
+  return value ? value.toLowerCase() === 'true' : defaultValue;
+}
+
+/**
+ * Gets an optional comma-separated list environment variable
+ */
+function getOptionalListEnv(key: string): string[] {
+  return (process.env[key] ?? '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
 /**
  * Configuration object containing all app settings
  */
 export const config: Config = {
   discord: {
-    token: getRequiredEnv('DISCORD_TOKEN'),
-    clientId: getRequiredEnv('DISCORD_CLIENT_ID'),
+    get token(): string {
+      return getRequiredEnv('DISCORD_TOKEN');
+    },
+    get clientId(): string {
+      return getRequiredEnv('DISCORD_CLIENT_ID');
+    },
   },
 
   cardsight: {
-    apiKey: getRequiredEnv('CARDSIGHTAI_API_KEY'),
+    // Only required by the CardSight recognition backend
+    get apiKey(): string {
+      return getRequiredEnv('CARDSIGHTAI_API_KEY');
+    },
     timeout: process.env['CARDSIGHTAI_TIMEOUT']
       ? parseInt(process.env['CARDSIGHTAI_TIMEOUT'], 10)
       : 30000, // Default 30 seconds
+    concurrency: getOptionalIntEnv('CARDSIGHTAI_CONCURRENCY', 2),
+  },
+
+  recognition: {
+    provider: getOptionalEnv('RECOGNITION_PROVIDER', 'cardsight') as RecognitionProvider,
+    mockFixturesPath: getOptionalEnv('MOCK_FIXTURES_PATH', 'fixtures/mock-recognition.json'),
   },
 
   app: {
     logLevel: getOptionalEnv('LOG_LEVEL', 'info'),
     nodeEnv: getOptionalEnv('NODE_ENV', 'development'),
   },
+
+  logging: {
+    dir: getOptionalEnv('LOG_DIR', 'logs'),
+    // Defaults to JSON lines in production and colored text in development
+    consoleFormat: getOptionalEnv(
+      'LOG_CONSOLE_FORMAT',
+      getOptionalEnv('NODE_ENV', 'development') === 'production' ? 'json' : 'pretty'
+    ) as 'pretty' | 'json',
+    fileFormat: getOptionalEnv('LOG_FILE_FORMAT', 'json') as 'json' | 'text',
+    // Errors are always written to a file; all levels only in production by default
+    combinedFile: getOptionalBoolEnv(
+      'LOG_COMBINED_FILE',
+      getOptionalEnv('NODE_ENV', 'development') === 'production'
+    ),
+    maxSize: getOptionalEnv('LOG_MAX_SIZE', '20m'),
+    maxFiles: getOptionalEnv('LOG_MAX_FILES', '14d'),
+    zipArchives: getOptionalBoolEnv('LOG_ZIP_ARCHIVES', false),
+  },
+
+  privacy: {
+    logRedaction: getOptionalEnv('PRIVACY_LOG_REDACTION', 'hash') as LogRedactionMode,
+    hashSalt: getOptionalEnv('PRIVACY_HASH_SALT', ''),
+  },
+
+  fetch: {
+    connectTimeoutMs: getOptionalIntEnv('FETCH_CONNECT_TIMEOUT', 5000), // Default 5 seconds
+    readTimeoutMs: getOptionalIntEnv('FETCH_READ_TIMEOUT', 10000), // Default 10 seconds
+    maxRedirects: getOptionalIntEnv('FETCH_MAX_REDIRECTS', 3),
+    allowedHosts: getOptionalListEnv('FETCH_ALLOWED_HOSTS'),
+    deniedHosts: getOptionalListEnv('FETCH_DENIED_HOSTS'),
+  },
+
+  image: {
+    maxDimension: getOptionalIntEnv('IMAGE_MAX_DIMENSION', 2048),
+    maxBytes: getOptionalIntEnv('IMAGE_MAX_BYTES', 4 * 1024 * 1024), // Default 4MB
+  },
+
+  storage: {
+    dataDir: getOptionalEnv('DATA_DIR', 'data'),
+  },
+
+  autoIdentify: {
+    maxPerWindow: getOptionalIntEnv('AUTO_IDENTIFY_MAX_PER_WINDOW', 5),
+    windowMs: getOptionalIntEnv('AUTO_IDENTIFY_WINDOW', 60000), // Default 1 minute
+  },
+
+  cache: {
+    enabled: getOptionalBoolEnv('CACHE_ENABLED', true),
+    ttlMs: getOptionalIntEnv('CACHE_TTL', 24 * 60 * 60 * 1000), // Default 24 hours
+    maxEntries: getOptionalIntEnv('CACHE_MAX_ENTRIES', 500),
+    disk: getOptionalBoolEnv('CACHE_DISK', false),
+  },
+
+  resilience: {
+    maxAttempts: getOptionalIntEnv('RETRY_MAX_ATTEMPTS', 3),
+    baseDelayMs: getOptionalIntEnv('RETRY_BASE_DELAY', 500),
+    maxDelayMs: getOptionalIntEnv('RETRY_MAX_DELAY', 8000),
+    circuitBreakerThreshold: getOptionalIntEnv('CIRCUIT_BREAKER_THRESHOLD', 5),
+    circuitBreakerResetMs: getOptionalIntEnv('CIRCUIT_BREAKER_RESET', 30000), // 30 seconds
+  },
+
+  pagination: {
+    idleTimeoutMs: getOptionalIntEnv('PAGINATION_IDLE_TIMEOUT', 120000), // Default 2 minutes
+  },
+
+  rateLimit: {
+    user: {
+      capacity: getOptionalIntEnv('RATE_LIMIT_USER_CAPACITY', 3),
+      refillMs: getOptionalIntEnv('RATE_LIMIT_USER_REFILL', 20000), // 1 per 20 seconds
+    },
+    guild: {
+      capacity: getOptionalIntEnv('RATE_LIMIT_GUILD_CAPACITY', 20),
+      refillMs: getOptionalIntEnv('RATE_LIMIT_GUILD_REFILL', 3000), // 1 per 3 seconds
+    },
+    global: {
+      capacity: getOptionalIntEnv('RATE_LIMIT_GLOBAL_CAPACITY', 60),
+      refillMs: getOptionalIntEnv('RATE_LIMIT_GLOBAL_REFILL', 1000), // 1 per second
+    },
+    exemptRoleIds: getOptionalListEnv('RATE_LIMIT_EXEMPT_ROLE_IDS'),
+  },
+
+  guildDefaults: {
+    ephemeralResults: getOptionalBoolEnv('DEFAULT_EPHEMERAL_RESULTS', false),
+    minConfidence: getOptionalEnv('DEFAULT_MIN_CONFIDENCE', 'Low') as ConfidenceLevel,
+    showThumbnails: getOptionalBoolEnv('DEFAULT_SHOW_THUMBNAILS', true),
+  },
+
+  registration: {
+    devGuildIds: getOptionalListEnv('DEV_GUILD_IDS'),
+    onStartup: getOptionalBoolEnv('REGISTER_COMMANDS_ON_STARTUP', true),
+  },
+
+  http: {
+    enabled: getOptionalBoolEnv('HTTP_SERVER_ENABLED', false),
+    host: getOptionalEnv('HTTP_SERVER_HOST', '0.0.0.0'),
+    port: getOptionalIntEnv('HTTP_SERVER_PORT', 8080),
+  },
+
+  queue: {
+    concurrency: getOptionalIntEnv('QUEUE_CONCURRENCY', 4),
+    maxDepth: getOptionalIntEnv('QUEUE_MAX_DEPTH', 50),
+    priorityRoleIds: getOptionalListEnv('QUEUE_PRIORITY_ROLE_IDS'),
+    priorityBoosters: getOptionalBoolEnv('QUEUE_PRIORITY_BOOSTERS', false),
+  },
+
+  shutdown: {
+    drainTimeoutMs: getOptionalIntEnv('SHUTDOWN_DRAIN_TIMEOUT', 20000), // Default 20 seconds
+  },
+
+  history: {
+    enabled: getOptionalBoolEnv('HISTORY_ENABLED', true),
+    retentionDays: getOptionalIntEnv('HISTORY_RETENTION_DAYS', 30), // 0 keeps entries forever
+  },
+
+  webhooks: {
+    enabled: getOptionalBoolEnv('WEBHOOKS_ENABLED', true),
+    maxPerGuild: getOptionalIntEnv('WEBHOOK_MAX_PER_GUILD', 5),
+    timeoutMs: getOptionalIntEnv('WEBHOOK_TIMEOUT', 10000), // Default 10 seconds
+    maxAttempts: getOptionalIntEnv('WEBHOOK_MAX_ATTEMPTS', 5),
+    baseDelayMs: getOptionalIntEnv('WEBHOOK_RETRY_BASE_DELAY', 2000),
+    maxDelayMs: getOptionalIntEnv('WEBHOOK_RETRY_MAX_DELAY', 60000), // Default 1 minute
+    // Permits http:// and private addresses, for testing against a local receiver
+    allowPrivateHosts: getOptionalBoolEnv('WEBHOOK_ALLOW_PRIVATE_HOSTS', false),
+  },
 };
 
 /**
@@ -88,11 +390,38 @@ export function validateConfig(): void {
     console.warn('⚠️  Discord token appears to be in an unexpected format');
   }
 
-  // Check CardSight configuration
-  if (config.cardsight.apiKey.length < 10) {
+  // Check the recognition backend, and CardSight configuration when it is used
+  if (!['cardsight', 'mock'].includes(config.recognition.provider)) {
+    throw new Error('RECOGNITION_PROVIDER must be "cardsight" or "mock"');
+  }
+  if (config.recognition.provider === 'mock') {
+    if (!existsSync(config.recognition.mockFixturesPath)) {
+      throw new Error(`Mock fixtures file not found: ${config.recognition.mockFixturesPath}`);
+    }
+    console.warn('⚠️  Using the mock recognition backend: results are canned fixtures');
+  } else if (config.cardsight.apiKey.length < 10) {
     console.warn('⚠️  CardSight API key appears to be too short');
   }
 
+  // Check log output settings
+  if (!['pretty', 'json'].includes(config.logging.consoleFormat)) {
+    console.warn('⚠️  LOG_CONSOLE_FORMAT should be "pretty" or "json"');
+  }
+  if (!['json', 'text'].includes(config.logging.fileFormat)) {
+    console.warn('⚠️  LOG_FILE_FORMAT should be "json" or "text"');
+  }
+  if (!/^\d+[kmg]?$/i.test(config.logging.maxSize)) {
+    console.warn('⚠️  LOG_MAX_SIZE should be a size such as 20m, 500k or 1g');
+  }
+  if (!/^\d+d?$/.test(config.logging.maxFiles)) {
+    console.warn('⚠️  LOG_MAX_FILES should be a file count such as 10, or an age such as 14d');
+  }
+
+  // Check the privacy settings
+  if (!['off', 'hash', 'drop'].includes(config.privacy.logRedaction)) {
+    console.warn('⚠️  PRIVACY_LOG_REDACTION should be "off", "hash" or "drop"');
+  }
+
   // Check timeout is reasonable
   if (
     config.cardsight.timeout &&
@@ -101,6 +430,104 @@ export function validateConfig(): void {
     console.warn('⚠️  CardSight timeout should be between 1 and 300 seconds');
   }
 
+  // Check concurrency is usable
+  if (!Number.isInteger(config.cardsight.concurrency) || config.cardsight.concurrency < 1) {
+    console.warn('⚠️  CardSight concurrency should be a positive integer');
+  }
+
+  // Check image downloads can complete
+  if (config.fetch.connectTimeoutMs < 1000 || config.fetch.readTimeoutMs < 1000) {
+    console.warn('⚠️  Image download timeouts should be at least 1 second');
+  }
+  if (!Number.isInteger(config.fetch.maxRedirects) || config.fetch.maxRedirects < 0) {
+    console.warn('⚠️  Image download redirect limit should be 0 or more');
+  }
+
+  // Check images can be downscaled to something usable
+  if (config.image.maxDimension < 256 || config.image.maxBytes < 100 * 1024) {
+    console.warn('⚠️  Image limits should allow at least 256 pixels and 100KB');
+  }
+
+  // Check auto-identify rate limit is usable
+  if (config.autoIdentify.maxPerWindow < 1 || config.autoIdentify.windowMs < 1000) {
+    console.warn(
+      '⚠️  Auto-identify limit should be at least 1 image per window of 1 second or more'
+    );
+  }
+
+  // Check cache size is usable
+  if (config.cache.enabled && config.cache.maxEntries < 1) {
+    console.warn('⚠️  Cache max entries should be at least 1');
+  }
+
+  // Check retry and circuit breaker settings are usable
+  if (config.resilience.maxAttempts < 1 || config.resilience.circuitBreakerThreshold < 1) {
+    console.warn('⚠️  Retry attempts and circuit breaker threshold should be at least 1');
+  }
+
+  // Check pagers expire before the interaction token does (15 minutes)
+  if (config.pagination.idleTimeoutMs < 1000 || config.pagination.idleTimeoutMs > 840000) {
+    console.warn('⚠️  Pagination idle timeout should be between 1 second and 14 minutes');
+  }
+
+  // Check rate limit buckets refill at a usable pace
+  for (const [scope, bucket] of Object.entries({
+    user: config.rateLimit.user,
+    guild: config.rateLimit.guild,
+    global: config.rateLimit.global,
+  })) {
+    if (bucket.capacity > 0 && bucket.refillMs < 1) {
+      console.warn(`⚠️  Rate limit refill for ${scope} bucket should be at least 1ms`);
+    }
+  }
+
+  // Check the default confidence threshold is a known level
+  if (!['High', 'Medium', 'Low'].includes(config.guildDefaults.minConfidence)) {
+    console.warn('⚠️  Default minimum confidence should be High, Medium or Low');
+  }
+
+  // Check development guild IDs look like Discord snowflakes
+  if (config.registration.devGuildIds.some((guildId) => !/^\d{17,20}$/.test(guildId))) {
+    console.warn('⚠️  DEV_GUILD_IDS should be a comma-separated list of guild IDs');
+  }
+
+  // Check the HTTP server port is usable
+  if (
+    config.http.enabled &&
+    (!Number.isInteger(config.http.port) || config.http.port < 1 || config.http.port > 65535)
+  ) {
+    console.warn('⚠️  HTTP server port should be between 1 and 65535');
+  }
+
+  // Check the identification queue is usable
+  if (!Number.isInteger(config.queue.concurrency) || config.queue.concurrency < 1) {
+    console.warn('⚠️  Queue concurrency should be a positive integer');
+  }
+  if (config.queue.maxDepth < 0) {
+    console.warn('⚠️  Queue max depth should be 0 (unlimited) or more');
+  }
+
+  // Check the shutdown deadline is usable
+  if (config.shutdown.drainTimeoutMs < 0) {
+    console.warn('⚠️  Shutdown drain timeout should not be negative');
+  }
+
+  // Check the history retention is usable
+  if (!Number.isInteger(config.history.retentionDays) || config.history.retentionDays < 0) {
+    console.warn('⚠️  History retention should be 0 (keep forever) or a whole number of days');
+  }
+
+  // Check webhook deliveries can be attempted and retried
+  if (config.webhooks.maxPerGuild < 1 || config.webhooks.maxAttempts < 1) {
+    console.warn('⚠️  Webhook limit per server and delivery attempts should be at least 1');
+  }
+  if (config.webhooks.timeoutMs < 1000 || config.webhooks.baseDelayMs < 1) {
+    console.warn('⚠️  Webhook timeout should be at least 1 second and retry delay at least 1ms');
+  }
+  if (config.webhooks.allowPrivateHosts) {
+    console.warn('⚠️  Webhooks may target private addresses; only enable this for local testing');
+  }
+
   // eslint-disable-next-line no-console
   console.log('✓ Configuration validated successfully');
 }
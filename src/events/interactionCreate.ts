@@ -1,28 +1,112 @@
 /**
  * Interaction Create Event Handler
  *
- * Handles all Discord interactions, including slash commands.
+ * Handles all Discord interactions: slash and context-menu commands, autocomplete,
+ * and message components and modals.
  */
 
-import type { Interaction } from 'discord.js';
-import { Events } from 'discord.js';
+import type {
+  AutocompleteInteraction,
+  ChatInputCommandInteraction,
+  Interaction,
+  MessageContextMenuCommandInteraction,
+} from 'discord.js';
+import { Events, PermissionFlagsBits } from 'discord.js';
 import { logger, logInteraction, logError } from '../utils/logger.js';
-import { createErrorEmbed } from '../utils/embedBuilder.js';
-import type { Command } from '../types/index.js';
+import { postAuditLog } from '../utils/auditLog.js';
+import {
+  createCooldownEmbed,
+  createErrorEmbed,
+  createInterruptedEmbed,
+  createRestartingEmbed,
+} from '../utils/embedBuilder.js';
+import { getGuildSettings, isChannelAllowed } from '../utils/guildSettings.js';
+import { commandRateLimiter, isRateLimitExempt } from '../utils/rateLimiter.js';
+import { decodeCustomId, routeComponentInteraction } from '../utils/componentRouter.js';
+import { runWithCorrelation } from '../utils/correlation.js';
+import { replyWithError } from '../utils/interactionReply.js';
+import { recordCommand } from '../utils/metrics.js';
+import { isShuttingDown, trackInFlight } from '../utils/shutdown.js';
+import type { Command, CommandRegistry, MessageContextMenuCommand } from '../types/index.js';
+import { resolveLocale, t } from '../i18n/index.js';
 
 /**
  * Handles the interactionCreate event
+ *
+ * Everything done for the interaction runs in its own correlation context, so
+ * log lines and error embeds can be tied back to it.
  */
 export async function handleInteractionCreate(
   interaction: Interaction,
-  commands: Map<string, Command>
+  commands: CommandRegistry
 ): Promise<void> {
-  // Only handle chat input commands
-  if (!interaction.isChatInputCommand()) {
-    return;
+  await runWithCorrelation(
+    {
+      interactionId: interaction.id,
+      guildId: interaction.guildId,
+      channelId: interaction.channelId,
+      userId: interaction.user.id,
+      command: describeInteraction(interaction),
+    },
+    () => dispatchInteraction(interaction, commands)
+  );
+}
+
+/**
+ * Names what an interaction invokes, for the correlation context
+ */
+function describeInteraction(interaction: Interaction): string | undefined {
+  if (interaction.isCommand() || interaction.isAutocomplete()) {
+    const subcommand = interaction.isChatInputCommand()
+      ? interaction.options.getSubcommand(false)
+      : null;
+    return subcommand ? `${interaction.commandName} ${subcommand}` : interaction.commandName;
+  }
+  if (interaction.isMessageComponent() || interaction.isModalSubmit()) {
+    return `component:${decodeCustomId(interaction.customId).prefix}`;
+  }
+  return undefined;
+}
+
+/**
+ * Routes an interaction to its command, autocomplete or component handler
+ */
+async function dispatchInteraction(
+  interaction: Interaction,
+  commands: CommandRegistry
+): Promise<void> {
+  if (interaction.isChatInputCommand()) {
+    await runCommand(interaction, commands.chatInput.get(interaction.commandName), (command) =>
+      command.execute(interaction)
+    );
+  } else if (interaction.isMessageContextMenuCommand()) {
+    await runCommand(
+      interaction,
+      commands.messageContextMenu.get(interaction.commandName),
+      (command) => command.execute(interaction)
+    );
+  } else if (interaction.isAutocomplete()) {
+    await runAutocomplete(interaction, commands.chatInput.get(interaction.commandName));
+  } else if (interaction.isMessageComponent() || interaction.isModalSubmit()) {
+    await routeComponentInteraction(interaction, commands.components);
   }
 
-  const command = commands.get(interaction.commandName);
+  // Other interaction types are not handled
+}
+
+/**
+ * Runs a command, replying with an error embed if it is unknown or fails
+ *
+ * @param interaction - The command interaction
+ * @param command - The matched command, or undefined if none matched
+ * @param execute - Executes the matched command
+ */
+async function runCommand<T extends Command | MessageContextMenuCommand>(
+  interaction: ChatInputCommandInteraction | MessageContextMenuCommandInteraction,
+  command: T | undefined,
+  execute: (command: T) => Promise<void>
+): Promise<void> {
+  const locale = resolveLocale(interaction);
 
   if (!command) {
     logger.warn(`Unknown command: ${interaction.commandName}`, {
@@ -31,42 +115,148 @@ export async function handleInteractionCreate(
     });
 
     await interaction.reply({
-      embeds: [createErrorEmbed('Unknown command.')],
+      embeds: [createErrorEmbed(t(locale, 'error.unknownCommand'), undefined, locale)],
       ephemeral: true,
     });
     return;
   }
 
+  // Refuse new commands while shutting down
+  if (isShuttingDown()) {
+    recordCommand(interaction.commandName, 'shutting_down');
+    await interaction.reply({ embeds: [createRestartingEmbed(locale)], ephemeral: true });
+    return;
+  }
+
   try {
+    // Respect the guild's allowed channels; server managers may use the bot anywhere
+    if (
+      interaction.inGuild() &&
+      !interaction.memberPermissions.has(PermissionFlagsBits.ManageGuild)
+    ) {
+      const settings = await getGuildSettings(interaction.guildId);
+      const channelId = interaction.channel?.isThread()
+        ? interaction.channel.parentId
+        : interaction.channelId;
+
+      if (!isChannelAllowed(settings, channelId)) {
+        recordCommand(interaction.commandName, 'denied');
+        await interaction.reply({
+          embeds: [
+            createErrorEmbed(
+              t(locale, 'error.channelNotAllowed', {
+                channels: settings.allowedChannelIds.map((id) => `<#${id}>`).join(', '),
+              }),
+              undefined,
+              locale
+            ),
+          ],
+          ephemeral: true,
+        });
+        return;
+      }
+    }
+
+    // Apply rate limits to commands that call CardSight
+    if (isRateLimitedInvocation(interaction, command) && !isRateLimitExempt(interaction)) {
+      const rateLimit = commandRateLimiter.consume(interaction.user.id, interaction.guildId);
+      if (!rateLimit.allowed) {
+        logger.warn(`Rate limited command: ${interaction.commandName}`, {
+          user: interaction.user.tag,
+          userId: interaction.user.id,
+          scope: rateLimit.scope,
+          retryAfterMs: rateLimit.retryAfterMs,
+        });
+        recordCommand(interaction.commandName, 'rate_limited');
+        void postAuditLog(interaction.client, interaction.guildId, {
+          type: 'rate-limited',
+          user: interaction.user,
+          channelId: interaction.channelId,
+          scope: rateLimit.scope,
+          retryAfterMs: rateLimit.retryAfterMs,
+        });
+
+        await interaction.reply({
+          embeds: [createCooldownEmbed(rateLimit.scope, rateLimit.retryAfterMs, locale)],
+          ephemeral: true,
+        });
+        return;
+      }
+    }
+
     logInteraction(interaction, 'command-start');
 
-    // Execute the command
-    await command.execute(interaction);
+    // Execute the command, letting shutdown wait for it or apologize if it can't finish
+    await trackInFlight(
+      `/${interaction.commandName}`,
+      () => execute(command),
+      async () => {
+        if (interaction.deferred || interaction.replied) {
+          await interaction.editReply({ embeds: [createInterruptedEmbed(locale)], components: [] });
+        }
+      }
+    );
 
     logInteraction(interaction, 'command-success');
+    recordCommand(interaction.commandName, 'success');
   } catch (error) {
+    recordCommand(interaction.commandName, 'error');
     logError(`Error executing command ${interaction.commandName}`, error, {
       user: interaction.user.tag,
       userId: interaction.user.id,
     });
+    void postAuditLog(interaction.client, interaction.guildId, {
+      type: 'command-error',
+      user: interaction.user,
+      channelId: interaction.channelId,
+    });
 
     // Send error message to user
-    const errorEmbed = createErrorEmbed(
-      'There was an error while executing this command.\n' +
-        'Please try again later or contact support if the issue persists.'
-    );
+    const errorEmbed = createErrorEmbed(t(locale, 'error.commandFailed'), undefined, locale);
 
-    // Try to reply or follow up depending on interaction state
-    try {
-      if (interaction.deferred) {
-        await interaction.editReply({ embeds: [errorEmbed] });
-      } else if (interaction.replied) {
-        await interaction.followUp({ embeds: [errorEmbed], ephemeral: true });
-      } else {
-        await interaction.reply({ embeds: [errorEmbed], ephemeral: true });
-      }
-    } catch (replyError) {
-      logError('Failed to send error message to user', replyError);
+    // Reply or follow up depending on interaction state
+    await replyWithError(interaction, errorEmbed);
+  }
+}
+
+/**
+ * Checks whether a command invocation counts against the CardSight rate limits
+ */
+function isRateLimitedInvocation(
+  interaction: ChatInputCommandInteraction | MessageContextMenuCommandInteraction,
+  command: Command | MessageContextMenuCommand
+): boolean {
+  if (typeof command.rateLimited === 'function') {
+    return interaction.isChatInputCommand() && command.rateLimited(interaction);
+  }
+  return command.rateLimited ?? false;
+}
+
+/**
+ * Runs a command's autocomplete handler, answering with no choices if it fails
+ */
+async function runAutocomplete(
+  interaction: AutocompleteInteraction,
+  command: Command | undefined
+): Promise<void> {
+  if (!command?.autocomplete) {
+    logger.warn(`No autocomplete handler for command: ${interaction.commandName}`);
+    return;
+  }
+
+  try {
+    await command.autocomplete(interaction);
+  } catch (error) {
+    logError(`Error running autocomplete for ${interaction.commandName}`, error, {
+      user: interaction.user.tag,
+      userId: interaction.user.id,
+    });
+
+    // Autocomplete can't show errors; an empty list is the closest fallback
+    if (!interaction.responded) {
+      await interaction.respond([]).catch((respondError: unknown) => {
+        logError('Failed to send empty autocomplete response', respondError);
+      });
     }
   }
 }
@@ -74,7 +264,7 @@ export async function handleInteractionCreate(
 /**
  * Creates the interactionCreate event handler
  */
-export function createInteractionHandler(commands: Map<string, Command>) {
+export function createInteractionHandler(commands: CommandRegistry) {
   return {
     name: Events.InteractionCreate,
     async execute(interaction: Interaction) {
@@ -0,0 +1,199 @@
+/**
+ * Message Create Event Handler
+ *
+ * Identifies images posted in auto-identify channels.
+ */
+
+import type { Message } from 'discord.js';
+import { Events } from 'discord.js';
+import { config } from '../config/index.js';
+import {
+  getAutoIdentifyChannel,
+  isAutoIdentifyOptedOut,
+  rememberAutoIdentifyReply,
+  type AutoIdentifyChannel,
+} from '../utils/autoIdentifyStore.js';
+import { createAddToCollectionRow } from '../utils/collectionButton.js';
+import { runWithCorrelation } from '../utils/correlation.js';
+import { createFeedbackRow } from '../utils/feedbackButtons.js';
+import { getGuildSettings } from '../utils/guildSettings.js';
+import {
+  applyConfidenceThreshold,
+  createIdentificationResultEmbed,
+  enqueueIdentification,
+  imageSourceFromAttachment,
+  logIdentificationSuccess,
+  onIdentified,
+  validateImageSource,
+} from '../utils/identification.js';
+import { logDebug, logError } from '../utils/logger.js';
+import { isShuttingDown, trackInFlight } from '../utils/shutdown.js';
+import { MAX_IMAGES_PER_COMMAND } from '../types/index.js';
+import { resolveLocale, t } from '../i18n/index.js';
+
+/**
+ * Reaction the original poster can add to an auto-identify reply to opt out
+ */
+export const OPT_OUT_EMOJI = '🚫';
+
+// Timestamps of recent auto-identifications per channel, for rate limiting
+const channelActivity = new Map<string, number[]>();
+
+/**
+ * Records an auto-identification in a channel if it is under its rate limit
+ *
+ * @returns Whether the channel had capacity left
+ */
+function tryConsumeChannelSlot(channelId: string): boolean {
+  const now = Date.now();
+  const recent = (channelActivity.get(channelId) ?? []).filter(
+    (timestamp) => now - timestamp < config.autoIdentify.windowMs
+  );
+
+  if (recent.length >= config.autoIdentify.maxPerWindow) {
+    channelActivity.set(channelId, recent);
+    return false;
+  }
+
+  recent.push(now);
+  channelActivity.set(channelId, recent);
+  return true;
+}
+
+/**
+ * Handles the messageCreate event
+ */
+export async function handleMessageCreate(message: Message): Promise<void> {
+  // Never react to bots (including ourselves) or messages outside guilds, or while shutting down
+  if (message.author.bot || !message.inGuild() || isShuttingDown()) {
+    return;
+  }
+
+  const channelSettings = await getAutoIdentifyChannel(message.guildId, message.channelId);
+  if (!channelSettings) {
+    return;
+  }
+
+  // Auto-identified messages get a correlation context, like interactions do
+  await runWithCorrelation(
+    {
+      messageId: message.id,
+      guildId: message.guildId,
+      channelId: message.channelId,
+      userId: message.author.id,
+      command: 'auto-identify',
+    },
+    () => autoIdentifyMessage(message, channelSettings)
+  );
+}
+
+/**
+ * Identifies the images in a message posted in an auto-identify channel
+ */
+async function autoIdentifyMessage(
+  message: Message<true>,
+  channelSettings: AutoIdentifyChannel
+): Promise<void> {
+  // Only consider supported images; anything else is silently ignored
+  const sources = message.attachments
+    .map(imageSourceFromAttachment)
+    .filter((source) => validateImageSource(source) === null)
+    .slice(0, MAX_IMAGES_PER_COMMAND);
+  if (sources.length === 0) {
+    return;
+  }
+
+  if (await isAutoIdentifyOptedOut(message.guildId, message.author.id)) {
+    return;
+  }
+
+  if (!tryConsumeChannelSlot(message.channelId)) {
+    logDebug('Auto-identify rate limit reached, skipping message', {
+      channelId: message.channelId,
+      messageId: message.id,
+    });
+    return;
+  }
+
+  // Auto-identify stays quiet rather than adding to a full queue
+  const queued = enqueueIdentification(sources);
+  if (!queued.accepted) {
+    logDebug('Identification queue is full, skipping message', {
+      channelId: message.channelId,
+      messageId: message.id,
+    });
+    return;
+  }
+
+  try {
+    await message.channel.sendTyping();
+
+    const settings = await getGuildSettings(message.guildId);
+    const results = await trackInFlight(`auto-identify ${message.id}`, () => queued.result);
+    await onIdentified(results, {
+      client: message.client,
+      user: message.author,
+      guildId: message.guildId,
+      channelId: message.channelId,
+    });
+    const identifications = applyConfidenceThreshold(results, settings);
+
+    // Stay quiet unless something was found: these channels are not opt-in per message
+    if (!identifications.some(({ result }) => result.detections.length > 0)) {
+      logDebug('Auto-identify found no cards', { messageId: message.id });
+      return;
+    }
+
+    const locale = resolveLocale({ guildLocale: message.guild?.preferredLocale });
+    const embed = createIdentificationResultEmbed(identifications, settings, locale);
+    // Keep the result's own footer (timing, cache status) and add the opt-out hint
+    embed.setFooter({
+      text: [
+        embed.data.footer?.text ?? t(locale, 'footer.poweredBy'),
+        t(locale, 'footer.optOutHint', { emoji: OPT_OUT_EMOJI }),
+      ].join(' • '),
+    });
+
+    const components = [
+      createAddToCollectionRow(identifications, locale),
+      await createFeedbackRow(results, settings, locale),
+    ].filter((row) => row !== null);
+    const replyOptions = { embeds: [embed], components };
+
+    const reply =
+      channelSettings.mode === 'thread'
+        ? await (
+            await message.startThread({ name: t(locale, 'autoIdentify.threadName') })
+          ).send(replyOptions)
+        : await message.reply({ ...replyOptions, allowedMentions: { repliedUser: false } });
+
+    await rememberAutoIdentifyReply(message.guildId, reply.id, message.author.id);
+    await reply.react(OPT_OUT_EMOJI);
+
+    logIdentificationSuccess(identifications, {
+      user: message.author.tag,
+      channelId: message.channelId,
+      source: 'auto-identify',
+    });
+  } catch (error) {
+    logError('Failed to auto-identify message', error, {
+      channelId: message.channelId,
+      messageId: message.id,
+    });
+  }
+}
+
+/**
+ * Creates the messageCreate event handler
+ */
+export function createMessageHandler(): {
+  name: Events.MessageCreate;
+  execute: (message: Message) => Promise<void>;
+} {
+  return {
+    name: Events.MessageCreate,
+    async execute(message: Message) {
+      await handleMessageCreate(message);
+    },
+  };
+}
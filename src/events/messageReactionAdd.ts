@@ -0,0 +1,80 @@
+/**
+ * Message Reaction Add Event Handler
+ *
+ * Lets users opt out of auto-identify by reacting to a bot reply.
+ */
+
+import type { MessageReaction, PartialMessageReaction, PartialUser, User } from 'discord.js';
+import { Events } from 'discord.js';
+import {
+  forgetAutoIdentifyReply,
+  getAutoIdentifyReplyAuthor,
+  setAutoIdentifyOptOut,
+} from '../utils/autoIdentifyStore.js';
+import { logger, logError } from '../utils/logger.js';
+import { OPT_OUT_EMOJI } from './messageCreate.js';
+
+/**
+ * Handles the messageReactionAdd event
+ */
+export async function handleMessageReactionAdd(
+  reaction: MessageReaction | PartialMessageReaction,
+  user: User | PartialUser
+): Promise<void> {
+  // The emoji is known even for uncached reactions, so other reactions cost no fetch
+  if (reaction.emoji.name !== OPT_OUT_EMOJI) {
+    return;
+  }
+
+  try {
+    // Reactions on messages from before a restart or evicted from the cache arrive partial
+    if (reaction.partial) {
+      reaction = await reaction.fetch();
+    }
+    if (user.partial) {
+      user = await user.fetch();
+    }
+
+    const { guildId } = reaction.message;
+    if (user.bot || !guildId) {
+      return;
+    }
+
+    // Only the author of the identified message can opt out from its reply
+    const authorId = await getAutoIdentifyReplyAuthor(guildId, reaction.message.id);
+    if (!authorId || authorId !== user.id) {
+      return;
+    }
+
+    await setAutoIdentifyOptOut(guildId, user.id, true);
+
+    logger.info('User opted out of auto-identify', {
+      userId: user.id,
+      guildId,
+    });
+
+    // Remove the reply the user objected to
+    await forgetAutoIdentifyReply(guildId, reaction.message.id);
+    await reaction.message.delete();
+  } catch (error) {
+    logError('Failed to process auto-identify opt-out', error, { userId: user.id });
+  }
+}
+
+/**
+ * Creates the messageReactionAdd event handler
+ */
+export function createMessageReactionHandler(): {
+  name: Events.MessageReactionAdd;
+  execute: (
+    reaction: MessageReaction | PartialMessageReaction,
+    user: User | PartialUser
+  ) => Promise<void>;
+} {
+  return {
+    name: Events.MessageReactionAdd,
+    async execute(reaction: MessageReaction | PartialMessageReaction, user: User | PartialUser) {
+      await handleMessageReactionAdd(reaction, user);
+    },
+  };
+}
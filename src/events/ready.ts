@@ -5,16 +5,19 @@
  */
 
 import type { Client } from 'discord.js';
-import { Events, REST, Routes } from 'discord.js';
+import { Events } from 'discord.js';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import { validateCardSightConnection } from '../utils/cardsight.js';
-import type { Command } from '../types/index.js';
+import { syncCommands } from '../utils/commandRegistration.js';
+import { startHistoryPurge } from '../utils/historyStore.js';
+import { sweepDiskCache } from '../utils/resultCache.js';
+import type { CommandRegistry } from '../types/index.js';
 
 /**
  * Handles the ready event
  */
-export async function handleReady(client: Client, commands: Map<string, Command>): Promise<void> {
+export async function handleReady(client: Client, commands: CommandRegistry): Promise<void> {
   if (!client.user) {
     logger.error('Bot user is not available');
     return;
@@ -34,42 +37,29 @@ export async function handleReady(client: Client, commands: Map<string, Command>
     );
   }
 
-  // Register slash commands
-  await registerCommands(commands);
-}
-
-/**
- * Registers slash commands with Discord
- */
-async function registerCommands(commands: Map<string, Command>): Promise<void> {
-  try {
-    logger.info('Started refreshing application (/) commands.');
-
-    const rest = new REST({ version: '10' }).setToken(config.discord.token);
-
-    // Convert commands to JSON for registration
-    const commandsData = Array.from(commands.values()).map((command) => command.data.toJSON());
-
-    // Register commands globally
-    const data = (await rest.put(Routes.applicationCommands(config.discord.clientId), {
-      body: commandsData,
-    })) as any[];
+  // Drop history entries that expired while the bot was offline, and keep purging hourly
+  startHistoryPurge();
 
-    logger.info(`Successfully registered ${data.length} application (/) commands globally.`);
+  // Drop cached results that expired or overflowed the cache while the bot was offline,
+  // in the background so command sync doesn't wait on reading every cache file
+  void sweepDiskCache().catch((error: unknown) => {
+    logger.error('Failed to sweep the identification cache', { error });
+  });
 
-    // Log registered commands
-    data.forEach((cmd) => {
-      logger.info(`  - /${cmd.name}: ${cmd.description}`);
-    });
-  } catch (error) {
-    logger.error('Failed to register commands', { error });
+  // Sync slash and context-menu commands, unless deploys register them separately
+  if (config.registration.onStartup) {
+    try {
+      await syncCommands(commands);
+    } catch (error) {
+      logger.error('Failed to register commands', { error });
+    }
   }
 }
 
 /**
  * Creates the ready event handler
  */
-export function createReadyHandler(commands: Map<string, Command>) {
+export function createReadyHandler(commands: CommandRegistry) {
   return {
     name: Events.ClientReady,
     once: true,
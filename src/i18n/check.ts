@@ -0,0 +1,57 @@
+/**
+ * Translation Check
+ *
+ * Compares every catalog against the English one and reports missing keys,
+ * unknown keys and placeholder mismatches. Exits non-zero if any are found.
+ *
+ * Run with `npm run i18n:check`.
+ */
+
+/* eslint-disable no-console */
+
+import { catalogs, type Catalog, type MessageKey, type SupportedLocale } from './index.js';
+import { en } from './en.js';
+
+/**
+ * Extracts the sorted `{placeholder}` names used in a message
+ */
+function getPlaceholders(message: string): string {
+  return [...message.matchAll(/\{(\w+)\}/g)]
+    .map(([, name]) => name)
+    .sort()
+    .join(',');
+}
+
+const englishKeys = Object.keys(en) as MessageKey[];
+let problems = 0;
+
+for (const [locale, catalog] of Object.entries(catalogs) as [SupportedLocale, Catalog][]) {
+  if (locale === 'en') {
+    continue;
+  }
+
+  for (const key of englishKeys) {
+    const message = catalog[key];
+    if (message === undefined) {
+      console.log(`[${locale}] missing key: ${key}`);
+      problems++;
+    } else if (getPlaceholders(message) !== getPlaceholders(en[key])) {
+      console.log(`[${locale}] placeholder mismatch: ${key}`);
+      problems++;
+    }
+  }
+
+  for (const key of Object.keys(catalog)) {
+    if (!(key in en)) {
+      console.log(`[${locale}] unknown key: ${key}`);
+      problems++;
+    }
+  }
+}
+
+if (problems > 0) {
+  console.log(`✗ Found ${problems} translation problem(s)`);
+  process.exit(1);
+}
+
+console.log('✓ All translations are complete');
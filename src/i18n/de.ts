@@ -0,0 +1,386 @@
+/**
+ * German Messages
+ */
+
+import type { Catalog } from './index.js';
+
+export const de: Catalog = {
+  // Command definitions
+  'command.identify.name': 'identifizieren',
+  'command.identify.description': 'Sammelkarten auf einem oder mehreren Bildern identifizieren',
+  'command.identify.image': 'Das Kartenbild, das identifiziert werden soll',
+  'command.identify.extraImage': 'Weiteres Kartenbild Nr. {index}',
+  'command.identify.url': 'Link zu einem Kartenbild, z. B. von eBay oder Imgur',
+  'command.identifyMessage.name': 'Karte identifizieren',
+  'command.settings.name': 'einstellungen',
+  'command.settings.description': 'Anzeigen und ändern, wie sich der Bot auf diesem Server verhält',
+  'command.settings.view': 'Die aktuellen Einstellungen anzeigen',
+  'command.settings.set': 'Eine oder mehrere Einstellungen ändern',
+  'command.settings.set.privateResults': 'Ergebnisse nur der anfragenden Person anzeigen',
+  'command.settings.set.minConfidence': 'Erkennungen unterhalb dieser Sicherheit ausblenden',
+  'command.settings.set.minConfidence.low': 'Niedrig (alles anzeigen)',
+  'command.settings.set.thumbnails': 'Das identifizierte Bild als Vorschaubild anzeigen',
+  'command.settings.allowChannel':
+    'Den Bot auf einen Kanal beschränken (für mehrere Kanäle nutzbar)',
+  'command.settings.allowChannel.channel': 'Der zu erlaubende Kanal',
+  'command.settings.disallowChannel': 'Einen Kanal aus den erlaubten Kanälen entfernen',
+  'command.settings.disallowChannel.channel': 'Der zu entfernende Kanal',
+  'command.settings.reset': 'Die Standardeinstellungen wiederherstellen',
+  'command.collection.name': 'sammlung',
+  'command.collection.description': 'Eine persönliche Sammlung deiner Karten führen',
+  'command.collection.add': 'Ein Kartenbild identifizieren und zu deiner Sammlung hinzufügen',
+  'command.collection.add.image': 'Das hinzuzufügende Kartenbild',
+  'command.collection.list': 'Die Karten in deiner Sammlung auflisten',
+  'command.collection.list.sort': 'Sortierung der Karten (standardmäßig nach Hinzufügedatum)',
+  'command.collection.list.sort.added': 'Hinzugefügt am',
+  'command.collection.list.sort.year': 'Jahr',
+  'command.collection.list.sort.set': 'Set',
+  'command.collection.list.sort.manufacturer': 'Hersteller',
+  'command.collection.show': 'Eine Karte aus deiner Sammlung anzeigen',
+  'command.collection.show.card': 'Die anzuzeigende Karte',
+  'command.collection.remove': 'Eine Karte aus deiner Sammlung entfernen',
+  'command.collection.remove.card': 'Die zu entfernende Karte',
+  'command.autoIdentify.name': 'autoidentifizieren',
+  'command.autoIdentify.description':
+    'In ausgewählten Kanälen gepostete Bilder automatisch identifizieren',
+  'command.autoIdentify.enable':
+    'Jedes in einem Kanal gepostete Bild identifizieren (nur Moderatoren)',
+  'command.autoIdentify.enable.channel': 'Der zu beobachtende Kanal (standardmäßig dieser)',
+  'command.autoIdentify.enable.mode': 'Wie Ergebnisse gepostet werden (standardmäßig als Antwort)',
+  'command.autoIdentify.enable.mode.reply': 'Auf die Nachricht antworten',
+  'command.autoIdentify.enable.mode.thread': 'Einen Thread starten',
+  'command.autoIdentify.disable':
+    'Bilder in einem Kanal nicht mehr identifizieren (nur Moderatoren)',
+  'command.autoIdentify.disable.channel':
+    'Der nicht mehr zu beobachtende Kanal (standardmäßig dieser)',
+  'command.autoIdentify.list':
+    'Kanäle mit automatischer Identifizierung auflisten (nur Moderatoren)',
+  'command.autoIdentify.optOut': 'Deine geposteten Bilder nicht mehr automatisch identifizieren',
+  'command.autoIdentify.optIn': 'Deine geposteten Bilder wieder automatisch identifizieren',
+  'command.feedback.description': 'Feedback zu Identifizierungsergebnissen exportieren',
+  'command.feedback.export': 'Feedback und Korrekturen dieses Servers herunterladen',
+  'command.feedback.export.format': 'Dateiformat (Standard: CSV)',
+  'command.webhooks.description':
+    'Identifizierungsereignisse dieses Servers an andere Dienste senden',
+  'command.webhooks.add': 'Jede Identifizierung als signierten JSON-POST an eine URL senden',
+  'command.webhooks.add.url': 'Die https-URL, an die gesendet wird',
+  'command.webhooks.remove': 'Keine Identifizierungen mehr an einen Webhook senden',
+  'command.webhooks.remove.webhook': 'Der zu entfernende Webhook',
+  'command.webhooks.test': 'Ein Testereignis an einen Webhook senden',
+  'command.webhooks.test.webhook': 'Der zu testende Webhook',
+  'command.history.description': 'Deine früheren Identifizierungen nachschlagen',
+  'command.history.list': 'Deine letzten Identifizierungen auflisten',
+  'command.history.list.server':
+    'Die Identifizierungen aller auf diesem Server auflisten (nur „Server verwalten“)',
+  'command.history.show': 'Das vollständige Ergebnis einer früheren Identifizierung anzeigen',
+  'command.history.show.identification': 'Die anzuzeigende Identifizierung',
+  'command.lookup.name': 'suchen',
+  'command.lookup.description': 'Den Kartenkatalog nach Spieler, Jahr, Set und Nummer durchsuchen',
+  'command.lookup.cardName': 'Spieler- oder Kartenname',
+  'command.lookup.year': 'Erscheinungsjahr, z. B. 2023',
+  'command.lookup.set': 'Set-Name',
+  'command.lookup.number': 'Kartennummer, z. B. 101',
+  'command.settings.auditLog':
+    'Identifizierungen, Fehler und erreichte Ratenlimits in einem Kanal posten',
+  'command.settings.auditLog.channel': 'Der Kanal, in dem gepostet wird',
+  'command.settings.auditLog.level': 'Was gepostet wird',
+  'command.settings.auditLog.disable': 'Nicht mehr im Audit-Log-Kanal posten',
+
+  // Identification results
+  'identify.single.title': '📸 Karte identifiziert!',
+  'identify.multiple.title': '📸 {count} Karten identifiziert!',
+  'identify.multiple.header': 'Auf dem Bild wurden mehrere Karten erkannt:',
+  'identify.batch.title.one': '📸 {count} Karte identifiziert!',
+  'identify.batch.title.other': '📸 {count} Karten identifiziert!',
+  'identify.batch.description': '{count} Bilder verarbeitet',
+  'identify.batch.failed': ' ({count} konnten nicht identifiziert werden)',
+  'identify.batch.cached': ' • {count} aus dem Cache',
+  'identify.batch.image': 'Bild {index} • {filename}',
+  'identify.batch.noCards': 'Keine Karten erkannt',
+  'identify.page.card': '📸 Karte {index} von {count}',
+  'identify.page.imageCard': '📸 Bild {image} • Karte {index} von {count}',
+  'identify.truncated': '…und {count} weitere',
+  'identify.noImage': 'Hänge ein Bild an oder gib einen Bildlink zum Identifizieren ein.',
+
+  // Card fields
+  'card.details': '**Kartendetails**',
+  'card.setInformation': '**Set-Informationen**',
+  'card.confidence': '**Konfidenz**',
+  'card.parallelInformation': '**Parallel-Informationen**',
+  'card.name': '**Name:** {value}',
+  'card.number': '**Kartennummer:** {value}',
+  'card.year': '**Jahr:** {value}',
+  'card.set': '**Set:** {value}',
+  'card.release': '**Release:** {value}',
+  'card.manufacturer': '**Hersteller:** {value}',
+  'card.parallel': '**Parallel:** {value}',
+  'card.numbered': '**Nummeriert:** /{value}',
+  'card.noDetails': 'Keine Kartendetails verfügbar',
+  'card.noSetInformation': 'Keine Set-Informationen verfügbar',
+
+  // Confidence levels
+  'confidence.High': 'Hoch',
+  'confidence.Medium': 'Mittel',
+  'confidence.Low': 'Niedrig',
+
+  // Footers
+  'footer.poweredBy': 'Bereitgestellt von CardSight AI',
+  'footer.cached': 'Bereitgestellt von CardSight AI • Ergebnis aus dem Cache',
+  'footer.processingTime': 'Bereitgestellt von CardSight AI • {seconds} s',
+  'footer.optOutHint': 'Reagiere mit {emoji}, um die automatische Erkennung abzulehnen',
+
+  // No detections
+  'noDetection.title': '❌ Keine Karten erkannt',
+  'noDetection.description':
+    'Auf dem Bild wurden keine Sammelkarten erkannt.\n\n' +
+    '**Tipps für bessere Ergebnisse:**\n' +
+    '• Achte darauf, dass die Karte gut sichtbar ist\n' +
+    '• Sorge für gute Beleuchtung\n' +
+    '• Vermeide unscharfe oder schräge Fotos\n' +
+    '• Versuche, die ganze Karte aufzunehmen',
+
+  // Errors
+  'error.title': '❌ Fehler',
+  'error.supportCode': 'Support-Code: {code}',
+  'error.requestId': 'Anfrage-ID: {id}',
+  'error.unknownCommand': 'Unbekannter Befehl.',
+  'error.commandFailed':
+    'Beim Ausführen dieses Befehls ist ein Fehler aufgetreten.\n' +
+    'Bitte versuche es später erneut oder wende dich an den Support, falls das Problem bleibt.',
+  'error.identificationFailed': 'Karte konnte nicht identifiziert werden',
+  'error.noSuccess': 'Kartenidentifikation fehlgeschlagen',
+  'error.authentication': 'Authentifizierung fehlgeschlagen. Bitte prüfe deinen API-Schlüssel.',
+  'error.rateLimited': 'Anfragelimit überschritten. Bitte versuche es später erneut.',
+  'error.imageTooLarge': 'Das Bild ist zu groß. Bitte verwende ein kleineres Bild.',
+  'error.serviceUnavailable': 'Der CardSight-Dienst ist vorübergehend nicht verfügbar.',
+  'error.serviceDegraded':
+    'Der CardSight-Dienst ist derzeit eingeschränkt. Bitte versuche es in ein paar Minuten erneut.',
+  'error.lookupFailed': 'Die Suche im Kartenkatalog ist fehlgeschlagen',
+  'error.unexpected': 'Ein unerwarteter Fehler ist aufgetreten',
+  'error.unsupportedType':
+    'Nicht unterstützter Dateityp. Bitte verwende JPEG, PNG, WebP, GIF, HEIC, AVIF oder TIFF.',
+  'error.fileTooLarge': 'Die Datei überschreitet das Limit von 25 MB.',
+  'error.processImage':
+    'Das Bild konnte nicht verarbeitet werden. Bitte versuche es mit einem anderen Bild.',
+  'error.invalidUrl': 'Dieser Link ist keine gültige http- oder https-Adresse.',
+  'error.urlBlocked': 'Von dieser Adresse können keine Bilder geladen werden.',
+  'error.downloadTimeout':
+    'Das Herunterladen des Bildes hat zu lange gedauert. Bitte versuche es erneut.',
+  'error.downloadFailed':
+    'Das Bild konnte nicht heruntergeladen werden. Prüfe den Link und versuche es erneut.',
+  'error.guildOnly': 'Dieser Befehl kann nur auf einem Server verwendet werden.',
+  'error.manageGuildRequired': 'Dafür benötigst du die Berechtigung „Server verwalten“.',
+  'error.manageChannelsRequired': 'Dafür benötigst du die Berechtigung „Kanäle verwalten“.',
+  'error.channelNotAllowed': 'Der Bot kann nur in diesen Kanälen verwendet werden: {channels}',
+  'error.noImagesInMessage': 'Diese Nachricht enthält keine Bilder zum Identifizieren.',
+  'error.componentExpired': 'Das ist abgelaufen. Bitte führe den Befehl erneut aus.',
+  'error.componentNotOwner':
+    'Nur die Person, die diesen Befehl ausgeführt hat, kann das verwenden.',
+  'error.componentFailed':
+    'Bei dieser Aktion ist ein Fehler aufgetreten.\nBitte versuche es später erneut oder wende dich an den Support, falls das Problem bestehen bleibt.',
+
+  // Service status
+  'degraded.title': '⚠️ Dienst eingeschränkt',
+  'degraded.description':
+    'CardSight AI hat gerade Probleme, daher sind Identifikationen pausiert.\n\n' +
+    'Das legt sich meist innerhalb weniger Minuten. Bitte versuche es gleich noch einmal.',
+  'queue.position': 'Du bist **#{position}** in der Warteschlange.',
+  'queue.eta': 'Voraussichtlicher Start: {time}',
+  'queueFull.title': '🚦 Zu viel los',
+  'queueFull.description':
+    'Gerade werden so viele Karten identifiziert, dass die Warteschlange voll ist.\n\n' +
+    'Bitte versuche es in ein bis zwei Minuten erneut.',
+  'restarting.title': '🔄 Neustart',
+  'restarting.description':
+    'Der Bot startet gerade neu und kann keine neuen Anfragen annehmen.\n\n' +
+    'Bitte versuche es in einer Minute erneut.',
+  'interrupted.title': '⚠️ Unterbrochen',
+  'interrupted.description':
+    'Der Bot musste leider neu starten, bevor deine Anfrage fertig war.\n\n' +
+    'Bitte führe den Befehl in einer Minute erneut aus.',
+  'cooldown.title': '⏳ Langsamer',
+  'cooldown.user': 'Du identifizierst Karten etwas zu schnell.',
+  'cooldown.guild': 'Auf diesem Server werden gerade sehr viele Karten identifiziert.',
+  'cooldown.global': 'Der Bot bearbeitet gerade sehr viele Identifikationen.',
+  'cooldown.retry': 'Du kannst es {time} erneut versuchen.',
+  'processing.title.one': '🔍 Karte wird identifiziert...',
+  'processing.title.other': '🔍 {count} Bilder werden identifiziert...',
+  'processing.description.one': 'Bitte warte, während wir deine Karte identifizieren.',
+  'processing.description.other': 'Bitte warte, während wir deine Karten identifizieren.',
+  'pager.previous': '◀ Zurück',
+  'pager.next': 'Weiter ▶',
+
+  // File validation
+  'invalidFile.title': '❌ Ungültiger Dateityp',
+  'invalidFile.description':
+    'Bitte lade eine gültige Bilddatei hoch.\n\n' +
+    '**Unterstützte Formate:**\n' +
+    '• JPEG/JPG\n' +
+    '• PNG\n' +
+    '• WebP\n' +
+    '• GIF\n' +
+    '• HEIC/HEIF und AVIF\n' +
+    '• TIFF',
+  'fileTooLarge.title': '❌ Datei zu groß',
+  'fileTooLarge.description':
+    'Die hochgeladene Datei ist zu groß.\n\n' +
+    '**Maximale Dateigröße:** 25 MB\n\n' +
+    'Bitte komprimiere oder verkleinere dein Bild und versuche es erneut.',
+
+  // Collections
+  'collection.title': '📚 Deine Sammlung',
+  'collection.empty':
+    'Deine Sammlung ist leer.\n\n' +
+    'Nutze `/collection add` oder den Button **Add to collection** bei einer Identifikation, um Karten zu speichern.',
+  'collection.footer.one': '{count} Karte • Sortiert nach {sort}',
+  'collection.footer.other': '{count} Karten • Sortiert nach {sort}',
+  'collection.sort.added': 'Hinzufügedatum',
+  'collection.sort.year': 'Jahr',
+  'collection.sort.set': 'Set',
+  'collection.sort.manufacturer': 'Hersteller',
+  'collection.added': '**Hinzugefügt**',
+  'collection.button.one': 'Zur Sammlung hinzufügen',
+  'collection.button.other': '{count} Karten zur Sammlung hinzufügen',
+  'collection.button.expired':
+    'Diese Schaltfläche ist abgelaufen. Bitte identifiziere die Karte erneut.',
+  'collection.added.title': '📚 Zu deiner Sammlung hinzugefügt',
+  'collection.alreadyCollected.title': '📚 Bereits gesammelt',
+  'collection.alreadyCollected.cards': 'Diese Karten sind bereits in deiner Sammlung.',
+  'collection.alreadyCollected.image':
+    'Die Karten auf diesem Bild sind bereits in deiner Sammlung.',
+  'collection.noDetections':
+    'Auf diesem Bild wurden keine Karten erkannt, daher wurde nichts hinzugefügt.',
+  'collection.notFound': 'Diese Karte ist nicht in deiner Sammlung.',
+  'collection.removed.title': '🗑️ Aus deiner Sammlung entfernt',
+
+  // Identification history
+  'history.title': '🕘 Dein Identifizierungsverlauf',
+  'history.guildTitle': '🕘 Identifizierungsverlauf des Servers',
+  'history.empty':
+    'Noch keine Identifizierungen.\n\n' +
+    'Verwende `/identify`, und deine Ergebnisse werden hier aufgelistet.',
+  'history.failed': 'Identifizierung fehlgeschlagen',
+  'history.noCards': 'Keine Karten erkannt',
+  'history.more': '+{count} weitere',
+  'history.footer.one': '{count} Identifizierung',
+  'history.footer.other': '{count} Identifizierungen',
+  'history.retention': 'Wird {days} Tage aufbewahrt',
+  'history.disabled': 'Der Identifizierungsverlauf ist für diesen Bot deaktiviert.',
+  'history.guildForbidden':
+    'Du benötigst die Berechtigung „Server verwalten“, um den Verlauf des Servers zu sehen.',
+  'history.notFound': 'Diese Identifizierung ist nicht in deinem Verlauf.',
+
+  // Catalog lookup
+  'lookup.title.one': '🔎 Katalogtreffer',
+  'lookup.title.other': '🔎 {count} Katalogtreffer',
+  'lookup.header': 'Karten, die zu deiner Suche passen:',
+  'lookup.page.card': '🔎 Treffer {index} von {count}',
+  'lookup.footer.partial': 'Die ersten {shown} von {total} Treffern • Grenze deine Suche ein',
+  'lookup.parallels': '**Parallels ({count})**',
+  'lookup.noResults.title': '🔍 Keine Karten gefunden',
+  'lookup.noResults.description':
+    'Keine Katalogkarte passt zu deiner Suche.\n\n' +
+    'Versuche es mit weniger Filtern oder wähle ein Set oder einen Namen aus den Vorschlägen.',
+  'lookup.emptyQuery':
+    'Gib mindestens einen Namen, ein Jahr, ein Set oder eine Nummer für die Suche ein.',
+
+  // Audit log
+  'audit.identification.title': '🔍 Kartenidentifizierung',
+  'audit.identificationFailed.title': '❌ Identifizierung fehlgeschlagen',
+  'audit.commandError.title': '💥 Befehlsfehler',
+  'audit.commandError.description':
+    'Der Befehl ist unerwartet fehlgeschlagen. Gib beim Melden den Support-Code an.',
+  'audit.rateLimited.title': '⏳ Limit erreicht',
+  'audit.actor': '{user} in {channel}',
+  'audit.command': '**Befehl**',
+  'audit.scope': '**Limit**',
+  'audit.scope.user': 'Pro Nutzer',
+  'audit.scope.guild': 'Pro Server',
+  'audit.scope.global': 'Gesamter Bot',
+  'audit.resets': '**Zurückgesetzt**',
+
+  // Server settings
+  'settings.title': '⚙️ Servereinstellungen',
+  'settings.results': '**Ergebnisse**',
+  'settings.results.private': 'Nur für die anfragende Person sichtbar',
+  'settings.results.public': 'Öffentlich',
+  'settings.minConfidence': '**Mindestkonfidenz**',
+  'settings.thumbnails': '**Vorschaubilder**',
+  'settings.thumbnails.shown': 'Angezeigt',
+  'settings.thumbnails.hidden': 'Ausgeblendet',
+  'settings.allowedChannels': '**Erlaubte Kanäle**',
+  'settings.allChannels': 'Alle Kanäle',
+  'settings.auditLog': '**Audit-Log**',
+  'settings.auditLog.off': 'Aus',
+  'settings.auditLog.level.errors': 'Nur Fehler',
+  'settings.auditLog.level.warnings': 'Fehler und Warnungen',
+  'settings.auditLog.level.all': 'Alles',
+  'settings.auditLog.conflict': 'Wähle einen Kanal oder deaktiviere das Audit-Log, nicht beides.',
+  'settings.auditLog.noChanges':
+    'Wähle einen Kanal oder eine Stufe, oder deaktiviere das Audit-Log.',
+  'settings.noChanges': 'Wähle mindestens eine Einstellung zum Ändern.',
+  'settings.reset.title': '⚙️ Einstellungen zurückgesetzt',
+  'settings.reset.description': 'Dieser Server verwendet jetzt die Standardeinstellungen.',
+
+  // Webhooks
+  'webhooks.disabled': 'Webhooks sind für diesen Bot deaktiviert.',
+  'webhooks.invalidUrl': 'Das ist keine gültige http(s)-URL.',
+  'webhooks.insecureUrl': 'Webhook-URLs müssen https verwenden.',
+  'webhooks.blockedAddress':
+    'Webhook-URLs dürfen nicht auf private oder reservierte Adressen zeigen.',
+  'webhooks.duplicate': 'Diese URL erhält die Identifizierungen dieses Servers bereits.',
+  'webhooks.limit': 'Dieser Server hat bereits {max} Webhooks. Entferne zuerst einen.',
+  'webhooks.added.title': '🔗 Webhook hinzugefügt',
+  'webhooks.added.description':
+    'Identifizierungen auf diesem Server werden an den Webhook `{id}` gesendet.\n\nSignaturgeheimnis: ||`{secret}`||\nDamit prüfst du den Header `X-CardSight-Signature`. Es wird nur jetzt angezeigt, also bewahre es sicher auf.',
+  'webhooks.removed.title': '🔗 Webhook entfernt',
+  'webhooks.removed.description': 'Webhook `{id}` wurde entfernt.',
+  'webhooks.notFound': 'Dieser Server hat keinen Webhook `{id}`.',
+  'webhooks.test.title': '✅ Test zugestellt',
+  'webhooks.test.delivered': 'Webhook `{id}` hat mit HTTP {status} geantwortet.',
+  'webhooks.test.failed': 'Die Testzustellung an Webhook `{id}` ist fehlgeschlagen: {error}',
+
+  // Auto-identify
+  'autoIdentify.threadName': 'Kartenidentifizierung',
+  'autoIdentify.enabled.title': '✅ Automatische Identifizierung aktiviert',
+  'autoIdentify.enabled.reply':
+    'In {channel} gepostete Bilder werden automatisch identifiziert (Ergebnisse als Antwort).',
+  'autoIdentify.enabled.thread':
+    'In {channel} gepostete Bilder werden automatisch identifiziert (Ergebnisse in einem Thread).',
+  'autoIdentify.disabled.title': '✅ Automatische Identifizierung deaktiviert',
+  'autoIdentify.disabled.description':
+    'In {channel} gepostete Bilder werden nicht mehr automatisch identifiziert.',
+  'autoIdentify.disabled.notEnabled':
+    'Die automatische Identifizierung war in {channel} nicht aktiviert.',
+  'autoIdentify.list.title': '📋 Kanäle mit automatischer Identifizierung',
+  'autoIdentify.list.reply': 'Antwort',
+  'autoIdentify.list.thread': 'Thread',
+  'autoIdentify.list.empty': 'Die automatische Identifizierung ist in keinem Kanal aktiviert.',
+  'autoIdentify.optedOut.title': '🚫 Abgemeldet',
+  'autoIdentify.optedOut.description':
+    'Deine Bilder werden auf diesem Server nicht mehr automatisch identifiziert.',
+  'autoIdentify.optedIn.title': '✅ Angemeldet',
+  'autoIdentify.optedIn.description':
+    'Deine Bilder in Kanälen mit automatischer Identifizierung werden wieder identifiziert.',
+
+  // Feedback
+  'feedback.button.wrong': 'Falsche Karte?',
+  'feedback.expired': 'Diese Schaltflächen sind abgelaufen. Bitte identifiziere die Karte erneut.',
+  'feedback.modal.title': 'Falsche Karte melden',
+  'feedback.field.year': 'Jahr',
+  'feedback.field.set': 'Set',
+  'feedback.field.name': 'Name',
+  'feedback.field.number': 'Nummer',
+  'feedback.field.parallel': 'Parallel (leer für die Basiskarte)',
+  'feedback.thanks.title': '👍 Danke!',
+  'feedback.thanks.description': 'Dein Feedback hilft, die Identifizierungen zu verbessern.',
+  'feedback.pick.prompt': 'Welche Karte wurde falsch identifiziert?',
+  'feedback.pick.placeholder': 'Karte auswählen',
+  'feedback.cardNotFound': 'Diese Karte wurde nicht gefunden.',
+  'feedback.corrected.title': '👎 Danke für die Korrektur!',
+  'feedback.corrected.description': 'Sie wird genutzt, um die Identifizierungen zu verbessern.',
+  'feedback.export.empty.title': '📝 Noch kein Feedback',
+  'feedback.export.empty.description': 'Hier hat noch niemand ein Ergebnis bewertet.',
+  'feedback.export.title': '📝 Feedback-Export',
+  'feedback.export.description': '{count} Bewertungen, davon {corrections} Korrekturen.',
+};
@@ -0,0 +1,367 @@
+/**
+ * English Messages
+ *
+ * The source catalog: every message key is defined here, and other
+ * languages fall back to these strings for keys they don't translate.
+ * Placeholders such as `{count}` are filled in by `t()`.
+ */
+
+export const en = {
+  // Command definitions
+  'command.identify.name': 'identify',
+  'command.identify.description': 'Identify trading cards from one or more images',
+  'command.identify.image': 'The card image to identify',
+  'command.identify.extraImage': 'Additional card image #{index}',
+  'command.identify.url': 'Link to a card image, e.g. from eBay or Imgur',
+  'command.identifyMessage.name': 'Identify card',
+  'command.settings.name': 'settings',
+  'command.settings.description': 'View and change how the bot behaves in this server',
+  'command.settings.view': 'Show the current settings',
+  'command.settings.set': 'Change one or more settings',
+  'command.settings.set.privateResults': 'Only show identification results to the person who asked',
+  'command.settings.set.minConfidence': 'Hide detections below this confidence',
+  'command.settings.set.minConfidence.low': 'Low (show everything)',
+  'command.settings.set.thumbnails': 'Show the identified image as a thumbnail',
+  'command.settings.allowChannel': 'Limit the bot to a channel (can be used for several channels)',
+  'command.settings.allowChannel.channel': 'The channel to allow',
+  'command.settings.disallowChannel': 'Remove a channel from the allowed channels',
+  'command.settings.disallowChannel.channel': 'The channel to remove',
+  'command.settings.reset': 'Restore the default settings',
+  'command.collection.name': 'collection',
+  'command.collection.description': 'Keep a personal collection of your cards',
+  'command.collection.add': 'Identify a card image and add it to your collection',
+  'command.collection.add.image': 'The card image to add',
+  'command.collection.list': 'List the cards in your collection',
+  'command.collection.list.sort': 'How to order the cards (defaults to date added)',
+  'command.collection.list.sort.added': 'Date added',
+  'command.collection.list.sort.year': 'Year',
+  'command.collection.list.sort.set': 'Set',
+  'command.collection.list.sort.manufacturer': 'Manufacturer',
+  'command.collection.show': 'Show a card from your collection',
+  'command.collection.show.card': 'The card to show',
+  'command.collection.remove': 'Remove a card from your collection',
+  'command.collection.remove.card': 'The card to remove',
+  'command.autoIdentify.name': 'autoidentify',
+  'command.autoIdentify.description': 'Automatically identify images posted in selected channels',
+  'command.autoIdentify.enable': 'Identify every image posted in a channel (moderators only)',
+  'command.autoIdentify.enable.channel': 'The channel to watch (defaults to this one)',
+  'command.autoIdentify.enable.mode': 'How to post results (defaults to reply)',
+  'command.autoIdentify.enable.mode.reply': 'Reply to the message',
+  'command.autoIdentify.enable.mode.thread': 'Start a thread',
+  'command.autoIdentify.disable': 'Stop identifying images in a channel (moderators only)',
+  'command.autoIdentify.disable.channel': 'The channel to stop watching (defaults to this one)',
+  'command.autoIdentify.list': 'List auto-identify channels (moderators only)',
+  'command.autoIdentify.optOut': 'Stop auto-identifying images you post',
+  'command.autoIdentify.optIn': 'Resume auto-identifying images you post',
+  'command.feedback.description': 'Export feedback on identification results',
+  'command.feedback.export': "Download this server's feedback and corrections",
+  'command.feedback.export.format': 'File format (default: CSV)',
+  'command.webhooks.description': 'Send identification events from this server to other services',
+  'command.webhooks.add': 'Send every identification to a URL as a signed JSON POST',
+  'command.webhooks.add.url': 'The https URL to deliver to',
+  'command.webhooks.remove': 'Stop sending identifications to a webhook',
+  'command.webhooks.remove.webhook': 'The webhook to remove',
+  'command.webhooks.test': 'Send a test event to a webhook',
+  'command.webhooks.test.webhook': 'The webhook to test',
+  'command.history.description': 'Look up your past identifications',
+  'command.history.list': 'List your recent identifications',
+  'command.history.list.server':
+    "List everyone's identifications in this server (Manage Server only)",
+  'command.history.show': 'Show the full result of a past identification',
+  'command.history.show.identification': 'The identification to show',
+  'command.lookup.name': 'lookup',
+  'command.lookup.description': 'Search the card catalog by player, year, set and number',
+  'command.lookup.cardName': 'Player or card name',
+  'command.lookup.year': 'Release year, e.g. 2023',
+  'command.lookup.set': 'Set name',
+  'command.lookup.number': 'Card number, e.g. 101',
+  'command.settings.auditLog': 'Post identifications, errors and rate-limit hits to a channel',
+  'command.settings.auditLog.channel': 'The channel to post to',
+  'command.settings.auditLog.level': 'What to post',
+  'command.settings.auditLog.disable': 'Stop posting to the audit-log channel',
+
+  // Identification results
+  'identify.single.title': '📸 Card Identified!',
+  'identify.multiple.title': '📸 {count} Cards Identified!',
+  'identify.multiple.header': 'Multiple cards detected in the image:',
+  'identify.batch.title.one': '📸 {count} Card Identified!',
+  'identify.batch.title.other': '📸 {count} Cards Identified!',
+  'identify.batch.description': 'Processed {count} images',
+  'identify.batch.failed': ' ({count} could not be identified)',
+  'identify.batch.cached': ' • {count} cached',
+  'identify.batch.image': 'Image {index} • {filename}',
+  'identify.batch.noCards': 'No cards detected',
+  'identify.page.card': '📸 Card {index} of {count}',
+  'identify.page.imageCard': '📸 Image {image} • Card {index} of {count}',
+  'identify.truncated': '…and {count} more',
+  'identify.noImage': 'Attach an image or enter an image link to identify.',
+
+  // Card fields
+  'card.details': '**Card Details**',
+  'card.setInformation': '**Set Information**',
+  'card.confidence': '**Confidence**',
+  'card.parallelInformation': '**Parallel Information**',
+  'card.name': '**Name:** {value}',
+  'card.number': '**Card Number:** {value}',
+  'card.year': '**Year:** {value}',
+  'card.set': '**Set:** {value}',
+  'card.release': '**Release:** {value}',
+  'card.manufacturer': '**Manufacturer:** {value}',
+  'card.parallel': '**Parallel:** {value}',
+  'card.numbered': '**Numbered:** /{value}',
+  'card.noDetails': 'No card details available',
+  'card.noSetInformation': 'No set information available',
+
+  // Confidence levels
+  'confidence.High': 'High',
+  'confidence.Medium': 'Medium',
+  'confidence.Low': 'Low',
+
+  // Footers
+  'footer.poweredBy': 'Powered by CardSight AI',
+  'footer.cached': 'Powered by CardSight AI • Cached result',
+  'footer.processingTime': 'Powered by CardSight AI • {seconds}s',
+  'footer.optOutHint': 'React with {emoji} to opt out of auto-identify',
+
+  // No detections
+  'noDetection.title': '❌ No Cards Detected',
+  'noDetection.description':
+    'No trading cards were detected in the image.\n\n' +
+    '**Tips for better results:**\n' +
+    '• Ensure the card is clearly visible\n' +
+    '• Use good lighting\n' +
+    '• Avoid blurry or angled photos\n' +
+    '• Try to capture the entire card',
+
+  // Errors
+  'error.title': '❌ Error',
+  'error.supportCode': 'Support code: {code}',
+  'error.requestId': 'Request ID: {id}',
+  'error.unknownCommand': 'Unknown command.',
+  'error.commandFailed':
+    'There was an error while executing this command.\n' +
+    'Please try again later or contact support if the issue persists.',
+  'error.identificationFailed': 'Failed to identify card',
+  'error.noSuccess': 'Card identification failed',
+  'error.authentication': 'Authentication failed. Please check your API key.',
+  'error.rateLimited': 'Rate limit exceeded. Please try again later.',
+  'error.imageTooLarge': 'Image is too large. Please use a smaller image.',
+  'error.serviceUnavailable': 'CardSight service is temporarily unavailable.',
+  'error.serviceDegraded':
+    'CardSight service is currently degraded. Please try again in a few minutes.',
+  'error.lookupFailed': 'Failed to search the card catalog',
+  'error.unexpected': 'An unexpected error occurred',
+  'error.unsupportedType':
+    'Unsupported file type. Please use JPEG, PNG, WebP, GIF, HEIC, AVIF or TIFF.',
+  'error.fileTooLarge': 'File is larger than the 25MB limit.',
+  'error.processImage': 'Failed to process the image. Please try again with a different image.',
+  'error.invalidUrl': 'That link is not a valid http or https address.',
+  'error.urlBlocked': "Images can't be downloaded from that address.",
+  'error.downloadTimeout': 'The image took too long to download. Please try again.',
+  'error.downloadFailed': "The image couldn't be downloaded. Check the link and try again.",
+  'error.guildOnly': 'This command can only be used in a server.',
+  'error.manageGuildRequired': 'You need the Manage Server permission to do that.',
+  'error.manageChannelsRequired': 'You need the Manage Channels permission to do that.',
+  'error.channelNotAllowed': 'The bot can only be used in these channels: {channels}',
+  'error.noImagesInMessage': 'This message does not contain any images to identify.',
+  'error.componentExpired': 'This has expired. Please run the command again.',
+  'error.componentNotOwner': 'Only the person who ran this command can use this.',
+  'error.componentFailed':
+    'There was an error while handling this action.\nPlease try again later or contact support if the issue persists.',
+
+  // Service status
+  'degraded.title': '⚠️ Service Degraded',
+  'degraded.description':
+    'CardSight AI is having trouble right now, so identifications are paused.\n\n' +
+    'This usually clears up within a few minutes. Please try again shortly.',
+  'queue.position': "You're **#{position}** in line.",
+  'queue.eta': 'Estimated start: {time}',
+  'queueFull.title': '🚦 Too Busy',
+  'queueFull.description':
+    'So many cards are being identified right now that the queue is full.\n\n' +
+    'Please try again in a minute or two.',
+  'restarting.title': '🔄 Restarting',
+  'restarting.description':
+    "The bot is restarting and can't take new requests right now.\n\n" +
+    'Please try again in a minute.',
+  'interrupted.title': '⚠️ Interrupted',
+  'interrupted.description':
+    'Sorry, the bot had to restart before your request finished.\n\n' +
+    'Please run the command again in a minute.',
+  'cooldown.title': '⏳ Slow Down',
+  'cooldown.user': "You're identifying cards a little too quickly.",
+  'cooldown.guild': 'This server is identifying a lot of cards right now.',
+  'cooldown.global': 'The bot is handling a lot of identifications right now.',
+  'cooldown.retry': 'You can try again {time}.',
+  'processing.title.one': '🔍 Identifying Card...',
+  'processing.title.other': '🔍 Identifying {count} Images...',
+  'processing.description.one': 'Please wait while we identify your card.',
+  'processing.description.other': 'Please wait while we identify your cards.',
+  'pager.previous': '◀ Previous',
+  'pager.next': 'Next ▶',
+
+  // File validation
+  'invalidFile.title': '❌ Invalid File Type',
+  'invalidFile.description':
+    'Please upload a valid image file.\n\n' +
+    '**Supported formats:**\n' +
+    '• JPEG/JPG\n' +
+    '• PNG\n' +
+    '• WebP\n' +
+    '• GIF\n' +
+    '• HEIC/HEIF and AVIF\n' +
+    '• TIFF',
+  'fileTooLarge.title': '❌ File Too Large',
+  'fileTooLarge.description':
+    'The uploaded file is too large.\n\n' +
+    '**Maximum file size:** 25MB\n\n' +
+    'Please compress or resize your image and try again.',
+
+  // Collections
+  'collection.title': '📚 Your Collection',
+  'collection.empty':
+    'Your collection is empty.\n\n' +
+    'Use `/collection add` or the **Add to collection** button on an identification to save cards.',
+  'collection.footer.one': '{count} card • Sorted by {sort}',
+  'collection.footer.other': '{count} cards • Sorted by {sort}',
+  'collection.sort.added': 'date added',
+  'collection.sort.year': 'year',
+  'collection.sort.set': 'set',
+  'collection.sort.manufacturer': 'manufacturer',
+  'collection.added': '**Added**',
+  'collection.button.one': 'Add to collection',
+  'collection.button.other': 'Add {count} cards to collection',
+  'collection.button.expired': 'This button has expired. Please identify the card again.',
+  'collection.added.title': '📚 Added to Your Collection',
+  'collection.alreadyCollected.title': '📚 Already Collected',
+  'collection.alreadyCollected.cards': 'These cards are already in your collection.',
+  'collection.alreadyCollected.image': 'The cards in that image are already in your collection.',
+  'collection.noDetections': 'No cards were detected in that image, so nothing was added.',
+  'collection.notFound': 'That card is not in your collection.',
+  'collection.removed.title': '🗑️ Removed From Your Collection',
+
+  // Identification history
+  'history.title': '🕘 Your Identification History',
+  'history.guildTitle': '🕘 Server Identification History',
+  'history.empty':
+    'No identifications yet.\n\n' + 'Use `/identify` and your results will be listed here.',
+  'history.failed': 'Identification failed',
+  'history.noCards': 'No cards detected',
+  'history.more': '+{count} more',
+  'history.footer.one': '{count} identification',
+  'history.footer.other': '{count} identifications',
+  'history.retention': 'Kept for {days} days',
+  'history.disabled': 'Identification history is turned off for this bot.',
+  'history.guildForbidden': "You need the Manage Server permission to see the server's history.",
+  'history.notFound': 'That identification is not in your history.',
+
+  // Catalog lookup
+  'lookup.title.one': '🔎 Catalog Match',
+  'lookup.title.other': '🔎 {count} Catalog Matches',
+  'lookup.header': 'Cards matching your search:',
+  'lookup.page.card': '🔎 Match {index} of {count}',
+  'lookup.footer.partial': 'Showing the first {shown} of {total} matches • Narrow your search',
+  'lookup.parallels': '**Parallels ({count})**',
+  'lookup.noResults.title': '🔍 No Cards Found',
+  'lookup.noResults.description':
+    'No catalog cards match your search.\n\n' +
+    'Try fewer filters, or pick a set or name from the suggestions.',
+  'lookup.emptyQuery': 'Enter at least a name, year, set or number to search for.',
+
+  // Audit log
+  'audit.identification.title': '🔍 Card Identification',
+  'audit.identificationFailed.title': '❌ Identification Failed',
+  'audit.commandError.title': '💥 Command Error',
+  'audit.commandError.description':
+    'The command failed unexpectedly. Quote the support code when reporting it.',
+  'audit.rateLimited.title': '⏳ Rate Limit Hit',
+  'audit.actor': '{user} in {channel}',
+  'audit.command': '**Command**',
+  'audit.scope': '**Limit**',
+  'audit.scope.user': 'Per user',
+  'audit.scope.guild': 'Per server',
+  'audit.scope.global': 'Bot-wide',
+  'audit.resets': '**Resets**',
+
+  // Server settings
+  'settings.title': '⚙️ Server Settings',
+  'settings.results': '**Results**',
+  'settings.results.private': 'Private to the person who asked',
+  'settings.results.public': 'Public',
+  'settings.minConfidence': '**Minimum Confidence**',
+  'settings.thumbnails': '**Thumbnails**',
+  'settings.thumbnails.shown': 'Shown',
+  'settings.thumbnails.hidden': 'Hidden',
+  'settings.allowedChannels': '**Allowed Channels**',
+  'settings.allChannels': 'All channels',
+  'settings.auditLog': '**Audit Log**',
+  'settings.auditLog.off': 'Off',
+  'settings.auditLog.level.errors': 'Errors only',
+  'settings.auditLog.level.warnings': 'Errors and warnings',
+  'settings.auditLog.level.all': 'Everything',
+  'settings.auditLog.conflict': 'Choose a channel or disable the audit log, not both.',
+  'settings.auditLog.noChanges': 'Choose a channel, a level, or disable the audit log.',
+  'settings.noChanges': 'Choose at least one setting to change.',
+  'settings.reset.title': '⚙️ Settings Reset',
+  'settings.reset.description': 'This server now uses the default settings.',
+
+  // Webhooks
+  'webhooks.disabled': 'Webhooks are turned off for this bot.',
+  'webhooks.invalidUrl': 'That is not a valid http(s) URL.',
+  'webhooks.insecureUrl': 'Webhook URLs must use https.',
+  'webhooks.blockedAddress': 'Webhook URLs cannot point to private or reserved addresses.',
+  'webhooks.duplicate': "That URL already receives this server's identifications.",
+  'webhooks.limit': 'This server already has {max} webhooks. Remove one first.',
+  'webhooks.added.title': '🔗 Webhook Added',
+  'webhooks.added.description':
+    'Identifications in this server will be sent to webhook `{id}`.\n\nSigning secret: ||`{secret}`||\nUse it to verify the `X-CardSight-Signature` header. It is only shown now, so store it somewhere safe.',
+  'webhooks.removed.title': '🔗 Webhook Removed',
+  'webhooks.removed.description': 'Webhook `{id}` was removed.',
+  'webhooks.notFound': 'This server has no webhook `{id}`.',
+  'webhooks.test.title': '✅ Test Delivered',
+  'webhooks.test.delivered': 'Webhook `{id}` responded with HTTP {status}.',
+  'webhooks.test.failed': 'Test delivery to webhook `{id}` failed: {error}',
+
+  // Auto-identify
+  'autoIdentify.threadName': 'Card identification',
+  'autoIdentify.enabled.title': '✅ Auto-Identify Enabled',
+  'autoIdentify.enabled.reply':
+    'Images posted in {channel} will be identified automatically (results as a reply).',
+  'autoIdentify.enabled.thread':
+    'Images posted in {channel} will be identified automatically (results in a thread).',
+  'autoIdentify.disabled.title': '✅ Auto-Identify Disabled',
+  'autoIdentify.disabled.description':
+    'Images posted in {channel} will no longer be identified automatically.',
+  'autoIdentify.disabled.notEnabled': 'Auto-identify was not enabled in {channel}.',
+  'autoIdentify.list.title': '📋 Auto-Identify Channels',
+  'autoIdentify.list.reply': 'reply',
+  'autoIdentify.list.thread': 'thread',
+  'autoIdentify.list.empty': 'Auto-identify is not enabled in any channel.',
+  'autoIdentify.optedOut.title': '🚫 Opted Out',
+  'autoIdentify.optedOut.description':
+    'Images you post will no longer be identified automatically in this server.',
+  'autoIdentify.optedIn.title': '✅ Opted In',
+  'autoIdentify.optedIn.description':
+    'Images you post in auto-identify channels will be identified again.',
+
+  // Feedback
+  'feedback.button.wrong': 'Wrong card?',
+  'feedback.expired': 'These buttons have expired. Please identify the card again.',
+  'feedback.modal.title': 'Report a wrong card',
+  'feedback.field.year': 'Year',
+  'feedback.field.set': 'Set',
+  'feedback.field.name': 'Name',
+  'feedback.field.number': 'Number',
+  'feedback.field.parallel': 'Parallel (leave empty for the base card)',
+  'feedback.thanks.title': '👍 Thanks!',
+  'feedback.thanks.description': 'Your feedback helps improve identifications.',
+  'feedback.pick.prompt': 'Which card was identified wrong?',
+  'feedback.pick.placeholder': 'Choose a card',
+  'feedback.cardNotFound': 'That card could not be found.',
+  'feedback.corrected.title': '👎 Thanks for the correction!',
+  'feedback.corrected.description': 'It will be used to improve identifications.',
+  'feedback.export.empty.title': '📝 No Feedback Yet',
+  'feedback.export.empty.description': 'Nobody has rated a result here yet.',
+  'feedback.export.title': '📝 Feedback Export',
+  'feedback.export.description': '{count} ratings, {corrections} of them corrections.',
+} satisfies Record<string, string>;
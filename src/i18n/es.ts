@@ -0,0 +1,373 @@
+/**
+ * Spanish Messages
+ */
+
+import type { Catalog } from './index.js';
+
+export const es: Catalog = {
+  // Command definitions
+  'command.identify.name': 'identificar',
+  'command.identify.description': 'Identifica cartas coleccionables a partir de una o más imágenes',
+  'command.identify.image': 'La imagen de la carta a identificar',
+  'command.identify.extraImage': 'Imagen adicional de carta n.º {index}',
+  'command.identify.url': 'Enlace a una imagen de carta, p. ej. de eBay o Imgur',
+  'command.identifyMessage.name': 'Identificar carta',
+  'command.settings.name': 'ajustes',
+  'command.settings.description': 'Consulta y cambia cómo se comporta el bot en este servidor',
+  'command.settings.view': 'Muestra la configuración actual',
+  'command.settings.set': 'Cambia uno o más ajustes',
+  'command.settings.set.privateResults': 'Muestra los resultados solo a quien los pidió',
+  'command.settings.set.minConfidence': 'Oculta las detecciones por debajo de esta confianza',
+  'command.settings.set.minConfidence.low': 'Baja (mostrar todo)',
+  'command.settings.set.thumbnails': 'Muestra la imagen identificada como miniatura',
+  'command.settings.allowChannel': 'Limita el bot a un canal (se puede usar para varios canales)',
+  'command.settings.allowChannel.channel': 'El canal que se permitirá',
+  'command.settings.disallowChannel': 'Quita un canal de los canales permitidos',
+  'command.settings.disallowChannel.channel': 'El canal que se quitará',
+  'command.settings.reset': 'Restablece la configuración predeterminada',
+  'command.collection.name': 'colección',
+  'command.collection.description': 'Guarda una colección personal de tus cartas',
+  'command.collection.add': 'Identifica una imagen de carta y añádela a tu colección',
+  'command.collection.add.image': 'La imagen de la carta que se añadirá',
+  'command.collection.list': 'Muestra las cartas de tu colección',
+  'command.collection.list.sort': 'Cómo ordenar las cartas (por defecto, fecha de incorporación)',
+  'command.collection.list.sort.added': 'Fecha de incorporación',
+  'command.collection.list.sort.year': 'Año',
+  'command.collection.list.sort.set': 'Set',
+  'command.collection.list.sort.manufacturer': 'Fabricante',
+  'command.collection.show': 'Muestra una carta de tu colección',
+  'command.collection.show.card': 'La carta que se mostrará',
+  'command.collection.remove': 'Quita una carta de tu colección',
+  'command.collection.remove.card': 'La carta que se quitará',
+  'command.autoIdentify.name': 'autoidentificar',
+  'command.autoIdentify.description':
+    'Identifica automáticamente las imágenes publicadas en los canales elegidos',
+  'command.autoIdentify.enable': 'Identifica cada imagen publicada en un canal (solo moderadores)',
+  'command.autoIdentify.enable.channel': 'El canal que se vigilará (por defecto, este)',
+  'command.autoIdentify.enable.mode': 'Cómo publicar los resultados (por defecto, respuesta)',
+  'command.autoIdentify.enable.mode.reply': 'Responder al mensaje',
+  'command.autoIdentify.enable.mode.thread': 'Abrir un hilo',
+  'command.autoIdentify.disable': 'Deja de identificar imágenes en un canal (solo moderadores)',
+  'command.autoIdentify.disable.channel': 'El canal que se dejará de vigilar (por defecto, este)',
+  'command.autoIdentify.list':
+    'Muestra los canales con identificación automática (solo moderadores)',
+  'command.autoIdentify.optOut': 'Deja de identificar automáticamente las imágenes que publicas',
+  'command.autoIdentify.optIn': 'Vuelve a identificar automáticamente las imágenes que publicas',
+  'command.feedback.description': 'Exporta las valoraciones de los resultados de identificación',
+  'command.feedback.export': 'Descarga las valoraciones y correcciones de este servidor',
+  'command.feedback.export.format': 'Formato de archivo (por defecto: CSV)',
+  'command.webhooks.description':
+    'Envía los eventos de identificación de este servidor a otros servicios',
+  'command.webhooks.add': 'Envía cada identificación a una URL como un POST JSON firmado',
+  'command.webhooks.add.url': 'La URL https de destino',
+  'command.webhooks.remove': 'Deja de enviar identificaciones a un webhook',
+  'command.webhooks.remove.webhook': 'El webhook que se eliminará',
+  'command.webhooks.test': 'Envía un evento de prueba a un webhook',
+  'command.webhooks.test.webhook': 'El webhook que se probará',
+  'command.history.description': 'Consulta tus identificaciones anteriores',
+  'command.history.list': 'Muestra tus identificaciones recientes',
+  'command.history.list.server':
+    'Muestra las identificaciones de todos en este servidor (solo Gestionar servidor)',
+  'command.history.show': 'Muestra el resultado completo de una identificación anterior',
+  'command.history.show.identification': 'La identificación que se mostrará',
+  'command.lookup.name': 'buscar',
+  'command.lookup.description': 'Busca en el catálogo de cartas por jugador, año, set y número',
+  'command.lookup.cardName': 'Nombre del jugador o de la carta',
+  'command.lookup.year': 'Año de lanzamiento, p. ej. 2023',
+  'command.lookup.set': 'Nombre del set',
+  'command.lookup.number': 'Número de carta, p. ej. 101',
+  'command.settings.auditLog': 'Publica identificaciones, errores y límites alcanzados en un canal',
+  'command.settings.auditLog.channel': 'El canal en el que publicar',
+  'command.settings.auditLog.level': 'Qué publicar',
+  'command.settings.auditLog.disable': 'Deja de publicar en el canal de registro de auditoría',
+
+  // Identification results
+  'identify.single.title': '📸 ¡Carta identificada!',
+  'identify.multiple.title': '📸 ¡{count} cartas identificadas!',
+  'identify.multiple.header': 'Se detectaron varias cartas en la imagen:',
+  'identify.batch.title.one': '📸 ¡{count} carta identificada!',
+  'identify.batch.title.other': '📸 ¡{count} cartas identificadas!',
+  'identify.batch.description': 'Se procesaron {count} imágenes',
+  'identify.batch.failed': ' ({count} no se pudieron identificar)',
+  'identify.batch.cached': ' • {count} en caché',
+  'identify.batch.image': 'Imagen {index} • {filename}',
+  'identify.batch.noCards': 'No se detectaron cartas',
+  'identify.page.card': '📸 Carta {index} de {count}',
+  'identify.page.imageCard': '📸 Imagen {image} • Carta {index} de {count}',
+  'identify.truncated': '…y {count} más',
+  'identify.noImage': 'Adjunta una imagen o introduce un enlace a una imagen para identificarla.',
+
+  // Card fields
+  'card.details': '**Detalles de la carta**',
+  'card.setInformation': '**Información del set**',
+  'card.confidence': '**Confianza**',
+  'card.parallelInformation': '**Información del paralelo**',
+  'card.name': '**Nombre:** {value}',
+  'card.number': '**Número de carta:** {value}',
+  'card.year': '**Año:** {value}',
+  'card.set': '**Set:** {value}',
+  'card.release': '**Lanzamiento:** {value}',
+  'card.manufacturer': '**Fabricante:** {value}',
+  'card.parallel': '**Paralelo:** {value}',
+  'card.numbered': '**Numerada:** /{value}',
+  'card.noDetails': 'No hay detalles de la carta disponibles',
+  'card.noSetInformation': 'No hay información del set disponible',
+
+  // Confidence levels
+  'confidence.High': 'Alta',
+  'confidence.Medium': 'Media',
+  'confidence.Low': 'Baja',
+
+  // Footers
+  'footer.poweredBy': 'Con la tecnología de CardSight AI',
+  'footer.cached': 'Con la tecnología de CardSight AI • Resultado en caché',
+  'footer.processingTime': 'Con la tecnología de CardSight AI • {seconds} s',
+  'footer.optOutHint': 'Reacciona con {emoji} para no usar la identificación automática',
+
+  // No detections
+  'noDetection.title': '❌ No se detectaron cartas',
+  'noDetection.description':
+    'No se detectaron cartas coleccionables en la imagen.\n\n' +
+    '**Consejos para mejores resultados:**\n' +
+    '• Asegúrate de que la carta se vea con claridad\n' +
+    '• Usa buena iluminación\n' +
+    '• Evita fotos borrosas o inclinadas\n' +
+    '• Intenta capturar la carta completa',
+
+  // Errors
+  'error.title': '❌ Error',
+  'error.supportCode': 'Código de soporte: {code}',
+  'error.requestId': 'ID de solicitud: {id}',
+  'error.unknownCommand': 'Comando desconocido.',
+  'error.commandFailed':
+    'Se produjo un error al ejecutar este comando.\n' +
+    'Inténtalo de nuevo más tarde o contacta con soporte si el problema continúa.',
+  'error.identificationFailed': 'No se pudo identificar la carta',
+  'error.noSuccess': 'La identificación de la carta falló',
+  'error.authentication': 'Error de autenticación. Revisa tu clave de API.',
+  'error.rateLimited': 'Se superó el límite de solicitudes. Inténtalo de nuevo más tarde.',
+  'error.imageTooLarge': 'La imagen es demasiado grande. Usa una imagen más pequeña.',
+  'error.serviceUnavailable': 'El servicio de CardSight no está disponible temporalmente.',
+  'error.serviceDegraded':
+    'El servicio de CardSight funciona con problemas. Inténtalo de nuevo en unos minutos.',
+  'error.lookupFailed': 'No se pudo buscar en el catálogo de cartas',
+  'error.unexpected': 'Se produjo un error inesperado',
+  'error.unsupportedType':
+    'Tipo de archivo no compatible. Usa JPEG, PNG, WebP, GIF, HEIC, AVIF o TIFF.',
+  'error.fileTooLarge': 'El archivo supera el límite de 25 MB.',
+  'error.processImage': 'No se pudo procesar la imagen. Inténtalo de nuevo con otra imagen.',
+  'error.invalidUrl': 'Ese enlace no es una dirección http o https válida.',
+  'error.urlBlocked': 'No se pueden descargar imágenes desde esa dirección.',
+  'error.downloadTimeout': 'La imagen tardó demasiado en descargarse. Inténtalo de nuevo.',
+  'error.downloadFailed': 'No se pudo descargar la imagen. Revisa el enlace e inténtalo de nuevo.',
+  'error.guildOnly': 'Este comando solo se puede usar en un servidor.',
+  'error.manageGuildRequired': 'Necesitas el permiso Gestionar servidor para hacer eso.',
+  'error.manageChannelsRequired': 'Necesitas el permiso Gestionar canales para hacer eso.',
+  'error.channelNotAllowed': 'El bot solo se puede usar en estos canales: {channels}',
+  'error.noImagesInMessage': 'Este mensaje no contiene imágenes para identificar.',
+  'error.componentExpired': 'Esto ha caducado. Vuelve a ejecutar el comando.',
+  'error.componentNotOwner': 'Solo quien ejecutó este comando puede usar esto.',
+  'error.componentFailed':
+    'Se produjo un error al procesar esta acción.\nInténtalo de nuevo más tarde o contacta con soporte si el problema continúa.',
+
+  // Service status
+  'degraded.title': '⚠️ Servicio degradado',
+  'degraded.description':
+    'CardSight AI tiene problemas en este momento, así que las identificaciones están en pausa.\n\n' +
+    'Normalmente se resuelve en pocos minutos. Inténtalo de nuevo en breve.',
+  'queue.position': 'Estás en la posición **#{position}** de la cola.',
+  'queue.eta': 'Inicio estimado: {time}',
+  'queueFull.title': '🚦 Demasiada demanda',
+  'queueFull.description':
+    'Se están identificando tantas cartas ahora mismo que la cola está llena.\n\n' +
+    'Inténtalo de nuevo en uno o dos minutos.',
+  'restarting.title': '🔄 Reiniciando',
+  'restarting.description':
+    'El bot se está reiniciando y no puede aceptar nuevas solicitudes ahora mismo.\n\n' +
+    'Inténtalo de nuevo en un minuto.',
+  'interrupted.title': '⚠️ Interrumpido',
+  'interrupted.description':
+    'Lo sentimos, el bot tuvo que reiniciarse antes de terminar tu solicitud.\n\n' +
+    'Vuelve a ejecutar el comando en un minuto.',
+  'cooldown.title': '⏳ Más despacio',
+  'cooldown.user': 'Estás identificando cartas demasiado rápido.',
+  'cooldown.guild': 'Este servidor está identificando muchas cartas en este momento.',
+  'cooldown.global': 'El bot está gestionando muchas identificaciones en este momento.',
+  'cooldown.retry': 'Puedes volver a intentarlo {time}.',
+  'processing.title.one': '🔍 Identificando carta...',
+  'processing.title.other': '🔍 Identificando {count} imágenes...',
+  'processing.description.one': 'Espera mientras identificamos tu carta.',
+  'processing.description.other': 'Espera mientras identificamos tus cartas.',
+  'pager.previous': '◀ Anterior',
+  'pager.next': 'Siguiente ▶',
+
+  // File validation
+  'invalidFile.title': '❌ Tipo de archivo no válido',
+  'invalidFile.description':
+    'Sube un archivo de imagen válido.\n\n' +
+    '**Formatos compatibles:**\n' +
+    '• JPEG/JPG\n' +
+    '• PNG\n' +
+    '• WebP\n' +
+    '• GIF\n' +
+    '• HEIC/HEIF y AVIF\n' +
+    '• TIFF',
+  'fileTooLarge.title': '❌ Archivo demasiado grande',
+  'fileTooLarge.description':
+    'El archivo subido es demasiado grande.\n\n' +
+    '**Tamaño máximo:** 25 MB\n\n' +
+    'Comprime o reduce la imagen e inténtalo de nuevo.',
+
+  // Collections
+  'collection.title': '📚 Tu colección',
+  'collection.empty':
+    'Tu colección está vacía.\n\n' +
+    'Usa `/collection add` o el botón **Add to collection** de una identificación para guardar cartas.',
+  'collection.footer.one': '{count} carta • Ordenada por {sort}',
+  'collection.footer.other': '{count} cartas • Ordenadas por {sort}',
+  'collection.sort.added': 'fecha de incorporación',
+  'collection.sort.year': 'año',
+  'collection.sort.set': 'set',
+  'collection.sort.manufacturer': 'fabricante',
+  'collection.added': '**Añadida**',
+  'collection.button.one': 'Añadir a la colección',
+  'collection.button.other': 'Añadir {count} cartas a la colección',
+  'collection.button.expired': 'Este botón ha caducado. Vuelve a identificar la carta.',
+  'collection.added.title': '📚 Añadido a tu colección',
+  'collection.alreadyCollected.title': '📚 Ya en tu colección',
+  'collection.alreadyCollected.cards': 'Estas cartas ya están en tu colección.',
+  'collection.alreadyCollected.image': 'Las cartas de esa imagen ya están en tu colección.',
+  'collection.noDetections': 'No se detectaron cartas en esa imagen, así que no se añadió nada.',
+  'collection.notFound': 'Esa carta no está en tu colección.',
+  'collection.removed.title': '🗑️ Quitado de tu colección',
+
+  // Identification history
+  'history.title': '🕘 Tu historial de identificaciones',
+  'history.guildTitle': '🕘 Historial de identificaciones del servidor',
+  'history.empty':
+    'Aún no hay identificaciones.\n\n' + 'Usa `/identify` y tus resultados aparecerán aquí.',
+  'history.failed': 'La identificación falló',
+  'history.noCards': 'No se detectaron cartas',
+  'history.more': '+{count} más',
+  'history.footer.one': '{count} identificación',
+  'history.footer.other': '{count} identificaciones',
+  'history.retention': 'Se conservan {days} días',
+  'history.disabled': 'El historial de identificaciones está desactivado en este bot.',
+  'history.guildForbidden':
+    'Necesitas el permiso Gestionar servidor para ver el historial del servidor.',
+  'history.notFound': 'Esa identificación no está en tu historial.',
+
+  // Catalog lookup
+  'lookup.title.one': '🔎 Coincidencia en el catálogo',
+  'lookup.title.other': '🔎 {count} coincidencias en el catálogo',
+  'lookup.header': 'Cartas que coinciden con tu búsqueda:',
+  'lookup.page.card': '🔎 Coincidencia {index} de {count}',
+  'lookup.footer.partial':
+    'Se muestran las primeras {shown} de {total} coincidencias • Afina tu búsqueda',
+  'lookup.parallels': '**Paralelas ({count})**',
+  'lookup.noResults.title': '🔍 No se encontraron cartas',
+  'lookup.noResults.description':
+    'Ninguna carta del catálogo coincide con tu búsqueda.\n\n' +
+    'Prueba con menos filtros o elige un set o nombre de las sugerencias.',
+  'lookup.emptyQuery': 'Introduce al menos un nombre, año, set o número para buscar.',
+
+  // Audit log
+  'audit.identification.title': '🔍 Identificación de carta',
+  'audit.identificationFailed.title': '❌ Identificación fallida',
+  'audit.commandError.title': '💥 Error de comando',
+  'audit.commandError.description':
+    'El comando falló de forma inesperada. Indica el código de soporte al informar del problema.',
+  'audit.rateLimited.title': '⏳ Límite de uso alcanzado',
+  'audit.actor': '{user} en {channel}',
+  'audit.command': '**Comando**',
+  'audit.scope': '**Límite**',
+  'audit.scope.user': 'Por usuario',
+  'audit.scope.guild': 'Por servidor',
+  'audit.scope.global': 'Todo el bot',
+  'audit.resets': '**Se restablece**',
+
+  // Server settings
+  'settings.title': '⚙️ Ajustes del servidor',
+  'settings.results': '**Resultados**',
+  'settings.results.private': 'Privados para quien preguntó',
+  'settings.results.public': 'Públicos',
+  'settings.minConfidence': '**Confianza mínima**',
+  'settings.thumbnails': '**Miniaturas**',
+  'settings.thumbnails.shown': 'Visibles',
+  'settings.thumbnails.hidden': 'Ocultas',
+  'settings.allowedChannels': '**Canales permitidos**',
+  'settings.allChannels': 'Todos los canales',
+  'settings.auditLog': '**Registro de auditoría**',
+  'settings.auditLog.off': 'Desactivado',
+  'settings.auditLog.level.errors': 'Solo errores',
+  'settings.auditLog.level.warnings': 'Errores y advertencias',
+  'settings.auditLog.level.all': 'Todo',
+  'settings.auditLog.conflict':
+    'Elige un canal o desactiva el registro de auditoría, pero no ambas cosas.',
+  'settings.auditLog.noChanges': 'Elige un canal, un nivel o desactiva el registro de auditoría.',
+  'settings.noChanges': 'Elige al menos un ajuste para cambiar.',
+  'settings.reset.title': '⚙️ Ajustes restablecidos',
+  'settings.reset.description': 'Este servidor usa ahora la configuración predeterminada.',
+
+  // Webhooks
+  'webhooks.disabled': 'Los webhooks están desactivados en este bot.',
+  'webhooks.invalidUrl': 'Esa no es una URL http(s) válida.',
+  'webhooks.insecureUrl': 'Las URL de webhook deben usar https.',
+  'webhooks.blockedAddress':
+    'Las URL de webhook no pueden apuntar a direcciones privadas o reservadas.',
+  'webhooks.duplicate': 'Esa URL ya recibe las identificaciones de este servidor.',
+  'webhooks.limit': 'Este servidor ya tiene {max} webhooks. Elimina uno primero.',
+  'webhooks.added.title': '🔗 Webhook añadido',
+  'webhooks.added.description':
+    'Las identificaciones de este servidor se enviarán al webhook `{id}`.\n\nSecreto de firma: ||`{secret}`||\nÚsalo para verificar el encabezado `X-CardSight-Signature`. Solo se muestra ahora, así que guárdalo en un lugar seguro.',
+  'webhooks.removed.title': '🔗 Webhook eliminado',
+  'webhooks.removed.description': 'Se eliminó el webhook `{id}`.',
+  'webhooks.notFound': 'Este servidor no tiene ningún webhook `{id}`.',
+  'webhooks.test.title': '✅ Prueba entregada',
+  'webhooks.test.delivered': 'El webhook `{id}` respondió con HTTP {status}.',
+  'webhooks.test.failed': 'La entrega de prueba al webhook `{id}` falló: {error}',
+
+  // Auto-identify
+  'autoIdentify.threadName': 'Identificación de cartas',
+  'autoIdentify.enabled.title': '✅ Identificación automática activada',
+  'autoIdentify.enabled.reply':
+    'Las imágenes publicadas en {channel} se identificarán automáticamente (resultados como respuesta).',
+  'autoIdentify.enabled.thread':
+    'Las imágenes publicadas en {channel} se identificarán automáticamente (resultados en un hilo).',
+  'autoIdentify.disabled.title': '✅ Identificación automática desactivada',
+  'autoIdentify.disabled.description':
+    'Las imágenes publicadas en {channel} ya no se identificarán automáticamente.',
+  'autoIdentify.disabled.notEnabled':
+    'La identificación automática no estaba activada en {channel}.',
+  'autoIdentify.list.title': '📋 Canales con identificación automática',
+  'autoIdentify.list.reply': 'respuesta',
+  'autoIdentify.list.thread': 'hilo',
+  'autoIdentify.list.empty': 'La identificación automática no está activada en ningún canal.',
+  'autoIdentify.optedOut.title': '🚫 Desactivado para ti',
+  'autoIdentify.optedOut.description':
+    'Las imágenes que publiques ya no se identificarán automáticamente en este servidor.',
+  'autoIdentify.optedIn.title': '✅ Activado para ti',
+  'autoIdentify.optedIn.description':
+    'Las imágenes que publiques en canales con identificación automática se volverán a identificar.',
+
+  // Feedback
+  'feedback.button.wrong': '¿Carta incorrecta?',
+  'feedback.expired': 'Estos botones han caducado. Vuelve a identificar la carta.',
+  'feedback.modal.title': 'Informar de una carta incorrecta',
+  'feedback.field.year': 'Año',
+  'feedback.field.set': 'Set',
+  'feedback.field.name': 'Nombre',
+  'feedback.field.number': 'Número',
+  'feedback.field.parallel': 'Paralela (vacío para la carta base)',
+  'feedback.thanks.title': '👍 ¡Gracias!',
+  'feedback.thanks.description': 'Tu valoración ayuda a mejorar las identificaciones.',
+  'feedback.pick.prompt': '¿Qué carta se identificó mal?',
+  'feedback.pick.placeholder': 'Elige una carta',
+  'feedback.cardNotFound': 'No se encontró esa carta.',
+  'feedback.corrected.title': '👎 ¡Gracias por la corrección!',
+  'feedback.corrected.description': 'Se usará para mejorar las identificaciones.',
+  'feedback.export.empty.title': '📝 Aún no hay valoraciones',
+  'feedback.export.empty.description': 'Nadie ha valorado todavía un resultado aquí.',
+  'feedback.export.title': '📝 Exportación de valoraciones',
+  'feedback.export.description': '{count} valoraciones, {corrections} de ellas correcciones.',
+};
@@ -0,0 +1,104 @@
+/**
+ * Translations
+ *
+ * Looks up user-facing messages in the language of an interaction, falling
+ * back to English for unsupported languages and untranslated messages.
+ */
+
+import type { LocalizationMap } from 'discord.js';
+import { Locale as DiscordLocale } from 'discord.js';
+import { de } from './de.js';
+import { en } from './en.js';
+import { es } from './es.js';
+import { ja } from './ja.js';
+
+/**
+ * Key of a message in the English catalog
+ */
+export type MessageKey = keyof typeof en;
+
+/**
+ * A translation catalog; missing keys fall back to English
+ */
+export type Catalog = Partial<Record<MessageKey, string>>;
+
+/**
+ * Languages the bot has translations for
+ */
+export type SupportedLocale = 'en' | 'es' | 'ja' | 'de';
+
+export const DEFAULT_LOCALE: SupportedLocale = 'en';
+
+/**
+ * Catalogs by language
+ */
+export const catalogs: Record<SupportedLocale, Catalog> = { en, es, ja, de };
+
+/**
+ * Discord locales that use each language, for command localizations
+ */
+const DISCORD_LOCALES: Record<Exclude<SupportedLocale, 'en'>, DiscordLocale[]> = {
+  es: [DiscordLocale.SpanishES, DiscordLocale.SpanishLATAM],
+  ja: [DiscordLocale.Japanese],
+  de: [DiscordLocale.German],
+};
+
+/**
+ * Maps a Discord locale such as `es-ES` to a supported language, if any
+ */
+function toSupportedLocale(locale: string | null | undefined): SupportedLocale | undefined {
+  const language = locale?.split('-')[0];
+  return language && language in catalogs ? (language as SupportedLocale) : undefined;
+}
+
+/**
+ * Picks the language for an interaction: the user's client language, then
+ * the guild's preferred language, then English
+ */
+export function resolveLocale(source: {
+  locale?: string | null;
+  guildLocale?: string | null;
+}): SupportedLocale {
+  return (
+    toSupportedLocale(source.locale) ?? toSupportedLocale(source.guildLocale) ?? DEFAULT_LOCALE
+  );
+}
+
+/**
+ * Translates a message, filling in `{placeholder}` values
+ *
+ * @param locale - The language to translate into
+ * @param key - The message key
+ * @param params - Values for the message's placeholders
+ */
+export function t(
+  locale: SupportedLocale,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): string {
+  const template = catalogs[locale][key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Builds Discord name or description localizations for a command definition
+ *
+ * Languages without a translation for the key are left out so Discord shows English.
+ */
+export function localizations(
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): LocalizationMap {
+  const map: LocalizationMap = {};
+  for (const [locale, discordLocales] of Object.entries(DISCORD_LOCALES)) {
+    if (catalogs[locale as SupportedLocale][key] === undefined) {
+      continue;
+    }
+    for (const discordLocale of discordLocales) {
+      map[discordLocale] = t(locale as SupportedLocale, key, params);
+    }
+  }
+  return map;
+}
@@ -0,0 +1,365 @@
+/**
+ * Japanese Messages
+ */
+
+import type { Catalog } from './index.js';
+
+export const ja: Catalog = {
+  // Command definitions
+  'command.identify.name': '識別',
+  'command.identify.description': '1枚以上の画像からトレーディングカードを識別します',
+  'command.identify.image': '識別するカードの画像',
+  'command.identify.extraImage': '追加のカード画像 #{index}',
+  'command.identify.url': 'カード画像へのリンク（eBay や Imgur など）',
+  'command.identifyMessage.name': 'カードを識別',
+  'command.settings.name': '設定',
+  'command.settings.description': 'このサーバーでのボットの動作を確認・変更します',
+  'command.settings.view': '現在の設定を表示します',
+  'command.settings.set': '1つ以上の設定を変更します',
+  'command.settings.set.privateResults': '識別結果をリクエストした人だけに表示します',
+  'command.settings.set.minConfidence': 'この信頼度未満の検出結果を非表示にします',
+  'command.settings.set.minConfidence.low': '低（すべて表示）',
+  'command.settings.set.thumbnails': '識別した画像をサムネイルとして表示します',
+  'command.settings.allowChannel': 'ボットを特定のチャンネルに限定します（複数指定可）',
+  'command.settings.allowChannel.channel': '許可するチャンネル',
+  'command.settings.disallowChannel': '許可チャンネルからチャンネルを外します',
+  'command.settings.disallowChannel.channel': '外すチャンネル',
+  'command.settings.reset': '設定を初期状態に戻します',
+  'command.collection.name': 'コレクション',
+  'command.collection.description': '自分のカードコレクションを管理します',
+  'command.collection.add': 'カード画像を識別してコレクションに追加します',
+  'command.collection.add.image': '追加するカード画像',
+  'command.collection.list': 'コレクション内のカードを一覧表示します',
+  'command.collection.list.sort': 'カードの並び順（既定は追加日）',
+  'command.collection.list.sort.added': '追加日',
+  'command.collection.list.sort.year': '年',
+  'command.collection.list.sort.set': 'セット',
+  'command.collection.list.sort.manufacturer': 'メーカー',
+  'command.collection.show': 'コレクションのカードを表示します',
+  'command.collection.show.card': '表示するカード',
+  'command.collection.remove': 'コレクションからカードを削除します',
+  'command.collection.remove.card': '削除するカード',
+  'command.autoIdentify.name': '自動識別',
+  'command.autoIdentify.description': '選んだチャンネルに投稿された画像を自動で識別します',
+  'command.autoIdentify.enable':
+    'チャンネルに投稿されたすべての画像を識別します（モデレーターのみ）',
+  'command.autoIdentify.enable.channel': '監視するチャンネル（既定はこのチャンネル）',
+  'command.autoIdentify.enable.mode': '結果の投稿方法（既定は返信）',
+  'command.autoIdentify.enable.mode.reply': 'メッセージに返信',
+  'command.autoIdentify.enable.mode.thread': 'スレッドを作成',
+  'command.autoIdentify.disable': 'チャンネルでの画像識別を停止します（モデレーターのみ）',
+  'command.autoIdentify.disable.channel': '監視を止めるチャンネル（既定はこのチャンネル）',
+  'command.autoIdentify.list': '自動識別チャンネルを一覧表示します（モデレーターのみ）',
+  'command.autoIdentify.optOut': '自分が投稿した画像の自動識別を停止します',
+  'command.autoIdentify.optIn': '自分が投稿した画像の自動識別を再開します',
+  'command.feedback.description': '識別結果へのフィードバックをエクスポートします',
+  'command.feedback.export': 'このサーバーのフィードバックと修正をダウンロードします',
+  'command.feedback.export.format': 'ファイル形式（既定: CSV）',
+  'command.webhooks.description': 'このサーバーの識別イベントを他のサービスに送信します',
+  'command.webhooks.add': 'すべての識別結果を署名付きJSON POSTとしてURLに送信します',
+  'command.webhooks.add.url': '送信先のhttps URL',
+  'command.webhooks.remove': 'Webhookへの識別結果の送信を停止します',
+  'command.webhooks.remove.webhook': '削除するWebhook',
+  'command.webhooks.test': 'Webhookにテストイベントを送信します',
+  'command.webhooks.test.webhook': 'テストするWebhook',
+  'command.history.description': '過去の識別結果を確認します',
+  'command.history.list': '最近の識別結果を一覧表示します',
+  'command.history.list.server':
+    'このサーバーの全員の識別結果を一覧表示します（サーバー管理権限のみ）',
+  'command.history.show': '過去の識別結果の詳細を表示します',
+  'command.history.show.identification': '表示する識別結果',
+  'command.lookup.name': '検索',
+  'command.lookup.description': '選手名、年、セット、番号でカードカタログを検索します',
+  'command.lookup.cardName': '選手名またはカード名',
+  'command.lookup.year': '発売年（例: 2023）',
+  'command.lookup.set': 'セット名',
+  'command.lookup.number': 'カード番号（例: 101）',
+  'command.settings.auditLog': '識別結果、エラー、レート制限の発生をチャンネルに投稿します',
+  'command.settings.auditLog.channel': '投稿先のチャンネル',
+  'command.settings.auditLog.level': '投稿する内容',
+  'command.settings.auditLog.disable': '監査ログチャンネルへの投稿を停止します',
+
+  // Identification results
+  'identify.single.title': '📸 カードを識別しました！',
+  'identify.multiple.title': '📸 {count}枚のカードを識別しました！',
+  'identify.multiple.header': '画像から複数のカードが検出されました：',
+  'identify.batch.title.one': '📸 {count}枚のカードを識別しました！',
+  'identify.batch.title.other': '📸 {count}枚のカードを識別しました！',
+  'identify.batch.description': '{count}枚の画像を処理しました',
+  'identify.batch.failed': '（{count}枚は識別できませんでした）',
+  'identify.batch.cached': ' • キャッシュ {count}件',
+  'identify.batch.image': '画像 {index} • {filename}',
+  'identify.batch.noCards': 'カードが検出されませんでした',
+  'identify.page.card': '📸 カード {index} / {count}',
+  'identify.page.imageCard': '📸 画像 {image} • カード {index} / {count}',
+  'identify.truncated': '…ほか{count}件',
+  'identify.noImage': '識別する画像を添付するか、画像のリンクを入力してください。',
+
+  // Card fields
+  'card.details': '**カード詳細**',
+  'card.setInformation': '**セット情報**',
+  'card.confidence': '**信頼度**',
+  'card.parallelInformation': '**パラレル情報**',
+  'card.name': '**名前：** {value}',
+  'card.number': '**カード番号：** {value}',
+  'card.year': '**年：** {value}',
+  'card.set': '**セット：** {value}',
+  'card.release': '**リリース：** {value}',
+  'card.manufacturer': '**メーカー：** {value}',
+  'card.parallel': '**パラレル：** {value}',
+  'card.numbered': '**シリアル：** /{value}',
+  'card.noDetails': 'カード詳細はありません',
+  'card.noSetInformation': 'セット情報はありません',
+
+  // Confidence levels
+  'confidence.High': '高',
+  'confidence.Medium': '中',
+  'confidence.Low': '低',
+
+  // Footers
+  'footer.poweredBy': 'Powered by CardSight AI',
+  'footer.cached': 'Powered by CardSight AI • キャッシュ済みの結果',
+  'footer.processingTime': 'Powered by CardSight AI • {seconds}秒',
+  'footer.optOutHint': '{emoji} でリアクションすると自動識別をオフにできます',
+
+  // No detections
+  'noDetection.title': '❌ カードが検出されませんでした',
+  'noDetection.description':
+    '画像からトレーディングカードが検出されませんでした。\n\n' +
+    '**うまく識別するためのヒント：**\n' +
+    '• カードがはっきり見えるようにしてください\n' +
+    '• 明るい場所で撮影してください\n' +
+    '• ぼやけた写真や斜めからの写真は避けてください\n' +
+    '• カード全体が写るようにしてください',
+
+  // Errors
+  'error.title': '❌ エラー',
+  'error.supportCode': 'サポートコード：{code}',
+  'error.requestId': 'リクエストID：{id}',
+  'error.unknownCommand': '不明なコマンドです。',
+  'error.commandFailed':
+    'コマンドの実行中にエラーが発生しました。\n' +
+    '時間をおいて再度お試しください。問題が続く場合はサポートにお問い合わせください。',
+  'error.identificationFailed': 'カードを識別できませんでした',
+  'error.noSuccess': 'カードの識別に失敗しました',
+  'error.authentication': '認証に失敗しました。APIキーを確認してください。',
+  'error.rateLimited': 'リクエスト数の上限を超えました。時間をおいて再度お試しください。',
+  'error.imageTooLarge': '画像が大きすぎます。より小さい画像を使用してください。',
+  'error.serviceUnavailable': 'CardSightサービスは一時的に利用できません。',
+  'error.serviceDegraded': 'CardSightサービスは現在不安定です。数分後にもう一度お試しください。',
+  'error.lookupFailed': 'カードカタログを検索できませんでした',
+  'error.unexpected': '予期しないエラーが発生しました',
+  'error.unsupportedType':
+    'サポートされていないファイル形式です。JPEG、PNG、WebP、GIF、HEIC、AVIF、TIFFを使用してください。',
+  'error.fileTooLarge': 'ファイルが上限の25MBを超えています。',
+  'error.processImage': '画像を処理できませんでした。別の画像でもう一度お試しください。',
+  'error.invalidUrl': 'そのリンクは有効な http または https のアドレスではありません。',
+  'error.urlBlocked': 'そのアドレスからは画像をダウンロードできません。',
+  'error.downloadTimeout': '画像のダウンロードに時間がかかりすぎました。もう一度お試しください。',
+  'error.downloadFailed':
+    '画像をダウンロードできませんでした。リンクを確認してもう一度お試しください。',
+  'error.guildOnly': 'このコマンドはサーバー内でのみ使用できます。',
+  'error.manageGuildRequired': 'この操作には「サーバー管理」権限が必要です。',
+  'error.manageChannelsRequired': 'この操作には「チャンネル管理」権限が必要です。',
+  'error.channelNotAllowed': 'このボットは次のチャンネルでのみ使用できます: {channels}',
+  'error.noImagesInMessage': 'このメッセージには識別できる画像がありません。',
+  'error.componentExpired': '有効期限が切れました。もう一度コマンドを実行してください。',
+  'error.componentNotOwner': 'これはコマンドを実行した人だけが使用できます。',
+  'error.componentFailed':
+    'この操作の処理中にエラーが発生しました。\n後でもう一度お試しいただき、問題が続く場合はサポートにお問い合わせください。',
+
+  // Service status
+  'degraded.title': '⚠️ サービス低下中',
+  'degraded.description':
+    'CardSight AIに問題が発生しているため、識別を一時停止しています。\n\n' +
+    '通常は数分で解消します。しばらくしてからもう一度お試しください。',
+  'queue.position': '現在**{position}番目**に並んでいます。',
+  'queue.eta': '開始予定：{time}',
+  'queueFull.title': '🚦 混雑中',
+  'queueFull.description':
+    '現在多くのカードが識別されているため、待ち行列がいっぱいです。\n\n' +
+    '1〜2分後にもう一度お試しください。',
+  'restarting.title': '🔄 再起動中',
+  'restarting.description':
+    'ボットは再起動中のため、現在新しいリクエストを受け付けられません。\n\n' +
+    '1分ほどしてからもう一度お試しください。',
+  'interrupted.title': '⚠️ 中断されました',
+  'interrupted.description':
+    '申し訳ありません。リクエストが完了する前にボットが再起動しました。\n\n' +
+    '1分ほどしてからもう一度コマンドを実行してください。',
+  'cooldown.title': '⏳ 少しお待ちください',
+  'cooldown.user': 'カードの識別ペースが少し速すぎます。',
+  'cooldown.guild': 'このサーバーでは現在多くのカードが識別されています。',
+  'cooldown.global': 'ボットは現在多くの識別を処理しています。',
+  'cooldown.retry': '{time}に再試行できます。',
+  'processing.title.one': '🔍 カードを識別中...',
+  'processing.title.other': '🔍 {count}枚の画像を識別中...',
+  'processing.description.one': 'カードを識別しています。しばらくお待ちください。',
+  'processing.description.other': 'カードを識別しています。しばらくお待ちください。',
+  'pager.previous': '◀ 前へ',
+  'pager.next': '次へ ▶',
+
+  // File validation
+  'invalidFile.title': '❌ 無効なファイル形式',
+  'invalidFile.description':
+    '有効な画像ファイルをアップロードしてください。\n\n' +
+    '**対応形式：**\n' +
+    '• JPEG/JPG\n' +
+    '• PNG\n' +
+    '• WebP\n' +
+    '• GIF\n' +
+    '• HEIC/HEIFとAVIF\n' +
+    '• TIFF',
+  'fileTooLarge.title': '❌ ファイルが大きすぎます',
+  'fileTooLarge.description':
+    'アップロードされたファイルが大きすぎます。\n\n' +
+    '**最大ファイルサイズ：** 25MB\n\n' +
+    '画像を圧縮するかサイズを小さくして、もう一度お試しください。',
+
+  // Collections
+  'collection.title': '📚 あなたのコレクション',
+  'collection.empty':
+    'コレクションは空です。\n\n' +
+    '`/collection add` または識別結果の **Add to collection** ボタンでカードを保存できます。',
+  'collection.footer.one': '{count}枚 • {sort}順',
+  'collection.footer.other': '{count}枚 • {sort}順',
+  'collection.sort.added': '追加日',
+  'collection.sort.year': '年',
+  'collection.sort.set': 'セット',
+  'collection.sort.manufacturer': 'メーカー',
+  'collection.added': '**追加日**',
+  'collection.button.one': 'コレクションに追加',
+  'collection.button.other': '{count}枚をコレクションに追加',
+  'collection.button.expired':
+    'このボタンは有効期限が切れました。もう一度カードを識別してください。',
+  'collection.added.title': '📚 コレクションに追加しました',
+  'collection.alreadyCollected.title': '📚 追加済み',
+  'collection.alreadyCollected.cards': 'これらのカードはすでにコレクションにあります。',
+  'collection.alreadyCollected.image': 'その画像のカードはすでにコレクションにあります。',
+  'collection.noDetections': 'その画像からカードが検出されなかったため、何も追加されませんでした。',
+  'collection.notFound': 'そのカードはコレクションにありません。',
+  'collection.removed.title': '🗑️ コレクションから削除しました',
+
+  // Identification history
+  'history.title': '🕘 識別履歴',
+  'history.guildTitle': '🕘 サーバーの識別履歴',
+  'history.empty':
+    'まだ識別履歴はありません。\n\n' + '`/identify` を使うと、結果がここに表示されます。',
+  'history.failed': '識別に失敗しました',
+  'history.noCards': 'カードは検出されませんでした',
+  'history.more': '他{count}件',
+  'history.footer.one': '{count}件の識別',
+  'history.footer.other': '{count}件の識別',
+  'history.retention': '{days}日間保存',
+  'history.disabled': 'このボットでは識別履歴が無効になっています。',
+  'history.guildForbidden': 'サーバーの履歴を見るには「サーバー管理」権限が必要です。',
+  'history.notFound': 'その識別結果は履歴にありません。',
+
+  // Catalog lookup
+  'lookup.title.one': '🔎 カタログの一致',
+  'lookup.title.other': '🔎 カタログの一致 {count}件',
+  'lookup.header': '検索に一致したカード：',
+  'lookup.page.card': '🔎 一致 {index}/{count}',
+  'lookup.footer.partial': '{total}件中、最初の{shown}件を表示 • 検索条件を絞り込んでください',
+  'lookup.parallels': '**パラレル（{count}種）**',
+  'lookup.noResults.title': '🔍 カードが見つかりません',
+  'lookup.noResults.description':
+    '検索に一致するカタログのカードはありません。\n\n' +
+    '条件を減らすか、候補からセットや名前を選んでください。',
+  'lookup.emptyQuery': '検索する名前、年、セット、番号のいずれかを入力してください。',
+
+  // Audit log
+  'audit.identification.title': '🔍 カード識別',
+  'audit.identificationFailed.title': '❌ 識別失敗',
+  'audit.commandError.title': '💥 コマンドエラー',
+  'audit.commandError.description':
+    'コマンドが予期せず失敗しました。報告する際はサポートコードをお伝えください。',
+  'audit.rateLimited.title': '⏳ 利用制限に到達',
+  'audit.actor': '{channel} の {user}',
+  'audit.command': '**コマンド**',
+  'audit.scope': '**制限**',
+  'audit.scope.user': 'ユーザーごと',
+  'audit.scope.guild': 'サーバーごと',
+  'audit.scope.global': 'ボット全体',
+  'audit.resets': '**リセット**',
+
+  // Server settings
+  'settings.title': '⚙️ サーバー設定',
+  'settings.results': '**結果の表示**',
+  'settings.results.private': 'リクエストした人のみ',
+  'settings.results.public': '公開',
+  'settings.minConfidence': '**最低信頼度**',
+  'settings.thumbnails': '**サムネイル**',
+  'settings.thumbnails.shown': '表示',
+  'settings.thumbnails.hidden': '非表示',
+  'settings.allowedChannels': '**許可されたチャンネル**',
+  'settings.allChannels': 'すべてのチャンネル',
+  'settings.auditLog': '**監査ログ**',
+  'settings.auditLog.off': 'オフ',
+  'settings.auditLog.level.errors': 'エラーのみ',
+  'settings.auditLog.level.warnings': 'エラーと警告',
+  'settings.auditLog.level.all': 'すべて',
+  'settings.auditLog.conflict': 'チャンネルの指定と監査ログの無効化は同時にできません。',
+  'settings.auditLog.noChanges': 'チャンネルかレベルを指定するか、監査ログを無効にしてください。',
+  'settings.noChanges': '変更する設定を1つ以上選んでください。',
+  'settings.reset.title': '⚙️ 設定をリセットしました',
+  'settings.reset.description': 'このサーバーは初期設定に戻りました。',
+
+  // Webhooks
+  'webhooks.disabled': 'このボットではWebhookが無効になっています。',
+  'webhooks.invalidUrl': '有効なhttp(s) URLではありません。',
+  'webhooks.insecureUrl': 'Webhook URLにはhttpsを使用してください。',
+  'webhooks.blockedAddress':
+    'Webhook URLにプライベートアドレスや予約済みアドレスは指定できません。',
+  'webhooks.duplicate': 'そのURLにはすでにこのサーバーの識別結果が送信されています。',
+  'webhooks.limit': 'このサーバーにはすでに{max}個のWebhookがあります。先に1つ削除してください。',
+  'webhooks.added.title': '🔗 Webhookを追加しました',
+  'webhooks.added.description':
+    'このサーバーの識別結果はWebhook `{id}` に送信されます。\n\n署名シークレット: ||`{secret}`||\n`X-CardSight-Signature` ヘッダーの検証に使用します。表示されるのは今回だけなので、安全な場所に保管してください。',
+  'webhooks.removed.title': '🔗 Webhookを削除しました',
+  'webhooks.removed.description': 'Webhook `{id}` を削除しました。',
+  'webhooks.notFound': 'このサーバーにWebhook `{id}` はありません。',
+  'webhooks.test.title': '✅ テストを送信しました',
+  'webhooks.test.delivered': 'Webhook `{id}` はHTTP {status} で応答しました。',
+  'webhooks.test.failed': 'Webhook `{id}` へのテスト送信に失敗しました: {error}',
+
+  // Auto-identify
+  'autoIdentify.threadName': 'カード識別',
+  'autoIdentify.enabled.title': '✅ 自動識別を有効にしました',
+  'autoIdentify.enabled.reply':
+    '{channel} に投稿された画像は自動で識別されます（結果は返信で投稿）。',
+  'autoIdentify.enabled.thread':
+    '{channel} に投稿された画像は自動で識別されます（結果はスレッドに投稿）。',
+  'autoIdentify.disabled.title': '✅ 自動識別を無効にしました',
+  'autoIdentify.disabled.description': '{channel} に投稿された画像は今後自動で識別されません。',
+  'autoIdentify.disabled.notEnabled': '{channel} では自動識別が有効になっていませんでした。',
+  'autoIdentify.list.title': '📋 自動識別チャンネル',
+  'autoIdentify.list.reply': '返信',
+  'autoIdentify.list.thread': 'スレッド',
+  'autoIdentify.list.empty': '自動識別が有効なチャンネルはありません。',
+  'autoIdentify.optedOut.title': '🚫 オプトアウトしました',
+  'autoIdentify.optedOut.description': 'このサーバーで投稿した画像は今後自動で識別されません。',
+  'autoIdentify.optedIn.title': '✅ オプトインしました',
+  'autoIdentify.optedIn.description': '自動識別チャンネルに投稿した画像は再び識別されます。',
+
+  // Feedback
+  'feedback.button.wrong': 'カードが違う？',
+  'feedback.expired': 'これらのボタンは有効期限が切れました。もう一度カードを識別してください。',
+  'feedback.modal.title': '誤ったカードを報告',
+  'feedback.field.year': '年',
+  'feedback.field.set': 'セット',
+  'feedback.field.name': '名前',
+  'feedback.field.number': '番号',
+  'feedback.field.parallel': 'パラレル（ベースカードは空欄）',
+  'feedback.thanks.title': '👍 ありがとうございます！',
+  'feedback.thanks.description': 'フィードバックは識別精度の向上に役立てられます。',
+  'feedback.pick.prompt': '誤って識別されたのはどのカードですか？',
+  'feedback.pick.placeholder': 'カードを選択',
+  'feedback.cardNotFound': 'そのカードが見つかりませんでした。',
+  'feedback.corrected.title': '👎 修正ありがとうございます！',
+  'feedback.corrected.description': '識別精度の向上に活用されます。',
+  'feedback.export.empty.title': '📝 フィードバックはまだありません',
+  'feedback.export.empty.description': 'このサーバーではまだ誰も結果を評価していません。',
+  'feedback.export.title': '📝 フィードバックのエクスポート',
+  'feedback.export.description': '評価{count}件（うち修正{corrections}件）。',
+};
@@ -5,19 +5,23 @@
  * card identification capabilities.
  */
 
-import { Client, GatewayIntentBits, Events } from 'discord.js';
+import type { Server } from 'node:http';
+import { Client, GatewayIntentBits, Events, Partials } from 'discord.js';
 import { config, validateConfig } from './config/index.js';
-import { logger } from './utils/logger.js';
+import { flushLogger, logger } from './utils/logger.js';
 import { createReadyHandler } from './events/ready.js';
 import { createInteractionHandler } from './events/interactionCreate.js';
-import { identifyCommand } from './commands/identify.js';
-import type { Command } from './types/index.js';
+import { createMessageHandler } from './events/messageCreate.js';
+import { createMessageReactionHandler } from './events/messageReactionAdd.js';
+import { createCommandRegistry } from './commands/index.js';
+import { startHttpServer } from './utils/httpServer.js';
+import { drainInFlight, getInFlightCount } from './utils/shutdown.js';
 
-// Store commands in a Map for easy access
-const commands = new Map<string, Command>();
+// Store commands in Maps for easy access
+const commands = createCommandRegistry();
 
-// Register commands
-commands.set(identifyCommand.data.name, identifyCommand);
+// The shutdown in progress, if any
+let shutdownPromise: Promise<void> | null = null;
 
 /**
  * Initialize and start the Discord bot
@@ -34,7 +38,11 @@ async function main() {
       intents: [
         GatewayIntentBits.Guilds, // Required for bot to function
         GatewayIntentBits.GuildMessages, // Required to receive messages
+        GatewayIntentBits.MessageContent, // Required to see attachments in auto-identify channels
+        GatewayIntentBits.GuildMessageReactions, // Required for the auto-identify opt-out reaction
       ],
+      // Required for opt-out reactions on replies that are no longer cached
+      partials: [Partials.Message, Partials.Channel, Partials.Reaction],
     });
 
     // Register event handlers
@@ -44,14 +52,23 @@ async function main() {
     const interactionHandler = createInteractionHandler(commands);
     client.on(Events.InteractionCreate, interactionHandler.execute);
 
+    const messageHandler = createMessageHandler();
+    client.on(Events.MessageCreate, messageHandler.execute);
+
+    const messageReactionHandler = createMessageReactionHandler();
+    client.on(Events.MessageReactionAdd, messageReactionHandler.execute);
+
+    // Serve health checks and metrics, if enabled
+    const httpServer = config.http.enabled ? startHttpServer(client) : null;
+
     // Handle process signals for graceful shutdown
-    process.on('SIGINT', () => handleShutdown(client));
-    process.on('SIGTERM', () => handleShutdown(client));
+    process.on('SIGINT', () => void handleShutdown(client, httpServer));
+    process.on('SIGTERM', () => void handleShutdown(client, httpServer));
 
     // Handle uncaught errors
     process.on('uncaughtException', (error) => {
       logger.error('Uncaught exception', { error });
-      handleShutdown(client);
+      void handleShutdown(client, httpServer, 1);
     });
 
     process.on('unhandledRejection', (error) => {
@@ -64,25 +81,57 @@ async function main() {
     logger.error('Failed to start bot', {
       error: error instanceof Error ? error.message : String(error),
     });
+    await flushLogger();
     process.exit(1);
   }
 }
 
 /**
  * Gracefully shut down the bot
+ *
+ * Repeated calls (e.g. a second signal) join the shutdown already in progress.
+ *
+ * @param exitCode - Process exit code; non-zero codes win over earlier calls
+ */
+function handleShutdown(client: Client, httpServer: Server | null, exitCode = 0): Promise<void> {
+  if (exitCode !== 0) {
+    process.exitCode = exitCode;
+  }
+
+  shutdownPromise ??= shutDown(client, httpServer);
+  return shutdownPromise;
+}
+
+/**
+ * Drains in-flight work, disconnects, flushes logs and exits
  */
-function handleShutdown(client: Client): void {
-  logger.info('Shutting down bot...');
+async function shutDown(client: Client, httpServer: Server | null): Promise<void> {
+  try {
+    logger.info('Shutting down bot...', { inFlight: getInFlightCount() });
 
-  // Destroy the Discord client connection
-  void client.destroy();
+    // Refuse new commands and wait for in-flight identifications to finish
+    await drainInFlight(config.shutdown.drainTimeoutMs);
 
-  // Exit the process
-  process.exit(0);
+    // Stop serving health checks and metrics
+    httpServer?.close();
+
+    // Destroy the Discord client connection
+    await client.destroy();
+
+    logger.info('Shutdown complete');
+  } catch (error) {
+    logger.error('Error during shutdown', { error });
+    process.exitCode = 1;
+  } finally {
+    // Make sure buffered logs reach disk before exiting
+    await flushLogger();
+    process.exit();
+  }
 }
 
 // Start the bot
-void main().catch((error) => {
+void main().catch(async (error) => {
   logger.error('Fatal error in main function', { error });
+  await flushLogger();
   process.exit(1);
 });
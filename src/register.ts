@@ -0,0 +1,52 @@
+/**
+ * Command Registration Script
+ *
+ * Registers or removes the bot's application commands without starting the
+ * bot, so deploys can sync commands as a separate step.
+ *
+ * Usage:
+ *   node dist/register.js register [--force]
+ *   node dist/register.js unregister
+ *
+ * Commands go to DEV_GUILD_IDS when set, otherwise they are registered globally.
+ */
+
+import { validateConfig } from './config/index.js';
+import { flushLogger, logger } from './utils/logger.js';
+import { createCommandRegistry } from './commands/index.js';
+import { syncCommands, unregisterCommands } from './utils/commandRegistration.js';
+
+/**
+ * Runs the requested registration action
+ */
+async function main(): Promise<void> {
+  const [action = 'register', ...flags] = process.argv.slice(2);
+
+  validateConfig();
+
+  switch (action) {
+    case 'register': {
+      const results = await syncCommands(createCommandRegistry(), {
+        force: flags.includes('--force'),
+      });
+      const changed = results.filter((result) => result.changed).length;
+      logger.info(`Command registration complete: ${changed}/${results.length} target(s) updated`);
+      break;
+    }
+
+    case 'unregister':
+      await unregisterCommands();
+      break;
+
+    default:
+      logger.error(`Unknown action "${action}" - expected "register" or "unregister"`);
+      await flushLogger();
+      process.exit(1);
+  }
+}
+
+void main().catch(async (error: unknown) => {
+  logger.error('Command registration failed', { error });
+  await flushLogger();
+  process.exit(1);
+});
@@ -0,0 +1,30 @@
+/**
+ * Test Runner
+ *
+ * Runs every `*.test.ts` file under src with Node's built-in test runner and
+ * exits non-zero if any test fails. The files are found here rather than with
+ * a glob, since shells expand `**` differently and Node 20 does not expand
+ * test globs itself.
+ *
+ * Run with `npm test`.
+ */
+
+import { readdirSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { run } from 'node:test';
+import { spec } from 'node:test/reporters';
+
+const sourceDir = path.dirname(fileURLToPath(import.meta.url));
+
+const files = readdirSync(sourceDir, { recursive: true, encoding: 'utf8' })
+  .filter((file) => file.endsWith('.test.ts'))
+  .sort()
+  .map((file) => path.join(sourceDir, file));
+
+run({ files })
+  .on('test:fail', () => {
+    process.exitCode = 1;
+  })
+  .compose(spec)
+  .pipe(process.stdout);
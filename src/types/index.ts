@@ -4,9 +4,19 @@
  * Central location for all TypeScript type definitions used across the bot.
  */
 
-import type { ChatInputCommandInteraction } from 'discord.js';
+import type {
+  AnySelectMenuInteraction,
+  AutocompleteInteraction,
+  ButtonInteraction,
+  ChatInputCommandInteraction,
+  MessageContextMenuCommandInteraction,
+  ModalSubmitInteraction,
+} from 'discord.js';
 
-import type { RESTPostAPIChatInputApplicationCommandsJSONBody } from 'discord.js';
+import type {
+  RESTPostAPIChatInputApplicationCommandsJSONBody,
+  RESTPostAPIContextMenuApplicationCommandsJSONBody,
+} from 'discord.js';
 
 /**
  * Structure of a Discord slash command
@@ -19,8 +29,69 @@ export interface Command {
     toJSON: () => RESTPostAPIChatInputApplicationCommandsJSONBody;
   };
 
+  // Whether invocations count against the CardSight rate limits, optionally
+  // decided per invocation (for example only for some subcommands)
+  rateLimited?: boolean | ((interaction: ChatInputCommandInteraction) => boolean);
+
   // Command execution handler
   execute: (interaction: ChatInputCommandInteraction) => Promise<void>;
+
+  // Autocomplete handler for options with autocomplete enabled
+  autocomplete?: (interaction: AutocompleteInteraction) => Promise<void>;
+}
+
+/**
+ * Structure of a Discord message context-menu command
+ */
+export interface MessageContextMenuCommand {
+  // Command definition using Discord.js builder
+  data: {
+    name: string;
+    toJSON: () => RESTPostAPIContextMenuApplicationCommandsJSONBody;
+  };
+
+  // Whether invocations count against the CardSight rate limits
+  rateLimited?: boolean;
+
+  // Command execution handler
+  execute: (interaction: MessageContextMenuCommandInteraction) => Promise<void>;
+}
+
+/**
+ * State decoded from a component custom ID
+ */
+export interface ComponentState {
+  // User allowed to use the component, if restricted
+  ownerId?: string;
+  // Epoch milliseconds after which the component is expired, if any
+  expiresAt?: number;
+  // Handler-specific arguments
+  args: string[];
+}
+
+/**
+ * Handler for buttons, select menus and modals whose custom ID starts with `prefix`
+ */
+export interface ComponentHandler {
+  // Custom ID prefix routed to this handler
+  prefix: string;
+
+  handleButton?: (interaction: ButtonInteraction, state: ComponentState) => Promise<void>;
+  handleSelectMenu?: (
+    interaction: AnySelectMenuInteraction,
+    state: ComponentState
+  ) => Promise<void>;
+  handleModalSubmit?: (interaction: ModalSubmitInteraction, state: ComponentState) => Promise<void>;
+}
+
+/**
+ * All application commands and component handlers the bot provides,
+ * grouped by interaction type
+ */
+export interface CommandRegistry {
+  chatInput: Map<string, Command>;
+  messageContextMenu: Map<string, MessageContextMenuCommand>;
+  components: Map<string, ComponentHandler>;
 }
 
 /**
@@ -50,6 +121,9 @@ export const ConfidenceEmojis = {
 
 /**
  * Supported image formats for card identification
+ *
+ * Images are converted to JPEG before they are sent to CardSight, so this
+ * includes formats CardSight doesn't accept directly.
  */
 export const SupportedImageFormats = [
   'image/jpeg',
@@ -57,10 +131,24 @@ export const SupportedImageFormats = [
   'image/png',
   'image/webp',
   'image/gif',
+  'image/heic',
+  'image/heif',
+  'image/avif',
+  'image/tiff',
 ] as const;
 
 /**
- * Maximum file size for uploads (in bytes)
- * Discord's limit is 8MB for regular users
+ * A content type the bot can process
+ */
+export type SupportedImageFormat = (typeof SupportedImageFormats)[number];
+
+/**
+ * Maximum size of an image the bot will download and process (in bytes)
+ * Discord's default upload limit; larger images are downscaled before upload
+ */
+export const MAX_FILE_SIZE = 25 * 1024 * 1024; // 25MB
+
+/**
+ * Maximum number of images accepted by a single /identify invocation
  */
-export const MAX_FILE_SIZE = 8 * 1024 * 1024; // 8MB
+export const MAX_IMAGES_PER_COMMAND = 5;
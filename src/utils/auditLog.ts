@@ -0,0 +1,121 @@
+/**
+ * Audit Log
+ *
+ * Posts a compact embed to a guild's audit-log channel (chosen with
+ * /settings audit-log) for identifications, failed commands and rate-limit
+ * hits, so moderators can see how the bot is used. Each guild picks how much
+ * is posted with its audit-log level.
+ */
+
+import type { Client, User } from 'discord.js';
+import { createAuditLogEmbed } from './embedBuilder.js';
+import { getGuildSettings } from './guildSettings.js';
+import type { ImageIdentification } from './identification.js';
+import { logError, logWarning } from './logger.js';
+import type { RateLimitScope } from './rateLimiter.js';
+import { resolveLocale } from '../i18n/index.js';
+
+/**
+ * How much a guild's audit-log channel receives
+ *
+ * - `errors`: failed identifications and command errors
+ * - `warnings`: errors, plus rate-limit hits
+ * - `all`: everything, including successful identifications
+ */
+export type AuditLogLevel = 'errors' | 'warnings' | 'all';
+
+/**
+ * How serious an audit event is
+ */
+export type AuditSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Something worth telling a guild's moderators about
+ *
+ * The command and support code come from the current correlation context.
+ */
+export type AuditEvent =
+  | {
+      type: 'identification';
+      user: User;
+      channelId: string | null;
+      identifications: ImageIdentification[];
+    }
+  | { type: 'command-error'; user: User; channelId: string | null }
+  | {
+      type: 'rate-limited';
+      user: User;
+      channelId: string | null;
+      scope: RateLimitScope;
+      retryAfterMs: number;
+    };
+
+/**
+ * Severities posted at each audit-log level
+ */
+const LEVEL_SEVERITIES: Record<AuditLogLevel, AuditSeverity[]> = {
+  errors: ['error'],
+  warnings: ['error', 'warning'],
+  all: ['error', 'warning', 'info'],
+};
+
+/**
+ * Gets how serious an audit event is
+ *
+ * An identification counts as an error if any of its images failed.
+ */
+export function getAuditSeverity(event: AuditEvent): AuditSeverity {
+  switch (event.type) {
+    case 'identification':
+      return event.identifications.some(({ result }) => !result.success) ? 'error' : 'info';
+    case 'command-error':
+      return 'error';
+    case 'rate-limited':
+      return 'warning';
+  }
+}
+
+/**
+ * Posts an event to a guild's audit-log channel, if it has one and the event
+ * meets its level
+ *
+ * Never throws: failures to post are only logged, so callers can fire and forget.
+ *
+ * @param guildId - The guild, or null outside of guilds (which have no audit log)
+ */
+export async function postAuditLog(
+  client: Client,
+  guildId: string | null,
+  event: AuditEvent
+): Promise<void> {
+  if (!guildId) {
+    return;
+  }
+
+  try {
+    const settings = await getGuildSettings(guildId);
+    const severity = getAuditSeverity(event);
+    if (!settings.auditChannelId || !LEVEL_SEVERITIES[settings.auditLevel].includes(severity)) {
+      return;
+    }
+
+    const channel = await client.channels.fetch(settings.auditChannelId);
+    if (!channel?.isSendable()) {
+      logWarning('Audit log channel is missing or not sendable', {
+        guildId,
+        channelId: settings.auditChannelId,
+      });
+      return;
+    }
+
+    const locale = resolveLocale({
+      guildLocale: client.guilds.cache.get(guildId)?.preferredLocale,
+    });
+    await channel.send({
+      embeds: [createAuditLogEmbed(event, severity, locale)],
+      allowedMentions: { parse: [] },
+    });
+  } catch (error) {
+    logError('Failed to post to audit log channel', error, { guildId, eventType: event.type });
+  }
+}
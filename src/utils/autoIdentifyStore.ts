@@ -0,0 +1,193 @@
+/**
+ * Auto-Identify Channel Store
+ *
+ * Persists which channels identify posted images automatically, which users
+ * have opted out of it, and who posted the message behind each recent reply,
+ * per guild.
+ */
+
+import { JsonStore } from './storage.js';
+
+/**
+ * How the bot answers in an auto-identify channel
+ */
+export type AutoIdentifyMode = 'reply' | 'thread';
+
+/**
+ * Settings for a single auto-identify channel
+ */
+export interface AutoIdentifyChannel {
+  mode: AutoIdentifyMode;
+  enabledBy: string;
+  enabledAt: string;
+}
+
+/**
+ * The author of the message behind an auto-identify reply
+ */
+interface TrackedReply {
+  authorId: string;
+  expiresAt: number;
+}
+
+/**
+ * Auto-identify state for a single guild
+ */
+interface GuildAutoIdentify {
+  channels: Record<string, AutoIdentifyChannel>;
+  optedOutUsers: string[];
+  // Keyed by reply message ID; missing in files written before replies were stored
+  replies?: Record<string, TrackedReply>;
+}
+
+const store = new JsonStore<Record<string, GuildAutoIdentify>>('auto-identify.json', () => ({}));
+
+/**
+ * Returns the guild's entry, creating it if needed
+ */
+function ensureGuild(data: Record<string, GuildAutoIdentify>, guildId: string): GuildAutoIdentify {
+  data[guildId] ??= { channels: {}, optedOutUsers: [] };
+  return data[guildId];
+}
+
+/**
+ * Gets the auto-identify settings for a channel
+ *
+ * @returns The channel settings, or undefined if auto-identify is off there
+ */
+export async function getAutoIdentifyChannel(
+  guildId: string,
+  channelId: string
+): Promise<AutoIdentifyChannel | undefined> {
+  const data = await store.read();
+  return data[guildId]?.channels[channelId];
+}
+
+/**
+ * Lists all auto-identify channels in a guild
+ */
+export async function listAutoIdentifyChannels(
+  guildId: string
+): Promise<Array<AutoIdentifyChannel & { channelId: string }>> {
+  const data = await store.read();
+  return Object.entries(data[guildId]?.channels ?? {}).map(([channelId, channel]) => ({
+    channelId,
+    ...channel,
+  }));
+}
+
+/**
+ * Turns auto-identify on for a channel (or changes its mode)
+ */
+export async function enableAutoIdentifyChannel(
+  guildId: string,
+  channelId: string,
+  mode: AutoIdentifyMode,
+  enabledBy: string
+): Promise<void> {
+  await store.update((data) => {
+    ensureGuild(data, guildId).channels[channelId] = {
+      mode,
+      enabledBy,
+      enabledAt: new Date().toISOString(),
+    };
+  });
+}
+
+/**
+ * Turns auto-identify off for a channel
+ *
+ * @returns Whether the channel had auto-identify enabled
+ */
+export async function disableAutoIdentifyChannel(
+  guildId: string,
+  channelId: string
+): Promise<boolean> {
+  let removed = false;
+  await store.update((data) => {
+    const guild = data[guildId];
+    if (guild?.channels[channelId]) {
+      delete guild.channels[channelId];
+      removed = true;
+    }
+  });
+  return removed;
+}
+
+/**
+ * Checks whether a user opted out of auto-identify in a guild
+ */
+export async function isAutoIdentifyOptedOut(guildId: string, userId: string): Promise<boolean> {
+  const data = await store.read();
+  return data[guildId]?.optedOutUsers.includes(userId) ?? false;
+}
+
+/**
+ * Sets whether a user is opted out of auto-identify in a guild
+ */
+export async function setAutoIdentifyOptOut(
+  guildId: string,
+  userId: string,
+  optedOut: boolean
+): Promise<void> {
+  await store.update((data) => {
+    const guild = ensureGuild(data, guildId);
+    guild.optedOutUsers = guild.optedOutUsers.filter((id) => id !== userId);
+    if (optedOut) {
+      guild.optedOutUsers.push(userId);
+    }
+  });
+}
+
+/**
+ * How long the opt-out reaction keeps working on an auto-identify reply
+ */
+const REPLY_TRACKING_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/**
+ * Remembers who posted the message behind an auto-identify reply
+ *
+ * Expired replies in the guild are dropped at the same time, so the file
+ * only holds replies that can still be reacted to.
+ */
+export async function rememberAutoIdentifyReply(
+  guildId: string,
+  replyMessageId: string,
+  authorId: string
+): Promise<void> {
+  const now = Date.now();
+  await store.update((data) => {
+    const guild = ensureGuild(data, guildId);
+    const replies = Object.fromEntries(
+      Object.entries(guild.replies ?? {}).filter(([, reply]) => reply.expiresAt > now)
+    );
+    replies[replyMessageId] = { authorId, expiresAt: now + REPLY_TRACKING_TTL_MS };
+    guild.replies = replies;
+  });
+}
+
+/**
+ * Gets the author of the message behind an auto-identify reply
+ *
+ * @returns The author's ID, or undefined if the reply is unknown or expired
+ */
+export async function getAutoIdentifyReplyAuthor(
+  guildId: string,
+  replyMessageId: string
+): Promise<string | undefined> {
+  const data = await store.read();
+  const reply = data[guildId]?.replies?.[replyMessageId];
+  return reply && reply.expiresAt > Date.now() ? reply.authorId : undefined;
+}
+
+/**
+ * Forgets an auto-identify reply (for example after it was deleted)
+ */
+export async function forgetAutoIdentifyReply(
+  guildId: string,
+  replyMessageId: string
+): Promise<void> {
+  await store.update((data) => {
+    delete data[guildId]?.replies?.[replyMessageId];
+  });
+}
@@ -1,22 +1,32 @@
 /**
  * CardSight API Integration
  *
- * This module wraps the CardSight AI SDK and provides helper functions
- * for card identification and processing.
+ * This module provides helper functions for card identification and catalog
+ * search. Identification goes through the configured recognition backend;
+ * catalog search always uses the CardSight AI SDK.
  */
 
-import { CardSightAI, AuthenticationError, CardSightAIError } from 'cardsightai';
+import { AuthenticationError, CardSightAIError } from 'cardsightai';
 import type { CardDetection, DetectedCard, IdentifyResult } from 'cardsightai';
 import { config } from '../config/index.js';
-import { logger, logApiCall, logError, logDebug } from './logger.js';
+import { logger, logApiCall, logError, logDebug, logWarning } from './logger.js';
+import {
+  recordCardSightError,
+  recordCardSightHealth,
+  recordDetections,
+  recordIdentification,
+} from './metrics.js';
+import { recordCardSightRequestId } from './correlation.js';
+import {
+  getRecognizer,
+  type CatalogAutocompleteField,
+  type CatalogCardSummary,
+} from './recognition.js';
+import { CircuitBreaker, withRetry } from './resilience.js';
+import { getCachedResult, getCacheStats, hashImage, setCachedResult } from './resultCache.js';
+import { t, type MessageKey } from '../i18n/index.js';
 
-export type { CardDetection, DetectedCard, IdentifyResult };
-
-// Initialize the CardSight client
-export const cardsightClient = new CardSightAI({
-  apiKey: config.cardsight.apiKey,
-  timeout: config.cardsight.timeout,
-});
+export type { CardDetection, CatalogAutocompleteField, DetectedCard, IdentifyResult };
 
 /**
  * Result from card identification
@@ -26,7 +36,118 @@ export interface CardIdentificationResult {
   detections: CardDetection[];
   processingTime: number;
   requestId?: string;
+  // English error message, for logs and callers without a locale
   error?: string;
+  // Catalog key of the error message, for showing it in the user's language
+  errorKey?: MessageKey;
+  // Whether the result was served from the identification cache
+  cached?: boolean;
+  // Whether the call was skipped because the CardSight circuit breaker is open
+  degraded?: boolean;
+}
+
+/**
+ * Circuit breaker guarding CardSight identification calls
+ *
+ * Opens after repeated server-side failures and probes recovery with the health check.
+ */
+export const cardsightCircuitBreaker = new CircuitBreaker({
+  name: 'cardsight',
+  failureThreshold: config.resilience.circuitBreakerThreshold,
+  resetTimeoutMs: config.resilience.circuitBreakerResetMs,
+  probe: () => validateCardSightConnection(),
+});
+
+// Socket and DNS error codes of connection failures worth retrying
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+]);
+
+/**
+ * Checks whether an error is a network failure or timeout rather than a bug
+ *
+ * fetch reports connection failures as "TypeError: fetch failed" with the
+ * socket error as its cause, and the SDK's timeouts abort the request.
+ */
+function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+    return true;
+  }
+  if (error instanceof TypeError && error.message === 'fetch failed') {
+    return true;
+  }
+
+  const code =
+    (error as NodeJS.ErrnoException).code ??
+    (error.cause as NodeJS.ErrnoException | undefined)?.code;
+  return code !== undefined && NETWORK_ERROR_CODES.has(code);
+}
+
+/**
+ * Checks whether an error is a transient failure worth retrying
+ *
+ * Rate limits, server errors, network failures and timeouts are retried;
+ * client errors, configuration errors and bugs are not.
+ */
+function isTransientError(error: unknown): boolean {
+  if (error instanceof CardSightAIError) {
+    return error.status !== undefined && (error.status === 429 || error.status >= 500);
+  }
+  return isNetworkError(error);
+}
+
+/**
+ * Checks whether an error means the API key is missing or was rejected
+ */
+function isAuthenticationError(error: unknown): boolean {
+  return (
+    error instanceof AuthenticationError ||
+    (error instanceof CardSightAIError && error.status === 401)
+  );
+}
+
+/**
+ * Checks whether an error indicates CardSight itself is unhealthy
+ *
+ * Rate limits are transient but say nothing about the service being down.
+ */
+function isServiceFailure(error: unknown): boolean {
+  return isTransientError(error) && !(error instanceof CardSightAIError && error.status === 429);
+}
+
+/**
+ * Reads the retry-after hint (in seconds) from a CardSight error response body
+ */
+function getRetryAfterMs(error: unknown): number | undefined {
+  if (!(error instanceof CardSightAIError)) {
+    return undefined;
+  }
+
+  const body = error.response as { retryAfter?: unknown; retry_after?: unknown } | undefined;
+  const seconds = Number(body?.retryAfter ?? body?.retry_after);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+}
+
+/**
+ * Builds the error fields of an unsuccessful result from a message key
+ */
+export function identificationError(
+  errorKey: MessageKey
+): Pick<CardIdentificationResult, 'error' | 'errorKey'> {
+  return { error: t('en', errorKey), errorKey };
 }
 
 /**
@@ -43,86 +164,155 @@ export async function identifyCard(
   mimeType?: string
 ): Promise<CardIdentificationResult> {
   const startTime = Date.now();
+  const recognizer = getRecognizer();
+  const cacheKey = hashImage(imageBuffer, recognizer.name);
+
+  const cachedResult = await getCachedResult(cacheKey);
+  if (cachedResult) {
+    // The original request, which produced the cached detections
+    recordCardSightRequestId(cachedResult.requestId);
+    const processingTime = Date.now() - startTime;
+    const { hits, misses } = getCacheStats();
+    logApiCall('identify.card', processingTime, true, {
+      cache: 'hit',
+      cacheHits: hits,
+      cacheMisses: misses,
+    });
+    recordIdentification(processingTime, { cache: 'hit', success: true });
+    recordDetections(cachedResult.detections);
+
+    return { ...cachedResult, processingTime, cached: true };
+  }
+
+  // Fail fast while CardSight is known to be down
+  if (!(await cardsightCircuitBreaker.allowRequest())) {
+    logWarning('Skipping CardSight call, circuit breaker is open', { fileName: filename });
+    recordCardSightError('circuit_open');
+    return {
+      success: false,
+      detections: [],
+      processingTime: Date.now() - startTime,
+      ...identificationError('error.serviceDegraded'),
+      degraded: true,
+    };
+  }
 
   try {
-    logDebug(`Starting card identification for file: ${filename}`, {
+    logDebug('Starting card identification', {
+      fileName: filename,
       fileSize: imageBuffer.length,
       mimeType,
     });
 
-    // Call the CardSight API
-    // Create a Blob from the Buffer with the correct MIME type
-    const blob = new Blob([imageBuffer], {
-      type: mimeType || 'image/jpeg',
-    });
-    const result = await cardsightClient.identify.card(blob);
+    // Call the recognition backend, retrying transient failures
+    const result = await withRetry(
+      () =>
+        recognizer.identify({
+          image: imageBuffer,
+          filename,
+          mimeType: mimeType || 'image/jpeg',
+        }),
+      {
+        maxAttempts: config.resilience.maxAttempts,
+        baseDelayMs: config.resilience.baseDelayMs,
+        maxDelayMs: config.resilience.maxDelayMs,
+        isRetryable: isTransientError,
+        getRetryAfterMs,
+        onRetry: (error, attempt, delayMs) => {
+          logWarning('Retrying CardSight identification', {
+            attempt,
+            delayMs,
+            status: error instanceof CardSightAIError ? error.status : undefined,
+          });
+        },
+      }
+    );
+    cardsightCircuitBreaker.recordSuccess();
+    recordCardSightRequestId(result.requestId);
 
     const processingTime = Date.now() - startTime;
-    logApiCall('identify.card', processingTime, true);
+    const { hits, misses } = getCacheStats();
+    logApiCall('identify.card', processingTime, true, {
+      cache: 'miss',
+      cacheHits: hits,
+      cacheMisses: misses,
+    });
+    recordIdentification(processingTime, { cache: 'miss', success: true });
 
     // Check if we got a successful response
-    if (!result.data || !result.data.success) {
+    if (!result.success) {
       return {
         success: false,
         detections: [],
         processingTime,
-        error: 'Card identification failed',
+        ...identificationError('error.noSuccess'),
+        requestId: result.requestId,
       };
     }
 
     // Process detections
-    const detections: CardDetection[] = result.data.detections ?? [];
+    const { detections } = result;
+    recordDetections(detections);
 
     logDebug(`Identification complete`, {
       detectionsCount: detections.length,
       processingTime,
     });
 
-    return {
+    const identification: CardIdentificationResult = {
       success: true,
       detections,
       processingTime,
-      requestId: result.data.requestId,
+      requestId: result.requestId,
     };
+    await setCachedResult(cacheKey, identification);
+
+    return identification;
   } catch (error) {
     const processingTime = Date.now() - startTime;
     logApiCall('identify.card', processingTime, false);
+    recordIdentification(processingTime, { cache: 'miss', success: false });
+    recordCardSightError(
+      error instanceof CardSightAIError && error.status !== undefined ? error.status : 'network'
+    );
+
+    // One failure per call, however many attempts it took
+    if (isServiceFailure(error)) {
+      cardsightCircuitBreaker.recordFailure();
+    }
 
     // Handle specific error types
-    if (error instanceof AuthenticationError) {
+    if (isAuthenticationError(error)) {
       logError('Authentication failed with CardSight API', error);
       return {
         success: false,
         detections: [],
         processingTime,
-        error: 'Authentication failed. Please check your API key.',
+        ...identificationError('error.authentication'),
       };
     } else if (error instanceof CardSightAIError) {
       // CardSightAIError has status property
-      logError('CardSight API error', error, {
-        status: error.status,
-        requestId:
-          (error as { requestId?: string; request?: { id?: string } }).requestId ||
-          (error as { request?: { id?: string } }).request?.id,
-      });
+      const errorWithRequest = error as { requestId?: string; request?: { id?: string } };
+      const requestId = errorWithRequest.requestId || errorWithRequest.request?.id;
+      recordCardSightRequestId(requestId);
+      logError('CardSight API error', error, { status: error.status, requestId });
 
       // Provide user-friendly error messages
-      let errorMessage = 'Failed to identify card';
+      let errorKey: MessageKey = 'error.identificationFailed';
       if (error.status === 429) {
-        errorMessage = 'Rate limit exceeded. Please try again later.';
+        errorKey = 'error.rateLimited';
       } else if (error.status === 413) {
-        errorMessage = 'Image is too large. Please use a smaller image.';
+        errorKey = 'error.imageTooLarge';
       } else if (error.status && error.status >= 500) {
-        errorMessage = 'CardSight service is temporarily unavailable.';
+        errorKey = 'error.serviceUnavailable';
       }
 
-      const errorWithRequest = error as { requestId?: string; request?: { id?: string } };
       return {
         success: false,
         detections: [],
         processingTime,
-        error: errorMessage,
-        requestId: errorWithRequest.requestId || errorWithRequest.request?.id,
+        ...identificationError(errorKey),
+        requestId,
       };
     } else {
       logError('Unexpected error during card identification', error);
@@ -130,12 +320,169 @@ export async function identifyCard(
         success: false,
         detections: [],
         processingTime,
-        error: 'An unexpected error occurred',
+        ...identificationError('error.unexpected'),
       };
     }
   }
 }
 
+/**
+ * Text filters for a catalog search
+ */
+export interface CatalogQuery {
+  name?: string;
+  year?: string;
+  set?: string;
+  number?: string;
+}
+
+/**
+ * A card from the catalog, with the parallels it was printed in
+ */
+export interface CatalogCard {
+  card: DetectedCard;
+  parallels: NonNullable<DetectedCard['parallel']>[];
+}
+
+/**
+ * Result from a catalog search
+ */
+export interface CatalogSearchResult {
+  success: boolean;
+  cards: CatalogCard[];
+  // Number of matching cards, which may exceed the cards returned
+  totalCount: number;
+  // English error message, for logs and callers without a locale
+  error?: string;
+  // Catalog key of the error message, for showing it in the user's language
+  errorKey?: MessageKey;
+}
+
+/**
+ * Converts a catalog card summary to the card shape used by identification results,
+ * so the same formatters can display both
+ */
+function toCatalogCard(summary: CatalogCardSummary): CatalogCard {
+  return {
+    card: {
+      id: summary.id,
+      releaseId: summary.releaseId,
+      setId: summary.setId,
+      year: summary.releaseYear,
+      releaseName: summary.releaseName,
+      setName: summary.setName,
+      name: summary.name,
+      number: summary.number,
+      description: summary.description,
+      attributes: summary.attributes,
+      variationOf: summary.variationOf,
+    },
+    parallels: summary.parallels ?? [],
+  };
+}
+
+/**
+ * Searches the card catalog by card name, year, set and number
+ *
+ * The catalog comes from the configured recognition backend, so the mock
+ * provider answers from its fixtures.
+ *
+ * @param query - The filters; at least one should be set
+ * @param limit - Maximum number of cards to return
+ * @returns The matching cards
+ */
+export async function searchCatalog(query: CatalogQuery, limit = 25): Promise<CatalogSearchResult> {
+  const startTime = Date.now();
+
+  if (!(await cardsightCircuitBreaker.allowRequest())) {
+    logWarning('Skipping CardSight catalog search, circuit breaker is open');
+    recordCardSightError('circuit_open');
+    return {
+      success: false,
+      cards: [],
+      totalCount: 0,
+      ...identificationError('error.serviceDegraded'),
+    };
+  }
+
+  try {
+    const recognizer = getRecognizer();
+    const result = await withRetry(() => recognizer.searchCatalog({ ...query, limit }), {
+      maxAttempts: config.resilience.maxAttempts,
+      baseDelayMs: config.resilience.baseDelayMs,
+      maxDelayMs: config.resilience.maxDelayMs,
+      isRetryable: isTransientError,
+      getRetryAfterMs,
+      onRetry: (error, attempt, delayMs) => {
+        logWarning('Retrying CardSight catalog search', {
+          attempt,
+          delayMs,
+          status: error instanceof CardSightAIError ? error.status : undefined,
+        });
+      },
+    });
+    logApiCall('catalog.cards.list', Date.now() - startTime, true);
+    cardsightCircuitBreaker.recordSuccess();
+
+    return {
+      success: true,
+      cards: result.cards.map(toCatalogCard),
+      totalCount: result.totalCount,
+    };
+  } catch (error) {
+    logApiCall('catalog.cards.list', Date.now() - startTime, false);
+    recordCardSightError(
+      error instanceof CardSightAIError && error.status !== undefined ? error.status : 'network'
+    );
+
+    // One failure per call, however many attempts it took
+    if (isServiceFailure(error)) {
+      cardsightCircuitBreaker.recordFailure();
+    }
+
+    let errorKey: MessageKey = 'error.lookupFailed';
+    if (isAuthenticationError(error)) {
+      errorKey = 'error.authentication';
+    } else if (error instanceof CardSightAIError && error.status === 429) {
+      errorKey = 'error.rateLimited';
+    } else if (error instanceof CardSightAIError && error.status && error.status >= 500) {
+      errorKey = 'error.serviceUnavailable';
+    }
+
+    logError('CardSight catalog search failed', error, { query });
+    return { success: false, cards: [], totalCount: 0, ...identificationError(errorKey) };
+  }
+}
+
+/**
+ * Suggests catalog values for a partially typed card name or set
+ *
+ * Autocomplete must answer quickly, so there are no retries and failures
+ * return no suggestions.
+ *
+ * @param field - The field being typed
+ * @param query - What has been typed so far
+ * @returns Up to 10 suggestions
+ */
+export async function autocompleteCatalog(
+  field: CatalogAutocompleteField,
+  query: string
+): Promise<string[]> {
+  if (!query.trim() || cardsightCircuitBreaker.getState() === 'open') {
+    return [];
+  }
+
+  try {
+    return await getRecognizer().autocompleteCatalog(field, query);
+  } catch (error) {
+    logDebug('CardSight autocomplete failed', {
+      field,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
 /**
  * Formats a card display name
  *
@@ -163,23 +510,26 @@ export function formatCardDisplay(card: CardDetection['card']): string {
 }
 
 /**
- * Validates that the CardSight client is properly configured
+ * Validates that the recognition backend is properly configured and reachable
  */
 export async function validateCardSightConnection(): Promise<boolean> {
   try {
-    logger.info('Validating CardSight API connection...');
+    const recognizer = getRecognizer();
+    logger.info(`Validating ${recognizer.name} recognition backend...`);
 
     // Try to check health
-    const health = await cardsightClient.health.check();
-
-    if (health.data?.status) {
-      logger.info('CardSight API connection validated successfully');
+    if (await recognizer.checkHealth()) {
+      logger.info(`${recognizer.name} recognition backend validated successfully`);
+      recordCardSightHealth(true);
       return true;
     }
 
+    recordCardSightHealth(false);
     return false;
   } catch (error) {
-    if (error instanceof AuthenticationError) {
+    recordCardSightHealth(false);
+
+    if (isAuthenticationError(error)) {
       logError('Invalid CardSight API key', error);
     } else {
       logError('Failed to validate CardSight connection', error);
@@ -0,0 +1,82 @@
+/**
+ * CardSight Recognizer
+ *
+ * Card recognition and catalog backend that calls the CardSight AI API
+ * through the SDK.
+ */
+
+import { CardSightAI } from 'cardsightai';
+import { config } from '../config/index.js';
+import type {
+  CardRecognizer,
+  CatalogAutocompleteField,
+  CatalogSearchRequest,
+  CatalogSearchResponse,
+  RecognitionRequest,
+  RecognitionResponse,
+} from './recognition.js';
+
+let client: CardSightAI | null = null;
+
+/**
+ * Gets the CardSight SDK client, creating it on first use
+ *
+ * The client is created lazily so modules can be imported without credentials,
+ * for example when another recognition backend is configured.
+ *
+ * @throws If CARDSIGHTAI_API_KEY is not set
+ */
+function getCardSightClient(): CardSightAI {
+  client ??= new CardSightAI({
+    apiKey: config.cardsight.apiKey,
+    timeout: config.cardsight.timeout,
+  });
+  return client;
+}
+
+/**
+ * Recognizes cards with the CardSight AI API
+ */
+export class CardSightRecognizer implements CardRecognizer {
+  readonly name = 'cardsight';
+
+  async identify(request: RecognitionRequest): Promise<RecognitionResponse> {
+    // Create a Blob from the Buffer with the correct MIME type
+    const blob = new Blob([request.image], { type: request.mimeType });
+    const { data } = (await getCardSightClient().identify.card(blob)) as {
+      data?: Partial<RecognitionResponse>;
+    };
+
+    return {
+      success: data?.success ?? false,
+      detections: data?.detections ?? [],
+      requestId: data?.requestId,
+    };
+  }
+
+  async searchCatalog(request: CatalogSearchRequest): Promise<CatalogSearchResponse> {
+    const { data } = await getCardSightClient().catalog.cards.list({
+      name: request.name,
+      year: request.year,
+      setName: request.set,
+      number: request.number,
+      take: request.limit,
+    });
+
+    const cards = data?.cards ?? [];
+    return { cards, totalCount: data?.total_count ?? cards.length };
+  }
+
+  async autocompleteCatalog(field: CatalogAutocompleteField, query: string): Promise<string[]> {
+    const { data } =
+      field === 'set'
+        ? await getCardSightClient().autocomplete.sets(query)
+        : await getCardSightClient().autocomplete.cards(query);
+    return data?.suggestions ?? [];
+  }
+
+  async checkHealth(): Promise<boolean> {
+    const health = await getCardSightClient().health.check();
+    return Boolean(health.data?.status);
+  }
+}
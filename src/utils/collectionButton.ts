@@ -0,0 +1,108 @@
+/**
+ * Add to Collection Button
+ *
+ * Button shown under identification results that saves the detected cards
+ * to the collection of whoever presses it.
+ */
+
+import type { ButtonInteraction } from 'discord.js';
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from 'discord.js';
+import type { DetectedCard } from './cardsight.js';
+import { formatCardDisplay } from './cardsight.js';
+import { addToCollection, getCollectionId } from './collectionStore.js';
+import {
+  encodeCustomId,
+  getStashedComponentState,
+  stashComponentState,
+} from './componentRouter.js';
+import { createErrorEmbed, createInfoEmbed } from './embedBuilder.js';
+import type { ImageIdentification } from './identification.js';
+import type { ComponentHandler, ComponentState } from '../types/index.js';
+import { DEFAULT_LOCALE, resolveLocale, t, type SupportedLocale } from '../i18n/index.js';
+
+export const COLLECTION_ADD_PREFIX = 'collection-add';
+
+/**
+ * How long the button keeps working after the results are posted
+ */
+const COLLECTION_BUTTON_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Creates the "Add to collection" row for identification results
+ *
+ * @param locale - Language of the button label
+ * @returns The row, or null if no detected card can be saved
+ */
+export function createAddToCollectionRow(
+  identifications: ImageIdentification[],
+  locale: SupportedLocale = DEFAULT_LOCALE
+): ActionRowBuilder<ButtonBuilder> | null {
+  const cards = identifications
+    .flatMap(({ result }) => result.detections.map((detection) => detection.card))
+    .filter((card) => getCollectionId(card) !== undefined);
+
+  if (cards.length === 0) {
+    return null;
+  }
+
+  const token = stashComponentState(cards, COLLECTION_BUTTON_TTL_MS);
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(
+        encodeCustomId(COLLECTION_ADD_PREFIX, [token], { ttlMs: COLLECTION_BUTTON_TTL_MS })
+      )
+      .setLabel(
+        t(locale, cards.length > 1 ? 'collection.button.other' : 'collection.button.one', {
+          count: cards.length,
+        })
+      )
+      .setEmoji('📚')
+      .setStyle(ButtonStyle.Primary)
+  );
+}
+
+/**
+ * Saves the stashed cards to the collection of the user who pressed the button
+ */
+async function handleAddToCollection(
+  interaction: ButtonInteraction,
+  state: ComponentState
+): Promise<void> {
+  const locale = resolveLocale(interaction);
+  const cards = getStashedComponentState<DetectedCard[]>(state.args[0]);
+  if (!cards) {
+    await interaction.reply({
+      embeds: [createErrorEmbed(t(locale, 'collection.button.expired'), undefined, locale)],
+      ephemeral: true,
+    });
+    return;
+  }
+
+  const added = await addToCollection(interaction.user.id, cards);
+  const description =
+    added.length > 0
+      ? added.map((card) => `• ${formatCardDisplay(card)}`).join('\n')
+      : t(locale, 'collection.alreadyCollected.cards');
+
+  await interaction.reply({
+    embeds: [
+      createInfoEmbed(
+        t(
+          locale,
+          added.length > 0 ? 'collection.added.title' : 'collection.alreadyCollected.title'
+        ),
+        description,
+        locale
+      ),
+    ],
+    ephemeral: true,
+  });
+}
+
+/**
+ * Component handler for the "Add to collection" button
+ */
+export const collectionAddHandler: ComponentHandler = {
+  prefix: COLLECTION_ADD_PREFIX,
+  handleButton: handleAddToCollection,
+};
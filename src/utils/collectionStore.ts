@@ -0,0 +1,117 @@
+/**
+ * Card Collection Store
+ *
+ * Persists each user's personal collection of identified cards.
+ */
+
+import type { DetectedCard } from './cardsight.js';
+import { JsonStore } from './storage.js';
+
+/**
+ * A card saved to a user's collection
+ */
+export interface CollectionEntry {
+  // Card ID, suffixed with the parallel ID for parallels
+  id: string;
+  card: DetectedCard;
+  addedAt: string;
+}
+
+/**
+ * Orders in which a collection can be listed
+ */
+export type CollectionSort = 'added' | 'year' | 'set' | 'manufacturer';
+
+/**
+ * Gets the ID a card is stored under, or undefined if CardSight returned no card ID
+ *
+ * Parallels are distinct collectibles, so they are stored separately from the base card.
+ */
+export function getCollectionId(card: DetectedCard): string | undefined {
+  if (!card.id) {
+    return undefined;
+  }
+  return card.parallel ? `${card.id}:${card.parallel.id}` : card.id;
+}
+
+const store = new JsonStore<Record<string, CollectionEntry[]>>('collections.json', () => ({}));
+
+/**
+ * Lists a user's collection in the given order
+ */
+export async function listCollection(
+  userId: string,
+  sort: CollectionSort = 'added'
+): Promise<CollectionEntry[]> {
+  const data = await store.read();
+  const entries = [...(data[userId] ?? [])];
+
+  const compareText = (a?: string, b?: string): number => (a ?? '').localeCompare(b ?? '');
+  switch (sort) {
+    case 'year':
+      return entries.sort((a, b) => compareText(a.card.year, b.card.year));
+    case 'set':
+      return entries.sort((a, b) => compareText(a.card.setName, b.card.setName));
+    case 'manufacturer':
+      return entries.sort((a, b) => compareText(a.card.manufacturer, b.card.manufacturer));
+    default:
+      return entries;
+  }
+}
+
+/**
+ * Gets a single card from a user's collection
+ *
+ * @returns The entry, or undefined if the card is not in the collection
+ */
+export async function getCollectionEntry(
+  userId: string,
+  entryId: string
+): Promise<CollectionEntry | undefined> {
+  const data = await store.read();
+  return data[userId]?.find((entry) => entry.id === entryId);
+}
+
+/**
+ * Adds cards to a user's collection, skipping cards already in it and
+ * cards without a CardSight ID
+ *
+ * @returns The cards that were added
+ */
+export async function addToCollection(
+  userId: string,
+  cards: DetectedCard[]
+): Promise<DetectedCard[]> {
+  const added: DetectedCard[] = [];
+  await store.update((data) => {
+    const entries = (data[userId] ??= []);
+    for (const card of cards) {
+      const id = getCollectionId(card);
+      if (id && !entries.some((entry) => entry.id === id)) {
+        entries.push({ id, card, addedAt: new Date().toISOString() });
+        added.push(card);
+      }
+    }
+  });
+  return added;
+}
+
+/**
+ * Removes a card from a user's collection
+ *
+ * @returns The removed entry, or undefined if the card was not in the collection
+ */
+export async function removeFromCollection(
+  userId: string,
+  entryId: string
+): Promise<CollectionEntry | undefined> {
+  let removed: CollectionEntry | undefined;
+  await store.update((data) => {
+    const entries = data[userId] ?? [];
+    const index = entries.findIndex((entry) => entry.id === entryId);
+    if (index !== -1) {
+      [removed] = entries.splice(index, 1);
+    }
+  });
+  return removed;
+}
@@ -0,0 +1,216 @@
+/**
+ * Command Registration
+ *
+ * Syncs the bot's application commands with Discord. Commands are registered
+ * globally, or to the configured development guilds where changes show up
+ * instantly. Existing definitions are fetched first and only replaced when
+ * they differ, so restarts don't re-register unchanged commands.
+ */
+
+import type {
+  RESTGetAPIApplicationCommandsResult,
+  RESTPutAPIApplicationCommandsJSONBody,
+} from 'discord.js';
+import { REST, Routes } from 'discord.js';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+import type { CommandRegistry } from '../types/index.js';
+
+/**
+ * Where a set of commands is registered
+ */
+export interface RegistrationTarget {
+  // Human-readable description for logs
+  label: string;
+  route: `/${string}`;
+}
+
+/**
+ * Outcome of syncing one registration target
+ */
+export interface SyncResult {
+  target: string;
+  changed: boolean;
+  commandCount: number;
+}
+
+/**
+ * Top-level command fields that are compared when diffing
+ */
+const COMPARED_FIELDS = [
+  'type',
+  'name',
+  'name_localizations',
+  'description',
+  'description_localizations',
+  'options',
+  'default_member_permissions',
+  'nsfw',
+  'contexts',
+  'integration_types',
+];
+
+/**
+ * Fields Discord fills in with defaults when a command leaves them out
+ */
+const DEFAULTED_FIELDS = new Set(['nsfw', 'contexts', 'integration_types']);
+
+/**
+ * Gets the registration targets: the development guilds if configured, otherwise global
+ */
+export function getRegistrationTargets(): RegistrationTarget[] {
+  const { clientId } = config.discord;
+
+  if (config.registration.devGuildIds.length > 0) {
+    return config.registration.devGuildIds.map((guildId) => ({
+      label: `guild ${guildId}`,
+      route: Routes.applicationGuildCommands(clientId, guildId),
+    }));
+  }
+
+  return [{ label: 'global', route: Routes.applicationCommands(clientId) }];
+}
+
+/**
+ * Converts every registered command to its JSON definition
+ */
+export function getCommandDefinitions(
+  commands: CommandRegistry
+): RESTPutAPIApplicationCommandsJSONBody {
+  return [
+    ...Array.from(commands.chatInput.values()).map((command) => command.data.toJSON()),
+    ...Array.from(commands.messageContextMenu.values()).map((command) => command.data.toJSON()),
+  ];
+}
+
+/**
+ * Normalizes a value for comparison: empty values and Discord's defaults
+ * (null, false, empty strings, objects and arrays) all become undefined, and
+ * object keys are sorted
+ */
+function normalize(value: unknown): unknown {
+  if (value === null || value === false || value === '') {
+    return undefined;
+  }
+
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map(normalize) : undefined;
+  }
+
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .map(([key, entryValue]) => [key, normalize(entryValue)] as const)
+      .filter(([, entryValue]) => entryValue !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+
+  return value;
+}
+
+/**
+ * Builds a comparable snapshot of a command definition
+ *
+ * @param command - The command definition
+ * @param reference - The local definition; defaulted fields it leaves out are ignored
+ */
+function snapshotCommand(
+  command: Record<string, unknown>,
+  reference: Record<string, unknown>
+): string {
+  const fields = COMPARED_FIELDS.filter(
+    (field) => !DEFAULTED_FIELDS.has(field) || reference[field] !== undefined
+  );
+
+  return JSON.stringify(
+    normalize(Object.fromEntries(fields.map((field) => [field, command[field] ?? null])))
+  );
+}
+
+/**
+ * Checks whether the registered commands differ from the local definitions
+ */
+export function commandsDiffer(
+  local: RESTPutAPIApplicationCommandsJSONBody,
+  remote: RESTGetAPIApplicationCommandsResult
+): boolean {
+  if (local.length !== remote.length) {
+    return true;
+  }
+
+  const key = (command: { type?: number; name: string }): string =>
+    `${command.type ?? 1}:${command.name}`;
+  const remoteByKey = new Map(remote.map((command) => [key(command), command]));
+
+  return local.some((command) => {
+    const registered = remoteByKey.get(key(command));
+    if (!registered) {
+      return true;
+    }
+
+    // Chat input commands omit their type locally; Discord reports it explicitly
+    const localCommand = { ...command, type: command.type ?? 1 } as Record<string, unknown>;
+    return (
+      snapshotCommand(localCommand, localCommand) !==
+      snapshotCommand(registered as unknown as Record<string, unknown>, localCommand)
+    );
+  });
+}
+
+/**
+ * Registers commands with Discord, skipping targets that are already up to date
+ *
+ * @param commands - The commands to register
+ * @param options - Pass `force` to push definitions even when unchanged
+ */
+export async function syncCommands(
+  commands: CommandRegistry,
+  options: { force?: boolean } = {}
+): Promise<SyncResult[]> {
+  const rest = new REST({ version: '10' }).setToken(config.discord.token);
+  const definitions = getCommandDefinitions(commands);
+  const results: SyncResult[] = [];
+
+  for (const target of getRegistrationTargets()) {
+    const existing = (await rest.get(target.route, {
+      query: new URLSearchParams({ with_localizations: 'true' }),
+    })) as RESTGetAPIApplicationCommandsResult;
+
+    if (!options.force && !commandsDiffer(definitions, existing)) {
+      logger.info(`Application commands are up to date (${target.label})`, {
+        commandCount: existing.length,
+      });
+      results.push({ target: target.label, changed: false, commandCount: existing.length });
+      continue;
+    }
+
+    const registered = (await rest.put(target.route, {
+      body: definitions,
+    })) as RESTGetAPIApplicationCommandsResult;
+
+    logger.info(
+      `Successfully registered ${registered.length} application (/) commands (${target.label}).`
+    );
+    registered.forEach((command) => {
+      logger.info(
+        command.description ? `  - /${command.name}: ${command.description}` : `  - ${command.name}`
+      );
+    });
+
+    results.push({ target: target.label, changed: true, commandCount: registered.length });
+  }
+
+  return results;
+}
+
+/**
+ * Removes all of the bot's commands from the registration targets
+ */
+export async function unregisterCommands(): Promise<void> {
+  const rest = new REST({ version: '10' }).setToken(config.discord.token);
+
+  for (const target of getRegistrationTargets()) {
+    await rest.put(target.route, { body: [] });
+    logger.info(`Removed all application commands (${target.label})`);
+  }
+}
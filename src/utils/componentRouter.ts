@@ -0,0 +1,178 @@
+/**
+ * Component Router
+ *
+ * Encodes state into component custom IDs and dispatches button, select-menu
+ * and modal-submit interactions to handlers by custom ID prefix.
+ *
+ * Custom IDs have the form `prefix|ownerId|expiresAt|arg1|arg2...`, where the
+ * owner and expiry are optional and arguments are URI-encoded. Discord limits
+ * custom IDs to 100 characters, so larger state goes through the in-memory
+ * stash and only its token is encoded.
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { MessageComponentInteraction, ModalSubmitInteraction } from 'discord.js';
+import { createErrorEmbed } from './embedBuilder.js';
+import { logDebug, logError, logInteraction } from './logger.js';
+import { recordComponentInteraction } from './metrics.js';
+import { replyWithError } from './interactionReply.js';
+import type { ComponentHandler, ComponentState } from '../types/index.js';
+import { resolveLocale, t } from '../i18n/index.js';
+
+/**
+ * Discord's maximum custom ID length
+ */
+const MAX_CUSTOM_ID_LENGTH = 100;
+
+const SEPARATOR = '|';
+
+/**
+ * Options for encoding a custom ID
+ */
+export interface EncodeCustomIdOptions {
+  // Only this user may use the component
+  ownerId?: string;
+  // Milliseconds until the component expires
+  ttlMs?: number;
+}
+
+/**
+ * Encodes a prefix, arguments and access rules into a component custom ID
+ *
+ * @throws If the encoded custom ID exceeds Discord's length limit
+ */
+export function encodeCustomId(
+  prefix: string,
+  args: string[] = [],
+  options: EncodeCustomIdOptions = {}
+): string {
+  const expiresAt = options.ttlMs ? (Date.now() + options.ttlMs).toString(36) : '';
+  const customId = [prefix, options.ownerId ?? '', expiresAt, ...args.map(encodeURIComponent)].join(
+    SEPARATOR
+  );
+
+  if (customId.length > MAX_CUSTOM_ID_LENGTH) {
+    throw new Error(`Custom ID for ${prefix} is ${customId.length} characters, max is 100`);
+  }
+
+  return customId;
+}
+
+/**
+ * Decodes a custom ID produced by encodeCustomId
+ *
+ * @returns The prefix and decoded state
+ */
+export function decodeCustomId(customId: string): { prefix: string; state: ComponentState } {
+  const [prefix, ownerId, expiresAt, ...args] = customId.split(SEPARATOR);
+
+  return {
+    prefix,
+    state: {
+      ownerId: ownerId || undefined,
+      expiresAt: expiresAt ? parseInt(expiresAt, 36) : undefined,
+      args: args.map(decodeURIComponent),
+    },
+  };
+}
+
+// In-memory storage for component state too large for a custom ID
+const stash = new Map<string, { value: unknown; expiresAt: number }>();
+
+/**
+ * Stores component state in memory and returns a short token for the custom ID
+ *
+ * Stashed state does not survive restarts; handlers must cope with a missing token.
+ */
+export function stashComponentState(value: unknown, ttlMs: number): string {
+  const now = Date.now();
+
+  // Drop expired entries so the stash cannot grow without bound
+  for (const [token, entry] of stash) {
+    if (entry.expiresAt <= now) {
+      stash.delete(token);
+    }
+  }
+
+  const token = randomBytes(6).toString('base64url');
+  stash.set(token, { value, expiresAt: now + ttlMs });
+  return token;
+}
+
+/**
+ * Retrieves stashed component state
+ *
+ * @returns The stashed value, or undefined if it expired or never existed
+ */
+export function getStashedComponentState<T>(token: string): T | undefined {
+  const entry = stash.get(token);
+  if (!entry || entry.expiresAt <= Date.now()) {
+    stash.delete(token);
+    return undefined;
+  }
+  return entry.value as T;
+}
+
+/**
+ * Routes a component or modal interaction to the handler owning its prefix
+ *
+ * Interactions without a registered handler are ignored, such as buttons on
+ * messages posted before their handler was removed.
+ */
+export async function routeComponentInteraction(
+  interaction: MessageComponentInteraction | ModalSubmitInteraction,
+  handlers: Map<string, ComponentHandler>
+): Promise<void> {
+  const { prefix, state } = decodeCustomId(interaction.customId);
+  const handler = handlers.get(prefix);
+  const locale = resolveLocale(interaction);
+
+  if (!handler) {
+    logDebug('No component handler registered', { customId: interaction.customId });
+    return;
+  }
+
+  if (state.expiresAt !== undefined && state.expiresAt <= Date.now()) {
+    await interaction.reply({
+      embeds: [createErrorEmbed(t(locale, 'error.componentExpired'), undefined, locale)],
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (state.ownerId && state.ownerId !== interaction.user.id) {
+    await interaction.reply({
+      embeds: [createErrorEmbed(t(locale, 'error.componentNotOwner'), undefined, locale)],
+      ephemeral: true,
+    });
+    return;
+  }
+
+  try {
+    logInteraction(interaction, `component-${prefix}`);
+    recordComponentInteraction(prefix);
+
+    if (interaction.isButton() && handler.handleButton) {
+      await handler.handleButton(interaction, state);
+    } else if (interaction.isAnySelectMenu() && handler.handleSelectMenu) {
+      await handler.handleSelectMenu(interaction, state);
+    } else if (interaction.isModalSubmit() && handler.handleModalSubmit) {
+      await handler.handleModalSubmit(interaction, state);
+    } else {
+      logDebug('Component handler does not support interaction type', {
+        customId: interaction.customId,
+        type: interaction.type,
+      });
+    }
+  } catch (error) {
+    logError(`Error handling component ${prefix}`, error, {
+      user: interaction.user.tag,
+      userId: interaction.user.id,
+    });
+
+    await replyWithError(
+      interaction,
+      createErrorEmbed(t(locale, 'error.componentFailed'), undefined, locale)
+    );
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Correlation Context
+ *
+ * Carries one context per interaction (or auto-identified message) through
+ * every async call made while handling it, using AsyncLocalStorage. The logger
+ * adds the context to each line it writes, so a failure can be traced from the
+ * Discord interaction through to the CardSight requests it made. Error embeds
+ * show the context's short support code, which users can quote when reporting
+ * a problem and which appears on every related log line.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomInt } from 'node:crypto';
+
+/**
+ * What a piece of work was doing, attached to every log line it writes
+ */
+export interface CorrelationContext {
+  // Short code shown to users and logged with every line
+  supportCode: string;
+  interactionId?: string;
+  messageId?: string;
+  guildId: string | null;
+  channelId: string | null;
+  userId?: string;
+  command?: string;
+  // CardSight request IDs seen so far, in order
+  cardsightRequestIds: string[];
+}
+
+// Unambiguous characters: no 0/O or 1/I/L
+const SUPPORT_CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const SUPPORT_CODE_LENGTH = 8;
+
+const storage = new AsyncLocalStorage<CorrelationContext>();
+
+/**
+ * Generates a short, readable support code such as "K7QM-29XD"
+ */
+export function createSupportCode(): string {
+  const characters = Array.from(
+    { length: SUPPORT_CODE_LENGTH },
+    () => SUPPORT_CODE_ALPHABET[randomInt(SUPPORT_CODE_ALPHABET.length)]
+  ).join('');
+  return `${characters.slice(0, 4)}-${characters.slice(4)}`;
+}
+
+/**
+ * Runs a function with a new correlation context
+ *
+ * The context is visible to everything the function calls, including after
+ * awaits, timers and queued work bound with AsyncResource.
+ */
+export function runWithCorrelation<T>(
+  context: Omit<CorrelationContext, 'supportCode' | 'cardsightRequestIds'>,
+  fn: () => T
+): T {
+  return storage.run({ ...context, supportCode: createSupportCode(), cardsightRequestIds: [] }, fn);
+}
+
+/**
+ * Gets the current correlation context, or undefined outside of one
+ */
+export function getCorrelationContext(): CorrelationContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Gets the current support code, or undefined outside of a correlation context
+ */
+export function getSupportCode(): string | undefined {
+  return storage.getStore()?.supportCode;
+}
+
+/**
+ * Records a CardSight request ID in the current context
+ */
+export function recordCardSightRequestId(requestId: string | undefined): void {
+  const context = storage.getStore();
+  if (requestId && context && !context.cardsightRequestIds.includes(requestId)) {
+    context.cardsightRequestIds.push(requestId);
+  }
+}
+
+/**
+ * Flattens the current context into log metadata, omitting unset fields
+ */
+export function getCorrelationLogFields(): Record<string, unknown> | undefined {
+  const context = storage.getStore();
+  if (!context) {
+    return undefined;
+  }
+
+  const { cardsightRequestIds, ...fields } = context;
+  return Object.fromEntries(
+    Object.entries({
+      ...fields,
+      cardsightRequestIds: cardsightRequestIds.length > 0 ? [...cardsightRequestIds] : undefined,
+    }).filter(([, value]) => value !== undefined && value !== null)
+  );
+}
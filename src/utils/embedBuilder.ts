@@ -2,36 +2,135 @@
  * Discord Embed Builder
  *
  * Creates rich Discord embeds for displaying card identification results.
+ * Every builder takes the locale to render in and defaults to English.
  */
 
 import { EmbedBuilder } from 'discord.js';
 import { ConfidenceColors, ConfidenceEmojis } from '../types/index.js';
-import type { CardDetection, CardIdentificationResult } from './cardsight.js';
+import type { AuditEvent, AuditSeverity } from './auditLog.js';
+import type { RateLimitScope } from './rateLimiter.js';
+import type {
+  CardDetection,
+  CardIdentificationResult,
+  CatalogCard,
+  CatalogSearchResult,
+} from './cardsight.js';
 import { formatCardDisplay } from './cardsight.js';
+import { getCorrelationContext, getSupportCode } from './correlation.js';
+import type { ImageIdentification } from './identification.js';
+import type { CollectionEntry, CollectionSort } from './collectionStore.js';
+import type { HistoryEntry } from './historyStore.js';
+import type { GuildSettings } from './guildSettings.js';
+import type { QueuePosition } from './workQueue.js';
+import { DEFAULT_LOCALE, t, type SupportedLocale } from '../i18n/index.js';
+
+/**
+ * Discord's maximum length for an embed field value
+ */
+const MAX_FIELD_VALUE_LENGTH = 1024;
+
+/**
+ * Discord's maximum length for an embed description
+ */
+const MAX_DESCRIPTION_LENGTH = 4096;
 
 /**
  * Creates an embed for successful card identification
  *
  * @param result - The identification result
  * @param imageUrl - Optional URL of the uploaded image for thumbnail
+ * @param locale - Language to render in
  * @returns Discord embed
  */
 export function createIdentificationEmbed(
   result: CardIdentificationResult,
-  imageUrl?: string
+  imageUrl?: string,
+  locale: SupportedLocale = DEFAULT_LOCALE
 ): EmbedBuilder {
   // Handle no detections
   if (result.detections.length === 0) {
-    return createNoDetectionEmbed();
+    return createNoDetectionEmbed(locale);
   }
 
   // Handle single detection
   if (result.detections.length === 1) {
-    return createSingleCardEmbed(result.detections[0], result.processingTime, imageUrl);
+    return createSingleCardEmbed(
+      result.detections[0],
+      result.processingTime,
+      locale,
+      imageUrl,
+      result.cached
+    );
   }
 
   // Handle multiple detections
-  return createMultipleCardsEmbed(result.detections, result.processingTime, imageUrl);
+  return createMultipleCardsEmbed(
+    result.detections,
+    result.processingTime,
+    locale,
+    imageUrl,
+    result.cached
+  );
+}
+
+/**
+ * Creates the pages for an identification result: a summary page followed by
+ * one full detail page per detected card
+ *
+ * Results with zero or one detection produce a single page.
+ *
+ * @param result - The identification result
+ * @param imageUrl - Optional URL of the uploaded image for thumbnail
+ * @param locale - Language to render in
+ * @returns Discord embeds, one per page
+ */
+export function createIdentificationPages(
+  result: CardIdentificationResult,
+  imageUrl?: string,
+  locale: SupportedLocale = DEFAULT_LOCALE
+): EmbedBuilder[] {
+  if (result.detections.length <= 1) {
+    return [createIdentificationEmbed(result, imageUrl, locale)];
+  }
+
+  return [
+    createIdentificationEmbed(result, imageUrl, locale),
+    ...result.detections.map((detection, index) =>
+      createCardDetailEmbed(
+        detection,
+        result,
+        t(locale, 'identify.page.card', { index: index + 1, count: result.detections.length }),
+        imageUrl,
+        locale
+      )
+    ),
+  ];
+}
+
+/**
+ * Creates a full detail embed for one detection of a result
+ *
+ * @param detection - The detection to show
+ * @param result - The result the detection belongs to
+ * @param title - The embed title
+ * @param imageUrl - Optional URL of the source image for thumbnail
+ * @param locale - Language to render in
+ * @returns Discord embed
+ */
+export function createCardDetailEmbed(
+  detection: CardDetection,
+  result: CardIdentificationResult,
+  title: string,
+  imageUrl?: string,
+  locale: SupportedLocale = DEFAULT_LOCALE
+): EmbedBuilder {
+  return createSingleCardEmbed(
+    detection,
+    result.processingTime,
+    locale,
+    imageUrl,
+    result.cached
+  ).setTitle(title);
 }
 
 /**
@@ -40,32 +139,34 @@ export function createIdentificationEmbed(
 function createSingleCardEmbed(
   detection: CardDetection,
   processingTime: number,
-  imageUrl?: string
+  locale: SupportedLocale,
+  imageUrl?: string,
+  cached = false
 ): EmbedBuilder {
   const { card, confidence } = detection;
 
   const embed = new EmbedBuilder()
-    .setTitle('📸 Card Identified!')
+    .setTitle(t(locale, 'identify.single.title'))
     .setColor(ConfidenceColors[confidence])
     .addFields(
       {
-        name: '**Card Details**',
-        value: formatCardDetails(card),
+        name: t(locale, 'card.details'),
+        value: formatCardDetails(card, locale),
         inline: false,
       },
       {
-        name: '**Set Information**',
-        value: formatSetInfo(card),
+        name: t(locale, 'card.setInformation'),
+        value: formatSetInfo(card, locale),
         inline: true,
       },
       {
-        name: '**Confidence**',
-        value: `${ConfidenceEmojis[confidence]} ${confidence}`,
+        name: t(locale, 'card.confidence'),
+        value: `${ConfidenceEmojis[confidence]} ${t(locale, `confidence.${confidence}`)}`,
         inline: true,
       }
     )
     .setFooter({
-      text: `Powered by CardSight AI • ${(processingTime / 1000).toFixed(2)}s`,
+      text: formatResultFooter(processingTime, cached, locale),
     })
     .setTimestamp();
 
@@ -77,8 +178,8 @@ function createSingleCardEmbed(
   // Add parallel information if applicable
   if (card.parallel) {
     embed.addFields({
-      name: '**Parallel Information**',
-      value: formatParallelInfo(card),
+      name: t(locale, 'card.parallelInformation'),
+      value: formatParallelInfo(card, locale),
       inline: false,
     });
   }
@@ -87,19 +188,30 @@ function createSingleCardEmbed(
 }
 
 /**
- * Creates an embed for multiple card detections
+ * Creates a summary embed for multiple card detections
+ *
+ * Cards are listed one line each in the description, which holds far more
+ * than the 25-field limit; lines that don't fit are summarized as "…and N more".
  */
 function createMultipleCardsEmbed(
   detections: CardDetection[],
   processingTime: number,
-  imageUrl?: string
+  locale: SupportedLocale,
+  imageUrl?: string,
+  cached = false
 ): EmbedBuilder {
+  const header = `${t(locale, 'identify.multiple.header')}\n`;
+  const lines = detections.map(
+    ({ card, confidence }, index) =>
+      `**${index + 1}.** ${ConfidenceEmojis[confidence]} ${formatCardDisplay(card)}`
+  );
+
   const embed = new EmbedBuilder()
-    .setTitle(`📸 ${detections.length} Cards Identified!`)
+    .setTitle(t(locale, 'identify.multiple.title', { count: detections.length }))
     .setColor(ConfidenceColors.Info)
-    .setDescription('Multiple cards detected in the image:')
+    .setDescription(header + truncateLines(lines, MAX_DESCRIPTION_LENGTH - header.length, locale))
     .setFooter({
-      text: `Powered by CardSight AI • ${(processingTime / 1000).toFixed(2)}s`,
+      text: formatResultFooter(processingTime, cached, locale),
     })
     .setTimestamp();
 
@@ -108,15 +220,86 @@ function createMultipleCardsEmbed(
     embed.setThumbnail(imageUrl);
   }
 
-  // Add each detection as a field
-  detections.forEach((detection, index) => {
-    const { card, confidence } = detection;
-    const cardName = formatCardDisplay(card);
-    const confidenceStr = `${ConfidenceEmojis[confidence]} ${confidence} Confidence`;
+  return embed;
+}
+
+/**
+ * Joins lines with newlines, replacing the lines that don't fit in
+ * `maxLength` with an "…and N more" marker
+ */
+function truncateLines(
+  lines: string[],
+  maxLength: number,
+  locale: SupportedLocale = DEFAULT_LOCALE
+): string {
+  const kept: string[] = [];
+  let length = 0;
+
+  for (const [index, line] of lines.entries()) {
+    // Keep room for the "…and N more" marker
+    if (length + line.length + 1 > maxLength - 20) {
+      kept.push(t(locale, 'identify.truncated', { count: lines.length - index }));
+      break;
+    }
+
+    kept.push(line);
+    length += line.length + 1;
+  }
+
+  return kept.join('\n');
+}
 
+/**
+ * Creates a combined embed for a batch of images, grouping detections by source image
+ *
+ * @param identifications - The per-image identification results, in upload order
+ * @param locale - Language to render in
+ * @returns Discord embed
+ */
+export function createBatchIdentificationEmbed(
+  identifications: ImageIdentification[],
+  locale: SupportedLocale = DEFAULT_LOCALE
+): EmbedBuilder {
+  const totalCards = identifications.reduce(
+    (count, { result }) => count + result.detections.length,
+    0
+  );
+  const failedImages = identifications.filter(({ result }) => !result.success).length;
+  const totalTime = identifications.reduce(
+    (time, { result }) => Math.max(time, result.processingTime),
+    0
+  );
+  const cachedImages = identifications.filter(({ result }) => result.cached).length;
+
+  const embed = new EmbedBuilder()
+    .setTitle(
+      t(locale, totalCards === 1 ? 'identify.batch.title.one' : 'identify.batch.title.other', {
+        count: totalCards,
+      })
+    )
+    .setColor(
+      failedImages === identifications.length ? ConfidenceColors.Error : ConfidenceColors.Info
+    )
+    .setDescription(
+      t(locale, 'identify.batch.description', { count: identifications.length }) +
+        (failedImages > 0 ? t(locale, 'identify.batch.failed', { count: failedImages }) : '') +
+        ':'
+    )
+    .setFooter({
+      text:
+        t(locale, 'footer.processingTime', { seconds: (totalTime / 1000).toFixed(2) }) +
+        (cachedImages > 0 ? t(locale, 'identify.batch.cached', { count: cachedImages }) : ''),
+    })
+    .setTimestamp();
+
+  // Add one field per source image
+  identifications.forEach(({ source, result }, index) => {
     embed.addFields({
-      name: `Card ${index + 1}`,
-      value: `**${cardName}**\n${confidenceStr}`,
+      name: t(locale, 'identify.batch.image', {
+        index: index + 1,
+        filename: source.filename,
+      }).substring(0, 256),
+      value: formatBatchImageResult(result, locale),
       inline: false,
     });
   });
@@ -124,23 +307,66 @@ function createMultipleCardsEmbed(
   return embed;
 }
 
+/**
+ * Formats the detections (or error) for one image in a batch
+ */
+function formatBatchImageResult(result: CardIdentificationResult, locale: SupportedLocale): string {
+  if (!result.success) {
+    return `❌ ${formatIdentificationError(result, locale)}`;
+  }
+
+  if (result.detections.length === 0) {
+    return `❌ ${t(locale, 'identify.batch.noCards')}`;
+  }
+
+  const lines = result.detections.map(
+    ({ card, confidence }) => `${ConfidenceEmojis[confidence]} **${formatCardDisplay(card)}**`
+  );
+
+  return truncateLines(lines, MAX_FIELD_VALUE_LENGTH, locale);
+}
+
+/**
+ * Formats the user-facing error message of an unsuccessful result
+ *
+ * @param result - The unsuccessful identification result
+ * @param locale - Language to render in
+ */
+export function formatIdentificationError(
+  result: CardIdentificationResult,
+  locale: SupportedLocale = DEFAULT_LOCALE
+): string {
+  if (result.errorKey) {
+    return t(locale, result.errorKey);
+  }
+  return result.error || t(locale, 'error.identificationFailed');
+}
+
+/**
+ * Formats the footer of an identification embed
+ *
+ * Cached results show that instead of the (near-zero) lookup time.
+ */
+function formatResultFooter(
+  processingTime: number,
+  cached: boolean,
+  locale: SupportedLocale
+): string {
+  return cached
+    ? t(locale, 'footer.cached')
+    : t(locale, 'footer.processingTime', { seconds: (processingTime / 1000).toFixed(2) });
+}
+
 /**
  * Creates an embed for when no cards are detected
  */
-function createNoDetectionEmbed(): EmbedBuilder {
+function createNoDetectionEmbed(locale: SupportedLocale): EmbedBuilder {
   return new EmbedBuilder()
-    .setTitle('❌ No Cards Detected')
+    .setTitle(t(locale, 'noDetection.title'))
     .setColor(ConfidenceColors.Error)
-    .setDescription(
-      'No trading cards were detected in the image.\n\n' +
-        '**Tips for better results:**\n' +
-        '• Ensure the card is clearly visible\n' +
-        '• Use good lighting\n' +
-        '• Avoid blurry or angled photos\n' +
-        '• Try to capture the entire card'
-    )
+    .setDescription(t(locale, 'noDetection.description'))
     .setFooter({
-      text: 'Powered by CardSight AI',
+      text: t(locale, 'footer.poweredBy'),
     })
     .setTimestamp();
 }
@@ -148,88 +374,692 @@ function createNoDetectionEmbed(): EmbedBuilder {
 /**
  * Creates an error embed
  *
+ * The footer shows the current correlation context's support code, which
+ * matches the log lines for the failed request.
+ *
  * @param errorMessage - The error message to display
  * @param requestId - Optional request ID for debugging
+ * @param locale - Language to render in
  * @returns Discord embed
  */
-export function createErrorEmbed(errorMessage: string, requestId?: string): EmbedBuilder {
+export function createErrorEmbed(
+  errorMessage: string,
+  requestId?: string,
+  locale: SupportedLocale = DEFAULT_LOCALE
+): EmbedBuilder {
   const embed = new EmbedBuilder()
-    .setTitle('❌ Error')
+    .setTitle(t(locale, 'error.title'))
     .setColor(ConfidenceColors.Error)
     .setDescription(errorMessage)
     .setTimestamp();
 
-  if (requestId) {
-    embed.setFooter({
-      text: `Request ID: ${requestId}`,
-    });
+  const supportCode = getSupportCode();
+  const footer = [
+    supportCode && t(locale, 'error.supportCode', { code: supportCode }),
+    requestId && t(locale, 'error.requestId', { id: requestId }),
+  ]
+    .filter(Boolean)
+    .join(' • ');
+  if (footer) {
+    embed.setFooter({ text: footer });
   }
 
   return embed;
 }
 
+/**
+ * Creates an error embed for an unsuccessful identification result
+ *
+ * @param result - The unsuccessful identification result
+ * @param locale - Language to render in
+ * @returns Discord embed
+ */
+export function createIdentificationErrorEmbed(
+  result: CardIdentificationResult,
+  locale: SupportedLocale = DEFAULT_LOCALE
+): EmbedBuilder {
+  return createErrorEmbed(formatIdentificationError(result, locale), result.requestId, locale);
+}
+
+/**
+ * Creates an embed summarizing a guild's settings
+ *
+ * @param settings - The guild's effective settings
+ * @param locale - Language to render in
+ * @returns Discord embed
+ */
+export function createGuildSettingsEmbed(
+  settings: GuildSettings,
+  locale: SupportedLocale = DEFAULT_LOCALE
+): EmbedBuilder {
+  return new EmbedBuilder()
+    .setTitle(t(locale, 'settings.title'))
+    .setColor(ConfidenceColors.Info)
+    .addFields(
+      {
+        name: t(locale, 'settings.results'),
+        value: t(
+          locale,
+          settings.ephemeralResults ? 'settings.results.private' : 'settings.results.public'
+        ),
+        inline: true,
+      },
+      {
+        name: t(locale, 'settings.minConfidence'),
+        value: `${ConfidenceEmojis[settings.minConfidence]} ${t(locale, `confidence.${settings.minConfidence}`)}`,
+        inline: true,
+      },
+      {
+        name: t(locale, 'settings.thumbnails'),
+        value: t(
+          locale,
+          settings.showThumbnails ? 'settings.thumbnails.shown' : 'settings.thumbnails.hidden'
+        ),
+        inline: true,
+      },
+      {
+        name: t(locale, 'settings.auditLog'),
+        value: settings.auditChannelId
+          ? `<#${settings.auditChannelId}> • ${t(locale, `settings.auditLog.level.${settings.auditLevel}`)}`
+          : t(locale, 'settings.auditLog.off'),
+        inline: true,
+      },
+      {
+        name: t(locale, 'settings.allowedChannels'),
+        value:
+          settings.allowedChannelIds.length > 0
+            ? truncateLines(
+                settings.allowedChannelIds.map((id) => `<#${id}>`),
+                MAX_FIELD_VALUE_LENGTH,
+                locale
+              )
+            : t(locale, 'settings.allChannels'),
+        inline: false,
+      }
+    )
+    .setTimestamp();
+}
+
+/**
+ * Embed colors for audit-log severities
+ */
+const AUDIT_COLORS: Record<AuditSeverity, number> = {
+  error: ConfidenceColors.Error,
+  warning: ConfidenceColors.Medium,
+  info: ConfidenceColors.Info,
+};
+
+/**
+ * Creates a compact audit-log embed for a guild's moderators
+ *
+ * The command and support code are taken from the current correlation context.
+ *
+ * @param event - What happened
+ * @param severity - How serious it is, which sets the color
+ * @param locale - Language to render in
+ * @returns Discord embed
+ */
+export function createAuditLogEmbed(
+  event: AuditEvent,
+  severity: AuditSeverity,
+  locale: SupportedLocale = DEFAULT_LOCALE
+): EmbedBuilder {
+  const context = getCorrelationContext();
+  const user = `<@${event.user.id}> (${event.user.tag})`;
+
+  const embed = new EmbedBuilder()
+    .setColor(AUDIT_COLORS[severity])
+    .setDescription(
+      event.channelId ? t(locale, 'audit.actor', { user, channel: `<#${event.channelId}>` }) : user
+    )
+    .setTimestamp();
+
+  if (context?.command) {
+    embed.addFields({ name: t(locale, 'audit.command'), value: context.command, inline: true });
+  }
+
+  switch (event.type) {
+    case 'identification': {
+      embed.setTitle(
+        t(
+          locale,
+          severity === 'error' ? 'audit.identificationFailed.title' : 'audit.identification.title'
+        )
+      );
+
+      const [firstImage] = event.identifications;
+      if (firstImage) {
+        embed.setThumbnail(firstImage.source.url);
+      }
+
+      embed.addFields(
+        event.identifications.map(({ source, result }, index) => {
+          const lines = result.success
+            ? result.detections.map(
+                (detection) =>
+                  `${ConfidenceEmojis[detection.confidence]} ${formatCardDisplay(detection.card)}`
+              )
+            : [`❌ ${formatIdentificationError(result, locale)}`];
+          if (result.success && lines.length === 0) {
+            lines.push(t(locale, 'identify.batch.noCards'));
+          }
+          if (result.requestId) {
+            lines.push(t(locale, 'error.requestId', { id: result.requestId }));
+          }
+
+          return {
+            name: t(locale, 'identify.batch.image', {
+              index: index + 1,
+              filename: source.filename,
+            }),
+            value: truncateLines(lines, MAX_FIELD_VALUE_LENGTH, locale),
+          };
+        })
+      );
+      break;
+    }
+
+    case 'command-error':
+      embed
+        .setTitle(t(locale, 'audit.commandError.title'))
+        .setDescription(
+          `${embed.data.description ?? ''}\n\n${t(locale, 'audit.commandError.description')}`
+        );
+      break;
+
+    case 'rate-limited': {
+      const resetAt = Math.ceil((Date.now() + event.retryAfterMs) / 1000);
+      embed.setTitle(t(locale, 'audit.rateLimited.title')).addFields(
+        {
+          name: t(locale, 'audit.scope'),
+          value: t(locale, `audit.scope.${event.scope}`),
+          inline: true,
+        },
+        { name: t(locale, 'audit.resets'), value: `<t:${resetAt}:R>`, inline: true }
+      );
+      break;
+    }
+  }
+
+  if (context) {
+    embed.setFooter({ text: t(locale, 'error.supportCode', { code: context.supportCode }) });
+  }
+
+  return embed;
+}
+
+/**
+ * Creates a generic informational embed
+ *
+ * @param title - The embed title
+ * @param description - The embed body
+ * @param locale - Language to render in
+ * @returns Discord embed
+ */
+export function createInfoEmbed(
+  title: string,
+  description: string,
+  locale: SupportedLocale = DEFAULT_LOCALE
+): EmbedBuilder {
+  return new EmbedBuilder()
+    .setTitle(title)
+    .setColor(ConfidenceColors.Info)
+    .setDescription(description)
+    .setFooter({
+      text: t(locale, 'footer.poweredBy'),
+    })
+    .setTimestamp();
+}
+
+/**
+ * Creates an embed shown while CardSight is degraded and calls are failing fast
+ *
+ * @param locale - Language to render in
+ * @returns Discord embed
+ */
+export function createServiceDegradedEmbed(locale: SupportedLocale = DEFAULT_LOCALE): EmbedBuilder {
+  return new EmbedBuilder()
+    .setTitle(t(locale, 'degraded.title'))
+    .setColor(ConfidenceColors.Medium)
+    .setDescription(t(locale, 'degraded.description'))
+    .setFooter({
+      text: t(locale, 'footer.poweredBy'),
+    })
+    .setTimestamp();
+}
+
+/**
+ * Creates the embed shown when the identification queue is full
+ */
+export function createQueueFullEmbed(locale: SupportedLocale = DEFAULT_LOCALE): EmbedBuilder {
+  return new EmbedBuilder()
+    .setTitle(t(locale, 'queueFull.title'))
+    .setColor(ConfidenceColors.Medium)
+    .setDescription(t(locale, 'queueFull.description'))
+    .setFooter({
+      text: t(locale, 'footer.poweredBy'),
+    })
+    .setTimestamp();
+}
+
+/**
+ * Creates the embed shown for commands received while the bot is shutting down
+ */
+export function createRestartingEmbed(locale: SupportedLocale = DEFAULT_LOCALE): EmbedBuilder {
+  return new EmbedBuilder()
+    .setTitle(t(locale, 'restarting.title'))
+    .setColor(ConfidenceColors.Medium)
+    .setDescription(t(locale, 'restarting.description'))
+    .setTimestamp();
+}
+
+/**
+ * Creates the embed that replaces a reply whose request was cut short by a shutdown
+ */
+export function createInterruptedEmbed(locale: SupportedLocale = DEFAULT_LOCALE): EmbedBuilder {
+  return new EmbedBuilder()
+    .setTitle(t(locale, 'interrupted.title'))
+    .setColor(ConfidenceColors.Error)
+    .setDescription(t(locale, 'interrupted.description'))
+    .setTimestamp();
+}
+
+/**
+ * Creates a cooldown embed for rate-limited users
+ *
+ * @param scope - Which limit was hit
+ * @param retryAfterMs - Milliseconds until the user can try again
+ * @param locale - Language to render in
+ * @returns Discord embed
+ */
+export function createCooldownEmbed(
+  scope: RateLimitScope,
+  retryAfterMs: number,
+  locale: SupportedLocale = DEFAULT_LOCALE
+): EmbedBuilder {
+  const retryAt = Math.ceil((Date.now() + retryAfterMs) / 1000);
+
+  return new EmbedBuilder()
+    .setTitle(t(locale, 'cooldown.title'))
+    .setColor(ConfidenceColors.Medium)
+    .setDescription(
+      `${t(locale, `cooldown.${scope}`)}\n\n` +
+        t(locale, 'cooldown.retry', { time: `<t:${retryAt}:R>` })
+    )
+    .setFooter({
+      text: t(locale, 'footer.poweredBy'),
+    })
+    .setTimestamp();
+}
+
 /**
  * Creates a processing embed (shown while identifying)
+ *
+ * @param imageCount - Number of images being identified
+ * @param queuePosition - The request's place in the identification queue, if it is waiting
+ * @param locale - Language to render in
  */
-export function createProcessingEmbed(): EmbedBuilder {
+export function createProcessingEmbed(
+  imageCount = 1,
+  queuePosition: QueuePosition | null = null,
+  locale: SupportedLocale = DEFAULT_LOCALE
+): EmbedBuilder {
+  let description = t(
+    locale,
+    imageCount > 1 ? 'processing.description.other' : 'processing.description.one'
+  );
+
+  if (queuePosition) {
+    const readyAt = Math.ceil((Date.now() + queuePosition.estimatedWaitMs) / 1000);
+    description +=
+      `\n\n${t(locale, 'queue.position', { position: queuePosition.position })}\n` +
+      t(locale, 'queue.eta', { time: `<t:${readyAt}:R>` });
+  }
+
   return new EmbedBuilder()
-    .setTitle('🔍 Identifying Card...')
+    .setTitle(
+      t(locale, imageCount > 1 ? 'processing.title.other' : 'processing.title.one', {
+        count: imageCount,
+      })
+    )
     .setColor(ConfidenceColors.Info)
-    .setDescription('Please wait while we identify your card.')
+    .setDescription(description)
     .setFooter({
-      text: 'Powered by CardSight AI',
+      text: t(locale, 'footer.poweredBy'),
     })
     .setTimestamp();
 }
 
+/**
+ * Number of cards listed on each collection page
+ */
+const COLLECTION_PAGE_SIZE = 10;
+
+/**
+ * Creates the pages of a user's collection listing
+ *
+ * @param entries - The collection, already sorted
+ * @param sort - The order the entries are in, shown in the footer
+ * @param locale - Language to render in
+ * @returns One embed per page of cards
+ */
+export function createCollectionPages(
+  entries: CollectionEntry[],
+  sort: CollectionSort,
+  locale: SupportedLocale = DEFAULT_LOCALE
+): EmbedBuilder[] {
+  if (entries.length === 0) {
+    return [createInfoEmbed(t(locale, 'collection.title'), t(locale, 'collection.empty'), locale)];
+  }
+
+  const pageCount = Math.ceil(entries.length / COLLECTION_PAGE_SIZE);
+  return Array.from({ length: pageCount }, (_, pageIndex) => {
+    const start = pageIndex * COLLECTION_PAGE_SIZE;
+    const lines = entries
+      .slice(start, start + COLLECTION_PAGE_SIZE)
+      .map((entry, index) => `**${start + index + 1}.** ${formatCardDisplay(entry.card)}`);
+
+    return new EmbedBuilder()
+      .setTitle(t(locale, 'collection.title'))
+      .setColor(ConfidenceColors.Info)
+      .setDescription(truncateLines(lines, MAX_DESCRIPTION_LENGTH, locale))
+      .setFooter({
+        text: t(
+          locale,
+          entries.length === 1 ? 'collection.footer.one' : 'collection.footer.other',
+          {
+            count: entries.length,
+            sort: t(locale, `collection.sort.${sort}`),
+          }
+        ),
+      })
+      .setTimestamp();
+  });
+}
+
+/**
+ * Creates an embed showing a single card from a user's collection
+ *
+ * @param entry - The collection entry
+ * @param locale - Language to render in
+ * @returns Discord embed
+ */
+export function createCollectionCardEmbed(
+  entry: CollectionEntry,
+  locale: SupportedLocale = DEFAULT_LOCALE
+): EmbedBuilder {
+  const { card } = entry;
+  const addedAt = Math.floor(new Date(entry.addedAt).getTime() / 1000);
+
+  const embed = new EmbedBuilder()
+    .setTitle(`📚 ${formatCardDisplay(card)}`.slice(0, 256))
+    .setColor(ConfidenceColors.Info)
+    .addFields(
+      {
+        name: t(locale, 'card.details'),
+        value: formatCardDetails(card, locale),
+        inline: false,
+      },
+      {
+        name: t(locale, 'card.setInformation'),
+        value: formatSetInfo(card, locale),
+        inline: true,
+      },
+      {
+        name: t(locale, 'collection.added'),
+        value: `<t:${addedAt}:D>`,
+        inline: true,
+      }
+    )
+    .setFooter({
+      text: t(locale, 'footer.poweredBy'),
+    })
+    .setTimestamp();
+
+  if (card.parallel) {
+    embed.addFields({
+      name: t(locale, 'card.parallelInformation'),
+      value: formatParallelInfo(card, locale),
+      inline: false,
+    });
+  }
+
+  return embed;
+}
+
+/**
+ * Number of identifications listed on each history page
+ */
+const HISTORY_PAGE_SIZE = 10;
+
+/**
+ * Summarizes a history entry in one line: its first card and how many more were found
+ *
+ * @param entry - The history entry
+ * @param locale - Language to render in
+ */
+export function formatHistorySummary(
+  entry: HistoryEntry,
+  locale: SupportedLocale = DEFAULT_LOCALE
+): string {
+  const detections = entry.identifications.flatMap(({ result }) => result.detections);
+  if (detections.length === 0) {
+    return entry.identifications.some(({ result }) => !result.success)
+      ? `❌ ${t(locale, 'history.failed')}`
+      : t(locale, 'history.noCards');
+  }
+
+  const [{ card, confidence }] = detections;
+  const more =
+    detections.length > 1 ? ` ${t(locale, 'history.more', { count: detections.length - 1 })}` : '';
+  return `${ConfidenceEmojis[confidence]} ${formatCardDisplay(card)}${more}`;
+}
+
+/**
+ * Creates the pages of an identification history listing
+ *
+ * @param entries - The history entries, newest first
+ * @param scope - Whether this is the user's own history or the whole server's
+ * @param retentionDays - How long entries are kept, shown in the footer (0 for forever)
+ * @param locale - Language to render in
+ * @returns One embed per page of identifications
+ */
+export function createHistoryPages(
+  entries: HistoryEntry[],
+  scope: 'user' | 'guild',
+  retentionDays: number,
+  locale: SupportedLocale = DEFAULT_LOCALE
+): EmbedBuilder[] {
+  const title = t(locale, scope === 'guild' ? 'history.guildTitle' : 'history.title');
+  if (entries.length === 0) {
+    return [createInfoEmbed(title, t(locale, 'history.empty'), locale)];
+  }
+
+  let footer = t(locale, entries.length === 1 ? 'history.footer.one' : 'history.footer.other', {
+    count: entries.length,
+  });
+  if (retentionDays > 0) {
+    footer += ` • ${t(locale, 'history.retention', { days: retentionDays })}`;
+  }
+
+  const pageCount = Math.ceil(entries.length / HISTORY_PAGE_SIZE);
+  return Array.from({ length: pageCount }, (_, pageIndex) => {
+    const start = pageIndex * HISTORY_PAGE_SIZE;
+    const lines = entries.slice(start, start + HISTORY_PAGE_SIZE).map((entry, index) => {
+      const createdAt = Math.floor(new Date(entry.createdAt).getTime() / 1000);
+      const user = scope === 'guild' ? ` <@${entry.userId}>` : '';
+      return `**${start + index + 1}.** <t:${createdAt}:R>${user} • ${formatHistorySummary(entry, locale)}`;
+    });
+
+    return new EmbedBuilder()
+      .setTitle(title)
+      .setColor(ConfidenceColors.Info)
+      .setDescription(truncateLines(lines, MAX_DESCRIPTION_LENGTH, locale))
+      .setFooter({ text: footer })
+      .setTimestamp();
+  });
+}
+
+/**
+ * Creates the pages for a catalog search: a summary page followed by one
+ * detail page per card
+ *
+ * A single match produces just its detail page.
+ *
+ * @param result - The catalog search result
+ * @param locale - Language to render in
+ * @returns Discord embeds, one per page
+ */
+export function createLookupPages(
+  result: CatalogSearchResult,
+  locale: SupportedLocale = DEFAULT_LOCALE
+): EmbedBuilder[] {
+  if (!result.success) {
+    return [
+      createErrorEmbed(
+        result.errorKey ? t(locale, result.errorKey) : (result.error ?? ''),
+        undefined,
+        locale
+      ),
+    ];
+  }
+
+  if (result.cards.length === 0) {
+    return [
+      new EmbedBuilder()
+        .setTitle(t(locale, 'lookup.noResults.title'))
+        .setColor(ConfidenceColors.Error)
+        .setDescription(t(locale, 'lookup.noResults.description'))
+        .setFooter({ text: t(locale, 'footer.poweredBy') })
+        .setTimestamp(),
+    ];
+  }
+
+  const detailPages = result.cards.map((catalogCard, index) =>
+    createCatalogCardEmbed(
+      catalogCard,
+      result.cards.length > 1
+        ? t(locale, 'lookup.page.card', { index: index + 1, count: result.cards.length })
+        : t(locale, 'lookup.title.one'),
+      locale
+    )
+  );
+  if (result.cards.length === 1) {
+    return detailPages;
+  }
+
+  const header = `${t(locale, 'lookup.header')}\n`;
+  const lines = result.cards.map(
+    ({ card }, index) => `**${index + 1}.** ${formatCardDisplay(card)}`
+  );
+  const summary = new EmbedBuilder()
+    .setTitle(t(locale, 'lookup.title.other', { count: result.totalCount }))
+    .setColor(ConfidenceColors.Info)
+    .setDescription(header + truncateLines(lines, MAX_DESCRIPTION_LENGTH - header.length, locale))
+    .setFooter({
+      text:
+        result.totalCount > result.cards.length
+          ? t(locale, 'lookup.footer.partial', {
+              shown: result.cards.length,
+              total: result.totalCount,
+            })
+          : t(locale, 'footer.poweredBy'),
+    })
+    .setTimestamp();
+
+  return [summary, ...detailPages];
+}
+
+/**
+ * Creates a detail embed for a catalog card, listing the parallels it was printed in
+ */
+function createCatalogCardEmbed(
+  { card, parallels }: CatalogCard,
+  title: string,
+  locale: SupportedLocale
+): EmbedBuilder {
+  const embed = new EmbedBuilder()
+    .setTitle(title)
+    .setColor(ConfidenceColors.Info)
+    .setDescription(formatCardDisplay(card))
+    .addFields(
+      {
+        name: t(locale, 'card.details'),
+        value: formatCardDetails(card, locale),
+        inline: false,
+      },
+      {
+        name: t(locale, 'card.setInformation'),
+        value: formatSetInfo(card, locale),
+        inline: true,
+      }
+    )
+    .setFooter({ text: t(locale, 'footer.poweredBy') })
+    .setTimestamp();
+
+  if (parallels.length > 0) {
+    embed.addFields({
+      name: t(locale, 'lookup.parallels', { count: parallels.length }),
+      value: truncateLines(
+        parallels.map((parallel) => formatParallelInfo({ ...card, parallel }, locale)),
+        MAX_FIELD_VALUE_LENGTH,
+        locale
+      ),
+      inline: false,
+    });
+  }
+
+  return embed;
+}
+
 /**
  * Formats card details for display
  */
-function formatCardDetails(card: CardDetection['card']): string {
+function formatCardDetails(card: CardDetection['card'], locale: SupportedLocale): string {
   const lines: string[] = [];
   if (card.name) {
-    lines.push(`**Name:** ${card.name}`);
+    lines.push(t(locale, 'card.name', { value: card.name }));
   }
   if (card.number) {
-    lines.push(`**Card Number:** ${card.number}`);
+    lines.push(t(locale, 'card.number', { value: card.number }));
   }
   if (card.year) {
-    lines.push(`**Year:** ${card.year}`);
+    lines.push(t(locale, 'card.year', { value: card.year }));
   }
 
-  return lines.length > 0 ? lines.join('\n') : 'No card details available';
+  return lines.length > 0 ? lines.join('\n') : t(locale, 'card.noDetails');
 }
 
 /**
  * Formats set information for display
  */
-function formatSetInfo(card: CardDetection['card']): string {
+function formatSetInfo(card: CardDetection['card'], locale: SupportedLocale): string {
   const lines: string[] = [];
   if (card.setName) {
-    lines.push(`**Set:** ${card.setName}`);
+    lines.push(t(locale, 'card.set', { value: card.setName }));
   }
   if (card.releaseName) {
-    lines.push(`**Release:** ${card.releaseName}`);
+    lines.push(t(locale, 'card.release', { value: card.releaseName }));
   }
   if (card.manufacturer) {
-    lines.push(`**Manufacturer:** ${card.manufacturer}`);
+    lines.push(t(locale, 'card.manufacturer', { value: card.manufacturer }));
   }
 
-  return lines.length > 0 ? lines.join('\n') : 'No set information available';
+  return lines.length > 0 ? lines.join('\n') : t(locale, 'card.noSetInformation');
 }
 
 /**
  * Formats parallel information for display
  */
-function formatParallelInfo(card: CardDetection['card']): string {
+function formatParallelInfo(card: CardDetection['card'], locale: SupportedLocale): string {
   const lines: string[] = [];
 
   if (card.parallel?.name) {
-    lines.push(`**Parallel:** ${card.parallel.name}`);
+    lines.push(t(locale, 'card.parallel', { value: card.parallel.name }));
   }
 
   if (card.parallel?.numberedTo) {
-    lines.push(`**Numbered:** /${card.parallel.numberedTo}`);
+    lines.push(t(locale, 'card.numbered', { value: card.parallel.numberedTo }));
   }
 
   return lines.join('\n');
@@ -237,39 +1067,32 @@ function formatParallelInfo(card: CardDetection['card']): string {
 
 /**
  * Creates an embed for invalid file type
+ *
+ * @param locale - Language to render in
  */
-export function createInvalidFileEmbed(): EmbedBuilder {
+export function createInvalidFileEmbed(locale: SupportedLocale = DEFAULT_LOCALE): EmbedBuilder {
   return new EmbedBuilder()
-    .setTitle('❌ Invalid File Type')
+    .setTitle(t(locale, 'invalidFile.title'))
     .setColor(ConfidenceColors.Error)
-    .setDescription(
-      'Please upload a valid image file.\n\n' +
-        '**Supported formats:**\n' +
-        '• JPEG/JPG\n' +
-        '• PNG\n' +
-        '• WebP\n' +
-        '• GIF'
-    )
+    .setDescription(t(locale, 'invalidFile.description'))
     .setFooter({
-      text: 'Powered by CardSight AI',
+      text: t(locale, 'footer.poweredBy'),
     })
     .setTimestamp();
 }
 
 /**
  * Creates an embed for file too large
+ *
+ * @param locale - Language to render in
  */
-export function createFileTooLargeEmbed(): EmbedBuilder {
+export function createFileTooLargeEmbed(locale: SupportedLocale = DEFAULT_LOCALE): EmbedBuilder {
   return new EmbedBuilder()
-    .setTitle('❌ File Too Large')
+    .setTitle(t(locale, 'fileTooLarge.title'))
     .setColor(ConfidenceColors.Error)
-    .setDescription(
-      'The uploaded file is too large.\n\n' +
-        '**Maximum file size:** 8MB\n\n' +
-        'Please compress or resize your image and try again.'
-    )
+    .setDescription(t(locale, 'fileTooLarge.description'))
     .setFooter({
-      text: 'Powered by CardSight AI',
+      text: t(locale, 'footer.poweredBy'),
     })
     .setTimestamp();
 }
@@ -0,0 +1,359 @@
+/**
+ * Feedback Buttons
+ *
+ * 👍/👎 buttons shown under identification results. 👎 opens a modal where
+ * the user can enter the correct card details; results with several cards
+ * first ask which card was wrong. The detections behind the buttons are
+ * persisted (see feedbackStore.ts), so the buttons keep working after a restart.
+ */
+
+import type {
+  AnySelectMenuInteraction,
+  ButtonInteraction,
+  MessageComponentInteraction,
+  ModalSubmitInteraction,
+} from 'discord.js';
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ModalBuilder,
+  StringSelectMenuBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+} from 'discord.js';
+import type { CardDetection } from './cardsight.js';
+import { formatCardDisplay } from './cardsight.js';
+import { encodeCustomId } from './componentRouter.js';
+import { createErrorEmbed, createInfoEmbed } from './embedBuilder.js';
+import {
+  addFeedback,
+  getFeedbackTargets,
+  saveFeedbackTargets,
+  type CardCorrection,
+  type FeedbackTarget,
+} from './feedbackStore.js';
+import { meetsMinConfidence, type GuildSettings } from './guildSettings.js';
+import type { ImageIdentification } from './identification.js';
+import { logError, logger } from './logger.js';
+import type { ComponentHandler, ComponentState } from '../types/index.js';
+import { ConfidenceEmojis } from '../types/index.js';
+import {
+  DEFAULT_LOCALE,
+  resolveLocale,
+  t,
+  type MessageKey,
+  type SupportedLocale,
+} from '../i18n/index.js';
+
+export const FEEDBACK_PREFIX = 'feedback';
+
+/**
+ * How long the buttons keep working after the results are posted
+ */
+const FEEDBACK_BUTTON_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Discord's maximum number of options in a select menu
+ */
+const MAX_SELECT_OPTIONS = 25;
+
+// Modal fields, in display order, with the detected value each one starts with
+const CORRECTION_FIELDS: {
+  key: keyof CardCorrection;
+  label: MessageKey;
+  maxLength: number;
+  detected: (detection: CardDetection) => string | undefined;
+}[] = [
+  { key: 'year', label: 'feedback.field.year', maxLength: 20, detected: ({ card }) => card.year },
+  { key: 'set', label: 'feedback.field.set', maxLength: 100, detected: ({ card }) => card.setName },
+  { key: 'name', label: 'feedback.field.name', maxLength: 100, detected: ({ card }) => card.name },
+  {
+    key: 'number',
+    label: 'feedback.field.number',
+    maxLength: 20,
+    detected: ({ card }) => card.number,
+  },
+  {
+    key: 'parallel',
+    label: 'feedback.field.parallel',
+    maxLength: 100,
+    detected: ({ card }) => card.parallel?.name,
+  },
+];
+
+/**
+ * Creates the 👍/👎 feedback row for identification results
+ *
+ * Takes the unfiltered results, so feedback records the detection's position
+ * in the CardSight response, and offers only the detections the guild shows.
+ *
+ * @param settings - Guild settings; detections below the minimum confidence are left out
+ * @param locale - Language of the button label
+ * @returns The row, or null if nothing shown was detected or the targets couldn't be saved
+ */
+export async function createFeedbackRow(
+  results: ImageIdentification[],
+  settings: Pick<GuildSettings, 'minConfidence'>,
+  locale: SupportedLocale = DEFAULT_LOCALE
+): Promise<ActionRowBuilder<ButtonBuilder> | null> {
+  const targets: FeedbackTarget[] = results.flatMap(({ result }) =>
+    result.detections
+      .map((detection, detectionIndex) => ({
+        requestId: result.requestId,
+        detectionIndex,
+        detection,
+      }))
+      .filter(({ detection }) => meetsMinConfidence(detection.confidence, settings))
+  );
+
+  if (targets.length === 0) {
+    return null;
+  }
+
+  let token: string;
+  try {
+    token = await saveFeedbackTargets(targets, FEEDBACK_BUTTON_TTL_MS);
+  } catch (error) {
+    // The results are still worth showing without feedback buttons
+    logError('Failed to save feedback targets', error);
+    return null;
+  }
+
+  const customId = (action: string): string =>
+    encodeCustomId(FEEDBACK_PREFIX, [token, action], { ttlMs: FEEDBACK_BUTTON_TTL_MS });
+
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(customId('correct'))
+      .setEmoji('👍')
+      .setStyle(ButtonStyle.Secondary),
+    new ButtonBuilder()
+      .setCustomId(customId('wrong'))
+      .setLabel(t(locale, 'feedback.button.wrong'))
+      .setEmoji('👎')
+      .setStyle(ButtonStyle.Secondary)
+  );
+}
+
+/**
+ * Gets the saved feedback targets, replying with an error if they expired
+ */
+async function getTargets(
+  interaction: MessageComponentInteraction | ModalSubmitInteraction,
+  token: string
+): Promise<FeedbackTarget[] | undefined> {
+  const targets = await getFeedbackTargets(token);
+  if (!targets) {
+    const locale = resolveLocale(interaction);
+    await interaction.reply({
+      embeds: [createErrorEmbed(t(locale, 'feedback.expired'), undefined, locale)],
+      ephemeral: true,
+    });
+  }
+  return targets;
+}
+
+/**
+ * Replies that the chosen card is not among the targets
+ */
+async function replyCardNotFound(
+  interaction: MessageComponentInteraction | ModalSubmitInteraction
+): Promise<void> {
+  const locale = resolveLocale(interaction);
+  await interaction.reply({
+    embeds: [createErrorEmbed(t(locale, 'feedback.cardNotFound'), undefined, locale)],
+    ephemeral: true,
+  });
+}
+
+/**
+ * Creates the correction modal for one detection, prefilled with the detected values
+ */
+function createCorrectionModal(
+  token: string,
+  index: number,
+  target: FeedbackTarget,
+  locale: SupportedLocale
+): ModalBuilder {
+  return new ModalBuilder()
+    .setCustomId(
+      encodeCustomId(FEEDBACK_PREFIX, [token, 'submit', String(index)], {
+        ttlMs: FEEDBACK_BUTTON_TTL_MS,
+      })
+    )
+    .setTitle(t(locale, 'feedback.modal.title'))
+    .addComponents(
+      CORRECTION_FIELDS.map(({ key, label, maxLength, detected }) => {
+        const input = new TextInputBuilder()
+          .setCustomId(key)
+          .setLabel(t(locale, label))
+          .setStyle(TextInputStyle.Short)
+          .setMaxLength(maxLength)
+          .setRequired(false);
+
+        const value = detected(target.detection)?.slice(0, maxLength);
+        if (value) {
+          input.setValue(value);
+        }
+
+        return new ActionRowBuilder<TextInputBuilder>().addComponents(input);
+      })
+    );
+}
+
+/**
+ * Handles the 👍 and 👎 buttons
+ */
+async function handleFeedbackButton(
+  interaction: ButtonInteraction,
+  state: ComponentState
+): Promise<void> {
+  const [token, action] = state.args;
+  const locale = resolveLocale(interaction);
+  const targets = await getTargets(interaction, token);
+  if (!targets) {
+    return;
+  }
+
+  if (action === 'correct') {
+    for (const target of targets) {
+      await addFeedback({
+        ...target,
+        rating: 'correct',
+        reporter: { id: interaction.user.id, tag: interaction.user.tag },
+        guildId: interaction.guildId,
+      });
+    }
+
+    await interaction.reply({
+      embeds: [
+        createInfoEmbed(
+          t(locale, 'feedback.thanks.title'),
+          t(locale, 'feedback.thanks.description'),
+          locale
+        ),
+      ],
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (targets.length === 1) {
+    await interaction.showModal(createCorrectionModal(token, 0, targets[0], locale));
+    return;
+  }
+
+  // Several cards: ask which one was wrong before opening the modal
+  await interaction.reply({
+    content: t(locale, 'feedback.pick.prompt'),
+    components: [
+      new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+          .setCustomId(
+            encodeCustomId(FEEDBACK_PREFIX, [token, 'pick'], {
+              ownerId: interaction.user.id,
+              ttlMs: FEEDBACK_BUTTON_TTL_MS,
+            })
+          )
+          .setPlaceholder(t(locale, 'feedback.pick.placeholder'))
+          .addOptions(
+            targets.slice(0, MAX_SELECT_OPTIONS).map(({ detection }, index) => ({
+              label: `${index + 1}. ${formatCardDisplay(detection.card)}`.slice(0, 100),
+              value: String(index),
+              emoji: ConfidenceEmojis[detection.confidence],
+            }))
+          )
+      ),
+    ],
+    ephemeral: true,
+  });
+}
+
+/**
+ * Opens the correction modal for the card picked from the select menu
+ */
+async function handleFeedbackSelect(
+  interaction: AnySelectMenuInteraction,
+  state: ComponentState
+): Promise<void> {
+  const [token] = state.args;
+  const targets = await getTargets(interaction, token);
+  if (!targets) {
+    return;
+  }
+
+  const index = parseInt(interaction.values[0], 10);
+  const target = targets[index];
+  if (!target) {
+    await replyCardNotFound(interaction);
+    return;
+  }
+
+  await interaction.showModal(
+    createCorrectionModal(token, index, target, resolveLocale(interaction))
+  );
+}
+
+/**
+ * Stores the correction entered in the modal
+ */
+async function handleFeedbackModal(
+  interaction: ModalSubmitInteraction,
+  state: ComponentState
+): Promise<void> {
+  const [token, , index] = state.args;
+  const targets = await getTargets(interaction, token);
+  if (!targets) {
+    return;
+  }
+
+  const target = targets[parseInt(index, 10)];
+  if (!target) {
+    await replyCardNotFound(interaction);
+    return;
+  }
+
+  const correction: CardCorrection = {};
+  for (const { key } of CORRECTION_FIELDS) {
+    const value = interaction.fields.getTextInputValue(key).trim();
+    if (value) {
+      correction[key] = value;
+    }
+  }
+
+  const record = await addFeedback({
+    ...target,
+    rating: 'incorrect',
+    correction,
+    reporter: { id: interaction.user.id, tag: interaction.user.tag },
+    guildId: interaction.guildId,
+  });
+  logger.info('Identification correction submitted', {
+    user: interaction.user.tag,
+    feedbackId: record.id,
+    requestId: record.requestId,
+  });
+
+  const locale = resolveLocale(interaction);
+  await interaction.reply({
+    embeds: [
+      createInfoEmbed(
+        t(locale, 'feedback.corrected.title'),
+        t(locale, 'feedback.corrected.description'),
+        locale
+      ),
+    ],
+    ephemeral: true,
+  });
+}
+
+/**
+ * Component handler for the feedback buttons, card picker and correction modal
+ */
+export const feedbackHandler: ComponentHandler = {
+  prefix: FEEDBACK_PREFIX,
+  handleButton: handleFeedbackButton,
+  handleSelectMenu: handleFeedbackSelect,
+  handleModalSubmit: handleFeedbackModal,
+};
@@ -0,0 +1,197 @@
+/**
+ * Feedback Store
+ *
+ * Persists users' feedback on identification results, including the
+ * corrections they submit for wrong detections, so it can be exported and
+ * sent upstream to CardSight. Also keeps the detections each feedback row was
+ * posted for until its buttons expire, so the buttons survive restarts.
+ */
+
+import { randomBytes, randomUUID } from 'node:crypto';
+import type { CardDetection } from './cardsight.js';
+import { JsonStore } from './storage.js';
+
+/**
+ * Card details a user entered to correct a wrong detection
+ */
+export interface CardCorrection {
+  year?: string;
+  set?: string;
+  name?: string;
+  number?: string;
+  parallel?: string;
+}
+
+/**
+ * A detection that feedback can be given on
+ */
+export interface FeedbackTarget {
+  // CardSight request that produced the detection, if known
+  requestId?: string;
+  // Position of the detection in its identification result, before any confidence filtering
+  detectionIndex: number;
+  detection: CardDetection;
+}
+
+/**
+ * A user's verdict on one detection
+ */
+export interface FeedbackRecord {
+  id: string;
+  // CardSight request that produced the detection, if known
+  requestId?: string;
+  // Position of the detection in its identification result
+  detectionIndex: number;
+  detection: CardDetection;
+  rating: 'correct' | 'incorrect';
+  correction?: CardCorrection;
+  reporter: { id: string; tag: string };
+  // Server the feedback was given in, or null for DMs
+  guildId: string | null;
+  createdAt: string;
+}
+
+/**
+ * Formats in which feedback can be exported
+ */
+export type FeedbackExportFormat = 'json' | 'csv';
+
+const store = new JsonStore<FeedbackRecord[]>('feedback.json', () => []);
+
+// Feedback targets by the token in their buttons' custom IDs
+const targetStore = new JsonStore<Record<string, { expiresAt: number; targets: FeedbackTarget[] }>>(
+  'feedback-targets.json',
+  () => ({}),
+  { compact: true }
+);
+
+/**
+ * Saves the targets of a feedback row, dropping those whose buttons have expired
+ *
+ * @returns A short token for the buttons' custom IDs
+ */
+export async function saveFeedbackTargets(
+  targets: FeedbackTarget[],
+  ttlMs: number
+): Promise<string> {
+  const token = randomBytes(6).toString('base64url');
+  const now = Date.now();
+
+  await targetStore.update((data) => {
+    for (const [key, entry] of Object.entries(data)) {
+      if (entry.expiresAt <= now) {
+        delete data[key];
+      }
+    }
+    data[token] = { expiresAt: now + ttlMs, targets };
+  });
+  return token;
+}
+
+/**
+ * Gets the targets of a feedback row
+ *
+ * @returns The targets, or undefined if the row expired or never existed
+ */
+export async function getFeedbackTargets(token: string): Promise<FeedbackTarget[] | undefined> {
+  const entry = (await targetStore.read())[token];
+  return entry && entry.expiresAt > Date.now() ? entry.targets : undefined;
+}
+
+/**
+ * Records feedback on a detection
+ *
+ * A user's earlier feedback on the same detection of the same request is replaced.
+ *
+ * @returns The stored record
+ */
+export async function addFeedback(
+  feedback: Omit<FeedbackRecord, 'id' | 'createdAt'>
+): Promise<FeedbackRecord> {
+  const record: FeedbackRecord = {
+    id: randomUUID(),
+    ...feedback,
+    createdAt: new Date().toISOString(),
+  };
+
+  await store.update((data) => {
+    const index = feedback.requestId
+      ? data.findIndex(
+          (existing) =>
+            existing.requestId === feedback.requestId &&
+            existing.detectionIndex === feedback.detectionIndex &&
+            existing.reporter.id === feedback.reporter.id
+        )
+      : -1;
+
+    if (index === -1) {
+      data.push(record);
+    } else {
+      data[index] = record;
+    }
+  });
+
+  return record;
+}
+
+/**
+ * Lists the feedback given in a server, oldest first
+ */
+export async function listFeedback(guildId: string): Promise<FeedbackRecord[]> {
+  const data = await store.read();
+  return data.filter((record) => record.guildId === guildId);
+}
+
+// Columns of the CSV export, in order
+const CSV_COLUMNS: [string, (record: FeedbackRecord) => string | number | undefined][] = [
+  ['created_at', (record) => record.createdAt],
+  ['request_id', (record) => record.requestId],
+  ['detection_index', (record) => record.detectionIndex],
+  ['rating', (record) => record.rating],
+  ['confidence', (record) => record.detection.confidence],
+  ['card_id', (record) => record.detection.card.id],
+  ['detected_year', (record) => record.detection.card.year],
+  ['detected_set', (record) => record.detection.card.setName],
+  ['detected_name', (record) => record.detection.card.name],
+  ['detected_number', (record) => record.detection.card.number],
+  ['detected_parallel', (record) => record.detection.card.parallel?.name],
+  ['corrected_year', (record) => record.correction?.year],
+  ['corrected_set', (record) => record.correction?.set],
+  ['corrected_name', (record) => record.correction?.name],
+  ['corrected_number', (record) => record.correction?.number],
+  ['corrected_parallel', (record) => record.correction?.parallel],
+  ['reporter_id', (record) => record.reporter.id],
+  ['reporter_tag', (record) => record.reporter.tag],
+  ['guild_id', (record) => record.guildId ?? undefined],
+];
+
+/**
+ * Quotes a CSV value if it contains a delimiter, quote or line break
+ *
+ * User-entered text that a spreadsheet would run as a formula is prefixed with a quote.
+ */
+function escapeCsvValue(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes feedback records for export
+ */
+export function formatFeedbackExport(
+  records: FeedbackRecord[],
+  format: FeedbackExportFormat
+): string {
+  if (format === 'json') {
+    return JSON.stringify(records, null, 2);
+  }
+
+  const header = CSV_COLUMNS.map(([name]) => name).join(',');
+  const rows = records.map((record) =>
+    CSV_COLUMNS.map(([, getValue]) => escapeCsvValue(getValue(record))).join(',')
+  );
+  return [header, ...rows].join('\n') + '\n';
+}
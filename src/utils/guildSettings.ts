@@ -0,0 +1,111 @@
+/**
+ * Guild Settings Store
+ *
+ * Persists per-guild settings changed with /settings. Settings a guild has
+ * not changed fall back to the global defaults from the configuration.
+ */
+
+import { config } from '../config/index.js';
+import type { AuditLogLevel } from './auditLog.js';
+import { JsonStore } from './storage.js';
+import type { ConfidenceLevel } from '../types/index.js';
+
+/**
+ * Settings that control how the bot behaves in a guild
+ */
+export interface GuildSettings {
+  // Whether identification results are only shown to the invoking user
+  ephemeralResults: boolean;
+  // Detections below this confidence are hidden
+  minConfidence: ConfidenceLevel;
+  // Whether result embeds show the identified image as a thumbnail
+  showThumbnails: boolean;
+  // Channels where commands may be used; empty means everywhere
+  allowedChannelIds: string[];
+  // Channel receiving audit-log posts, or null for none
+  auditChannelId: string | null;
+  // How much is posted to the audit-log channel
+  auditLevel: AuditLogLevel;
+}
+
+const store = new JsonStore<Record<string, Partial<GuildSettings>>>(
+  'guild-settings.json',
+  () => ({})
+);
+
+/**
+ * Confidence levels from lowest to highest
+ */
+const CONFIDENCE_ORDER: ConfidenceLevel[] = ['Low', 'Medium', 'High'];
+
+/**
+ * Returns the settings used where no guild settings apply
+ */
+export function getDefaultGuildSettings(): GuildSettings {
+  return {
+    ...config.guildDefaults,
+    allowedChannelIds: [],
+    auditChannelId: null,
+    auditLevel: 'all',
+  };
+}
+
+/**
+ * Gets a guild's effective settings
+ *
+ * @param guildId - The guild, or null outside of guilds (which use the defaults)
+ */
+export async function getGuildSettings(guildId: string | null): Promise<GuildSettings> {
+  if (!guildId) {
+    return getDefaultGuildSettings();
+  }
+
+  const data = await store.read();
+  return { ...getDefaultGuildSettings(), ...data[guildId] };
+}
+
+/**
+ * Changes some of a guild's settings
+ *
+ * @returns The guild's effective settings after the change
+ */
+export async function updateGuildSettings(
+  guildId: string,
+  changes: Partial<GuildSettings>
+): Promise<GuildSettings> {
+  await store.update((data) => {
+    data[guildId] = { ...data[guildId], ...changes };
+  });
+  return getGuildSettings(guildId);
+}
+
+/**
+ * Resets a guild to the default settings
+ */
+export async function resetGuildSettings(guildId: string): Promise<void> {
+  await store.update((data) => {
+    delete data[guildId];
+  });
+}
+
+/**
+ * Checks whether a detection's confidence meets a guild's minimum
+ */
+export function meetsMinConfidence(
+  confidence: ConfidenceLevel,
+  settings: Pick<GuildSettings, 'minConfidence'>
+): boolean {
+  return CONFIDENCE_ORDER.indexOf(confidence) >= CONFIDENCE_ORDER.indexOf(settings.minConfidence);
+}
+
+/**
+ * Checks whether commands may be used in a channel under a guild's settings
+ *
+ * @param channelId - The channel, or the parent channel for threads
+ */
+export function isChannelAllowed(settings: GuildSettings, channelId: string | null): boolean {
+  return (
+    settings.allowedChannelIds.length === 0 ||
+    (channelId !== null && settings.allowedChannelIds.includes(channelId))
+  );
+}
@@ -0,0 +1,199 @@
+/**
+ * Identification History Store
+ *
+ * Persists every identification request with who made it and where, so
+ * results can be looked up again after the reply has scrolled away. Only
+ * what's needed to show a result again is kept, and entries older than the
+ * configured retention are purged hourly.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { config } from '../config/index.js';
+import type { ImageIdentification } from './identification.js';
+import { logDebug, logError } from './logger.js';
+import { JsonStore } from './storage.js';
+
+/**
+ * One identification request and its per-image results
+ */
+export interface HistoryEntry {
+  id: string;
+  userId: string;
+  userTag: string;
+  // Server and channel the request was made in, or null for DMs
+  guildId: string | null;
+  channelId: string | null;
+  identifications: ImageIdentification[];
+  createdAt: string;
+}
+
+const store = new JsonStore<HistoryEntry[]>('history.json', () => [], { compact: true });
+
+// How often expired entries are purged while the bot runs
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+let purgeTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Strips an identification down to what showing it again needs
+ *
+ * Drops card suggestions, field values, grading and parallel card lists, which
+ * can make up most of a CardSight response.
+ */
+function toStoredIdentification({ source, result }: ImageIdentification): ImageIdentification {
+  return {
+    source: {
+      url: source.url,
+      filename: source.filename,
+      contentType: source.contentType,
+      size: source.size,
+    },
+    result: {
+      success: result.success,
+      detections: result.detections.map(({ confidence, card }) => ({
+        confidence,
+        card: {
+          id: card.id,
+          year: card.year,
+          manufacturer: card.manufacturer,
+          releaseName: card.releaseName,
+          setName: card.setName,
+          name: card.name,
+          number: card.number,
+          numberedTo: card.numberedTo,
+          parallel: card.parallel && {
+            id: card.parallel.id,
+            name: card.parallel.name,
+            numberedTo: card.parallel.numberedTo,
+          },
+        },
+      })),
+      processingTime: result.processingTime,
+      requestId: result.requestId,
+      error: result.error,
+      errorKey: result.errorKey,
+    },
+  };
+}
+
+/**
+ * Gets the oldest creation time that is still retained, or 0 to keep everything
+ */
+function getRetentionCutoff(): number {
+  const { retentionDays } = config.history;
+  return retentionDays > 0 ? Date.now() - retentionDays * 24 * 60 * 60 * 1000 : 0;
+}
+
+/**
+ * Removes the entries older than the retention from a history document
+ *
+ * @returns The number of entries removed
+ */
+function removeExpired(data: HistoryEntry[]): number {
+  const cutoff = getRetentionCutoff();
+  const firstKept = data.findIndex((entry) => new Date(entry.createdAt).getTime() >= cutoff);
+  const expired = firstKept === -1 ? data.length : firstKept;
+
+  // Entries are appended in time order, so the expired ones are at the start
+  data.splice(0, expired);
+  return expired;
+}
+
+/**
+ * Records an identification request
+ *
+ * Does nothing when history is disabled.
+ *
+ * @returns The stored entry, or undefined when history is disabled
+ */
+export async function recordHistory(
+  entry: Omit<HistoryEntry, 'id' | 'createdAt'>
+): Promise<HistoryEntry | undefined> {
+  if (!config.history.enabled) {
+    return undefined;
+  }
+
+  const record: HistoryEntry = {
+    id: randomUUID(),
+    ...entry,
+    identifications: entry.identifications.map(toStoredIdentification),
+    createdAt: new Date().toISOString(),
+  };
+  await store.update((data) => {
+    removeExpired(data);
+    data.push(record);
+  });
+  return record;
+}
+
+/**
+ * Purges the entries older than the retention
+ *
+ * @returns The number of entries purged
+ */
+export async function purgeExpiredHistory(): Promise<number> {
+  const data = await store.read();
+  const cutoff = getRetentionCutoff();
+  if (!data.some((entry) => new Date(entry.createdAt).getTime() < cutoff)) {
+    return 0;
+  }
+
+  let purged = 0;
+  await store.update((current) => {
+    purged = removeExpired(current);
+  });
+
+  logDebug('Purged expired identification history', { purged });
+  return purged;
+}
+
+/**
+ * Purges expired entries now and then hourly, so history shrinks even while
+ * nobody is identifying cards
+ */
+export function startHistoryPurge(): void {
+  if (purgeTimer || !config.history.enabled) {
+    return;
+  }
+
+  const purge = (): void => {
+    purgeExpiredHistory().catch((error) => logError('Failed to purge expired history', error));
+  };
+  purge();
+  purgeTimer = setInterval(purge, PURGE_INTERVAL_MS);
+  // Don't keep the process alive just to purge
+  purgeTimer.unref();
+}
+
+/**
+ * Lists history entries, newest first
+ *
+ * @param filter - Limits the entries to a user and/or a server
+ */
+export async function listHistory(filter: {
+  userId?: string;
+  guildId?: string;
+}): Promise<HistoryEntry[]> {
+  const data = await store.read();
+  const cutoff = getRetentionCutoff();
+
+  return data
+    .filter(
+      (entry) =>
+        new Date(entry.createdAt).getTime() >= cutoff &&
+        (filter.userId === undefined || entry.userId === filter.userId) &&
+        (filter.guildId === undefined || entry.guildId === filter.guildId)
+    )
+    .reverse();
+}
+
+/**
+ * Gets a history entry by ID
+ *
+ * @returns The entry, or undefined if it doesn't exist or has expired
+ */
+export async function getHistoryEntry(entryId: string): Promise<HistoryEntry | undefined> {
+  const data = await store.read();
+  const entry = data.find((candidate) => candidate.id === entryId);
+  return entry && new Date(entry.createdAt).getTime() >= getRetentionCutoff() ? entry : undefined;
+}
@@ -0,0 +1,106 @@
+/**
+ * Health and Metrics HTTP Server
+ *
+ * Optional HTTP server for container orchestrators and Prometheus:
+ * - GET /healthz reports the Discord gateway connection and the last CardSight health check
+ * - GET /metrics serves the bot's metrics in the Prometheus text format
+ */
+
+import { createServer, type Server, type ServerResponse } from 'node:http';
+import type { Client } from 'discord.js';
+import { config } from '../config/index.js';
+import { logger, logError } from './logger.js';
+import { Gauge, getCardSightHealth, renderMetrics } from './metrics.js';
+import { isShuttingDown } from './shutdown.js';
+
+/**
+ * Sends a response with the given status, content type and body
+ */
+function send(response: ServerResponse, status: number, contentType: string, body: string): void {
+  response.writeHead(status, { 'Content-Type': contentType });
+  response.end(body);
+}
+
+/**
+ * Builds the health report
+ *
+ * The bot is healthy while it is connected to the Discord gateway and not
+ * shutting down. CardSight problems are reported but don't fail the check,
+ * since restarting the bot wouldn't fix them.
+ */
+function getHealthReport(client: Client): { healthy: boolean; body: Record<string, unknown> } {
+  const cardsightHealthy = getCardSightHealth();
+  const gatewayConnected = client.isReady();
+  const shuttingDown = isShuttingDown();
+
+  let status = 'ok';
+  if (shuttingDown) {
+    status = 'shutting_down';
+  } else if (!gatewayConnected) {
+    status = 'unhealthy';
+  } else if (cardsightHealthy === false) {
+    status = 'degraded';
+  }
+
+  return {
+    healthy: gatewayConnected && !shuttingDown,
+    body: {
+      status,
+      discord: { connected: gatewayConnected, ping: gatewayConnected ? client.ws.ping : null },
+      cardsight: {
+        status: cardsightHealthy === null ? 'unknown' : cardsightHealthy ? 'ok' : 'unavailable',
+      },
+    },
+  };
+}
+
+/**
+ * Starts the health and metrics server
+ *
+ * @param client - The Discord client whose connection is reported
+ * @returns The listening server, so it can be closed on shutdown
+ */
+export function startHttpServer(client: Client): Server {
+  new Gauge(
+    'cardsight_bot_gateway_connected',
+    'Whether the bot is connected to the Discord gateway',
+    () => Number(client.isReady())
+  );
+  new Gauge('cardsight_bot_guilds', 'Guilds the bot is a member of', () =>
+    client.isReady() ? client.guilds.cache.size : 0
+  );
+
+  const server = createServer((request, response) => {
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+
+    if (request.method !== 'GET') {
+      send(response, 405, 'text/plain', 'Method Not Allowed');
+      return;
+    }
+
+    switch (path) {
+      case '/healthz': {
+        const { healthy, body } = getHealthReport(client);
+        send(response, healthy ? 200 : 503, 'application/json', JSON.stringify(body));
+        break;
+      }
+
+      case '/metrics':
+        send(response, 200, 'text/plain; version=0.0.4; charset=utf-8', renderMetrics());
+        break;
+
+      default:
+        send(response, 404, 'text/plain', 'Not Found');
+    }
+  });
+
+  server.on('error', (error) => {
+    logError('Health and metrics server error', error);
+  });
+
+  server.listen(config.http.port, config.http.host, () => {
+    logger.info(`Health and metrics server listening on ${config.http.host}:${config.http.port}`);
+  });
+
+  return server;
+}
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { mapWithConcurrency, validateImageSource, type ImageSource } from './identification.js';
+import { MAX_FILE_SIZE } from '../types/index.js';
+
+/**
+ * Resolves after the given number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('mapWithConcurrency', () => {
+  it('keeps results in input order when calls finish out of order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (delay, index) => {
+      await sleep(delay);
+      return `${index}:${delay}`;
+    });
+
+    assert.deepEqual(results, ['0:30', '1:10', '2:20']);
+  });
+
+  it('never has more than the limit in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await mapWithConcurrency(
+      Array.from({ length: 8 }, (_, i) => i),
+      3,
+      async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await sleep(5);
+        inFlight--;
+      }
+    );
+
+    assert.equal(maxInFlight, 3);
+  });
+
+  it('runs at least one worker when the limit is below 1', async () => {
+    const results = await mapWithConcurrency([1, 2], 0, (value) => Promise.resolve(value * 2));
+
+    assert.deepEqual(results, [2, 4]);
+  });
+
+  it('returns an empty array for no items', async () => {
+    assert.deepEqual(await mapWithConcurrency([], 2, () => Promise.resolve(1)), []);
+  });
+
+  it('rejects when a call fails', async () => {
+    await assert.rejects(
+      mapWithConcurrency([1, 2, 3], 2, (value) =>
+        value === 2 ? Promise.reject(new Error('boom')) : Promise.resolve(value)
+      ),
+      /boom/
+    );
+  });
+});
+
+describe('validateImageSource', () => {
+  const attachment: ImageSource = {
+    url: 'https://cdn.discordapp.com/attachments/1/2/card.png',
+    filename: 'card.png',
+    contentType: 'image/png',
+    size: 1024,
+  };
+
+  it('accepts a supported image within the size limit', () => {
+    assert.equal(validateImageSource(attachment), null);
+  });
+
+  it('rejects unsupported content types', () => {
+    assert.equal(
+      validateImageSource({ ...attachment, filename: 'card.pdf', contentType: 'application/pdf' }),
+      'invalid-type'
+    );
+  });
+
+  it('falls back to the extension for generic content types', () => {
+    assert.equal(
+      validateImageSource({ ...attachment, contentType: 'application/octet-stream' }),
+      null
+    );
+    assert.equal(
+      validateImageSource({ ...attachment, filename: 'card.txt', contentType: null }),
+      'invalid-type'
+    );
+  });
+
+  it('rejects images over the size limit', () => {
+    assert.equal(validateImageSource({ ...attachment, size: MAX_FILE_SIZE + 1 }), 'too-large');
+  });
+
+  it('leaves linked images without an extension to be checked once downloaded', () => {
+    const link: ImageSource = {
+      url: 'https://example.com/image',
+      filename: 'image',
+      contentType: null,
+      size: null,
+      linked: true,
+    };
+
+    assert.equal(validateImageSource(link), null);
+    assert.equal(
+      validateImageSource({ ...link, filename: 'notes.txt', contentType: 'text/plain' }),
+      'invalid-type'
+    );
+  });
+});
@@ -0,0 +1,597 @@
+/**
+ * Identification Pipeline
+ *
+ * Shared download → validate → identify pipeline used by the commands that
+ * send images to CardSight AI.
+ */
+
+import type {
+  Attachment,
+  Client,
+  Embed,
+  EmbedBuilder,
+  RepliableInteraction,
+  User,
+} from 'discord.js';
+import { EmbedType } from 'discord.js';
+import { config } from '../config/index.js';
+import { identificationError, identifyCard } from './cardsight.js';
+import { createAddToCollectionRow } from './collectionButton.js';
+import { createFeedbackRow } from './feedbackButtons.js';
+import type { CardIdentificationResult } from './cardsight.js';
+import {
+  createBatchIdentificationEmbed,
+  createCardDetailEmbed,
+  createIdentificationErrorEmbed,
+  createIdentificationPages,
+  createProcessingEmbed,
+  createQueueFullEmbed,
+  createServiceDegradedEmbed,
+} from './embedBuilder.js';
+import { postAuditLog } from './auditLog.js';
+import { recordHistory } from './historyStore.js';
+import { getDefaultGuildSettings, getGuildSettings, meetsMinConfidence } from './guildSettings.js';
+import type { GuildSettings } from './guildSettings.js';
+import { logDebug, logger, logError } from './logger.js';
+import { fetchImage, type FetchImageError } from './imageFetcher.js';
+import { prepareImage } from './imageProcessing.js';
+import { recordQueueRejection } from './metrics.js';
+import { editReplyWithPages } from './pagination.js';
+import { dispatchIdentificationWebhooks } from './webhooks.js';
+import {
+  getQueueLane,
+  identificationQueue,
+  type EnqueueOptions,
+  type EnqueueResult,
+  type QueuePosition,
+} from './workQueue.js';
+import { SupportedImageFormats, MAX_FILE_SIZE, type SupportedImageFormat } from '../types/index.js';
+import {
+  DEFAULT_LOCALE,
+  resolveLocale,
+  t,
+  type MessageKey,
+  type SupportedLocale,
+} from '../i18n/index.js';
+
+/**
+ * MIME types inferred from file extensions, for images without a reported content type
+ */
+const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  avif: 'image/avif',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+};
+
+/**
+ * An image to identify, independent of where it came from
+ */
+export interface ImageSource {
+  url: string;
+  filename: string;
+  contentType: string | null;
+  // Size in bytes, or null when it is only known after downloading
+  size: number | null;
+  // Linked by URL rather than posted to Discord: the format is only checked once downloaded
+  linked?: boolean;
+}
+
+/**
+ * Result of identifying a single image source
+ */
+export interface ImageIdentification {
+  source: ImageSource;
+  result: CardIdentificationResult;
+}
+
+/**
+ * Reasons an image can be rejected before it is sent to CardSight
+ */
+export type ImageValidationError = 'invalid-type' | 'too-large';
+
+/**
+ * Sanitizes a filename to prevent path traversal and other attacks
+ */
+export function sanitizeFilename(filename: string): string {
+  return filename
+    .replace(/[^a-zA-Z0-9._-]/g, '_') // Remove potentially dangerous characters
+    .substring(0, 255); // Limit length
+}
+
+/**
+ * Builds an image source from a Discord attachment
+ */
+export function imageSourceFromAttachment(attachment: Attachment): ImageSource {
+  return {
+    url: attachment.url,
+    filename: sanitizeFilename(attachment.name),
+    contentType: attachment.contentType,
+    size: attachment.size,
+  };
+}
+
+/**
+ * Builds an image source from a message embed's image or image thumbnail
+ *
+ * @returns The image source, or null if the embed carries no image
+ */
+export function imageSourceFromEmbed(embed: Embed): ImageSource | null {
+  const url =
+    embed.image?.url ?? (embed.data.type === EmbedType.Image ? embed.thumbnail?.url : undefined);
+  if (!url) {
+    return null;
+  }
+
+  const pathname = new URL(url).pathname;
+  const filename = sanitizeFilename(pathname.split('/').pop() || 'image');
+
+  return {
+    url,
+    filename,
+    contentType: getContentTypeFromFilename(filename),
+    size: null,
+  };
+}
+
+/**
+ * Builds an image source from a link to an image
+ */
+export function imageSourceFromUrl(url: string): ImageSource {
+  let filename = 'image';
+  try {
+    filename = new URL(url).pathname.split('/').pop() || filename;
+  } catch {
+    // Invalid URLs are rejected when the image is fetched
+  }
+
+  return {
+    url,
+    filename: sanitizeFilename(filename),
+    contentType: getContentTypeFromFilename(filename),
+    size: null,
+    linked: true,
+  };
+}
+
+/**
+ * Infers an image MIME type from a filename's extension
+ */
+function getContentTypeFromFilename(filename: string): string | null {
+  const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_CONTENT_TYPES[extension] ?? null;
+}
+
+/**
+ * Checks whether a content type is one the bot can process
+ */
+function isSupportedImageFormat(contentType: string): contentType is SupportedImageFormat {
+  return (SupportedImageFormats as readonly string[]).includes(contentType);
+}
+
+/**
+ * Checks an image source against the supported formats and size limit
+ *
+ * This is only a first pass on what Discord reports: the real format is
+ * detected from the downloaded bytes when the image is prepared.
+ *
+ * @returns The validation error, or null if the image is acceptable
+ */
+export function validateImageSource(source: ImageSource): ImageValidationError | null {
+  // Fall back to the extension when Discord reports no or only a generic content type
+  const contentType =
+    source.contentType && source.contentType !== 'application/octet-stream'
+      ? source.contentType
+      : getContentTypeFromFilename(source.filename);
+  // Links often have no extension, so their type is checked from the downloaded bytes
+  if (source.linked && !contentType) {
+    return null;
+  }
+  if (!contentType || !isSupportedImageFormat(contentType)) {
+    return 'invalid-type';
+  }
+
+  if (source.size !== null && source.size > MAX_FILE_SIZE) {
+    return 'too-large';
+  }
+
+  return null;
+}
+
+/**
+ * Message shown for each reason an image can't be downloaded
+ */
+const FETCH_ERROR_KEYS: Record<FetchImageError, MessageKey> = {
+  'invalid-url': 'error.invalidUrl',
+  'blocked-host': 'error.urlBlocked',
+  'blocked-address': 'error.urlBlocked',
+  'too-many-redirects': 'error.downloadFailed',
+  timeout: 'error.downloadTimeout',
+  'http-error': 'error.downloadFailed',
+  'not-an-image': 'error.unsupportedType',
+  'too-large': 'error.fileTooLarge',
+  network: 'error.downloadFailed',
+};
+
+/**
+ * Validates, downloads and identifies a single image
+ *
+ * Never throws: validation and download failures are reported as
+ * unsuccessful results so one bad image cannot fail a whole batch.
+ */
+export async function identifyImageSource(source: ImageSource): Promise<ImageIdentification> {
+  const validationError = validateImageSource(source);
+  if (validationError) {
+    return { source, result: createValidationFailure(validationError) };
+  }
+
+  try {
+    // Enforces the size limit while downloading, for sources without a known size
+    const fetched = await fetchImage(source.url, MAX_FILE_SIZE);
+    if (!fetched.ok) {
+      logDebug('Image download rejected', { fileName: source.filename, reason: fetched.error });
+      return {
+        source,
+        result: {
+          success: false,
+          detections: [],
+          processingTime: 0,
+          ...identificationError(FETCH_ERROR_KEYS[fetched.error]),
+        },
+      };
+    }
+
+    // Convert, orient, strip metadata and downscale before uploading
+    const prepared = await prepareImage(fetched.buffer);
+    if (!prepared.ok) {
+      return { source, result: createValidationFailure(prepared.error) };
+    }
+
+    const result = await identifyCard(
+      prepared.image.buffer,
+      source.filename,
+      prepared.image.mimeType
+    );
+    return { source, result };
+  } catch (error) {
+    logError('Failed to process image', error, { fileName: source.filename });
+    return {
+      source,
+      result: {
+        success: false,
+        detections: [],
+        processingTime: 0,
+        ...identificationError('error.processImage'),
+      },
+    };
+  }
+}
+
+/**
+ * Builds the unsuccessful result reported for an image that failed validation
+ */
+function createValidationFailure(validationError: ImageValidationError): CardIdentificationResult {
+  return {
+    success: false,
+    detections: [],
+    processingTime: 0,
+    ...identificationError(
+      validationError === 'invalid-type' ? 'error.unsupportedType' : 'error.fileTooLarge'
+    ),
+  };
+}
+
+/**
+ * Identifies several images with bounded concurrency, preserving their order
+ */
+export async function identifyImageSources(sources: ImageSource[]): Promise<ImageIdentification[]> {
+  return mapWithConcurrency(sources, config.cardsight.concurrency, identifyImageSource);
+}
+
+/**
+ * Queues the identification of one or more images
+ *
+ * @returns Whether the queue accepted the request and, if so, a promise for the identifications
+ */
+export function enqueueIdentification(
+  sources: ImageSource[],
+  options: EnqueueOptions = {}
+): EnqueueResult<ImageIdentification[]> {
+  const queued = identificationQueue.enqueue(() => identifyImageSources(sources), options);
+  if (!queued.accepted) {
+    recordQueueRejection();
+  }
+  return queued;
+}
+
+/**
+ * Drops detections below a guild's minimum confidence
+ */
+export function applyConfidenceThreshold(
+  identifications: ImageIdentification[],
+  settings: Pick<GuildSettings, 'minConfidence'>
+): ImageIdentification[] {
+  return identifications.map(({ source, result }) => ({
+    source,
+    result: {
+      ...result,
+      detections: result.detections.filter(({ confidence }) =>
+        meetsMinConfidence(confidence, settings)
+      ),
+    },
+  }));
+}
+
+/**
+ * Creates the result pages for one or more identified images
+ *
+ * The first page is a summary: the full identification embed for a single
+ * image, or one combined embed grouping the detections by source image for
+ * several. When more than one card was detected, a detail page per card follows.
+ *
+ * @param settings - Guild display settings; thumbnails are left out when disabled
+ * @param locale - Language to render in
+ */
+export function createIdentificationResultPages(
+  identifications: ImageIdentification[],
+  settings: Pick<GuildSettings, 'showThumbnails'> = getDefaultGuildSettings(),
+  locale: SupportedLocale = DEFAULT_LOCALE
+): EmbedBuilder[] {
+  const thumbnailUrl = (source: ImageSource): string | undefined =>
+    settings.showThumbnails ? source.url : undefined;
+
+  if (identifications.length > 1) {
+    return [
+      createBatchIdentificationEmbed(identifications, locale),
+      ...identifications.flatMap(({ source, result }, imageIndex) =>
+        result.detections.map((detection, index) =>
+          createCardDetailEmbed(
+            detection,
+            result,
+            t(locale, 'identify.page.imageCard', {
+              image: imageIndex + 1,
+              index: index + 1,
+              count: result.detections.length,
+            }),
+            thumbnailUrl(source),
+            locale
+          )
+        )
+      ),
+    ];
+  }
+
+  // Pass image URL for thumbnail
+  const [{ source, result }] = identifications;
+  if (result.degraded) {
+    return [createServiceDegradedEmbed(locale)];
+  }
+  return result.success
+    ? createIdentificationPages(result, thumbnailUrl(source), locale)
+    : [createIdentificationErrorEmbed(result, locale)];
+}
+
+/**
+ * Creates the summary embed for one or more identified images
+ */
+export function createIdentificationResultEmbed(
+  identifications: ImageIdentification[],
+  settings?: Pick<GuildSettings, 'showThumbnails'>,
+  locale?: SupportedLocale
+): EmbedBuilder {
+  return createIdentificationResultPages(identifications, settings, locale)[0];
+}
+
+/**
+ * Logs a successful identification if any cards were detected
+ */
+export function logIdentificationSuccess(
+  identifications: ImageIdentification[],
+  context: Record<string, unknown>
+): void {
+  const detectionsCount = identifications.reduce(
+    (count, { result }) => count + result.detections.length,
+    0
+  );
+  if (detectionsCount > 0) {
+    logger.info('Card identification successful', {
+      ...context,
+      imagesCount: identifications.length,
+      failedImagesCount: identifications.filter(({ result }) => !result.success).length,
+      detectionsCount,
+      processingTime: Math.max(...identifications.map(({ result }) => result.processingTime)),
+    });
+  }
+}
+
+/**
+ * Runs everything that follows an identification: records it in the history,
+ * then posts it to the guild's audit log and webhooks in the background
+ *
+ * Takes the unfiltered results. Failures are logged rather than thrown, since
+ * the results can still be shown.
+ */
+export async function onIdentified(
+  identifications: ImageIdentification[],
+  context: { client: Client; user: User; guildId: string | null; channelId: string | null }
+): Promise<void> {
+  try {
+    await recordHistory({
+      userId: context.user.id,
+      userTag: context.user.tag,
+      guildId: context.guildId,
+      channelId: context.channelId,
+      identifications,
+    });
+  } catch (error) {
+    logError('Failed to record identification history', error, { user: context.user.tag });
+  }
+
+  void postAuditLog(context.client, context.guildId, {
+    type: 'identification',
+    user: context.user,
+    channelId: context.channelId,
+    identifications,
+  });
+  void dispatchIdentificationWebhooks(context.guildId, {
+    channelId: context.channelId,
+    userId: context.user.id,
+    identifications,
+  });
+}
+
+/**
+ * Identifies one or more images and replies to an interaction with the results
+ *
+ * The reply follows the guild's settings for visibility, confidence and thumbnails,
+ * and is written in the user's language.
+ */
+export async function replyWithIdentification(
+  interaction: RepliableInteraction,
+  sources: ImageSource[]
+): Promise<void> {
+  const settings = await getGuildSettings(interaction.guildId);
+  const locale = resolveLocale(interaction);
+
+  const positionUpdates = createQueuePositionUpdates(interaction, sources.length, locale);
+  const queued = enqueueIdentification(sources, {
+    lane: getQueueLane(interaction),
+    onPositionChange: (position) => positionUpdates.update(position),
+    onStart: () => positionUpdates.update(null),
+  });
+
+  if (!queued.accepted) {
+    await interaction.reply({ embeds: [createQueueFullEmbed(locale)], ephemeral: true });
+    return;
+  }
+
+  // Show processing message, with the queue position while the request waits
+  const replied = interaction.reply({
+    embeds: [createProcessingEmbed(sources.length, queued.position, locale)],
+    ephemeral: settings.ephemeralResults,
+  });
+  positionUpdates.start(queued.position, replied);
+  await replied;
+
+  const results = await queued.result;
+  await onIdentified(results, interaction);
+  const identifications = applyConfidenceThreshold(results, settings);
+  await positionUpdates.settled();
+
+  // Update the reply with results
+  const extraRows = [
+    createAddToCollectionRow(identifications, locale),
+    await createFeedbackRow(results, settings, locale),
+  ].filter((row) => row !== null);
+  await editReplyWithPages(
+    interaction,
+    createIdentificationResultPages(identifications, settings, locale),
+    extraRows
+  );
+
+  logIdentificationSuccess(identifications, { user: interaction.user.tag });
+}
+
+// Minimum time between queue position edits of a processing message
+const QUEUE_UPDATE_INTERVAL = 3000;
+
+/**
+ * Keeps a processing message in sync with its request's queue position
+ */
+interface QueuePositionUpdates {
+  // Begins editing once the initial reply, showing the given position, is sent
+  start(initialPosition: QueuePosition | null, replied: Promise<unknown>): void;
+  // Shows a new position, or clears it (null) once the request starts
+  update(position: QueuePosition | null): void;
+  // Cancels pending updates and waits for edits in progress
+  settled(): Promise<void>;
+}
+
+/**
+ * Creates throttled, in-order queue position edits for an interaction's processing message
+ *
+ * Updates before `start` are ignored: the initial reply already shows the current position.
+ */
+function createQueuePositionUpdates(
+  interaction: RepliableInteraction,
+  imageCount: number,
+  locale: SupportedLocale
+): QueuePositionUpdates {
+  let started = false;
+  let shown: QueuePosition | null = null;
+  let latest: QueuePosition | null = null;
+  let timer: NodeJS.Timeout | undefined;
+  let edits: Promise<unknown> = Promise.resolve();
+
+  const flush = (): void => {
+    timer = undefined;
+    if (latest === shown) {
+      return;
+    }
+
+    const position = latest;
+    shown = position;
+    edits = edits
+      .then(() =>
+        interaction.editReply({ embeds: [createProcessingEmbed(imageCount, position, locale)] })
+      )
+      .catch((error: unknown) => logDebug('Failed to update queue position', { error }));
+  };
+
+  return {
+    start(initialPosition, replied) {
+      started = true;
+      shown = latest = initialPosition;
+      edits = replied;
+    },
+    update(position) {
+      if (!started) {
+        return;
+      }
+
+      latest = position;
+      if (position === null) {
+        clearTimeout(timer);
+        flush();
+      } else {
+        timer ??= setTimeout(flush, QUEUE_UPDATE_INTERVAL);
+      }
+    },
+    async settled() {
+      clearTimeout(timer);
+      timer = undefined;
+      await edits;
+    },
+  };
+}
+
+/**
+ * Maps items through an async function with at most `limit` calls in flight,
+ * preserving input order in the results
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  async function worker(): Promise<void> {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return results;
+}
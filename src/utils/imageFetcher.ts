@@ -0,0 +1,322 @@
+/**
+ * Image Fetcher
+ *
+ * Downloads images from Discord attachments and user-supplied links without
+ * trusting the remote server: only http(s) URLs on permitted hosts are
+ * fetched, every address a hostname resolves to is checked against private,
+ * loopback and link-local ranges at connect time (so DNS rebinding can't slip
+ * past the check), redirects are followed manually and re-checked, and the
+ * body is streamed with connect and read timeouts and abandoned as soon as it
+ * passes the size limit. The result must declare an image Content-Type and
+ * start with a recognized image signature.
+ */
+
+import dns from 'node:dns';
+import http, { type IncomingMessage } from 'node:http';
+import https from 'node:https';
+import net, { type LookupFunction } from 'node:net';
+import { config } from '../config/index.js';
+import { detectImageFormat } from './imageProcessing.js';
+import { logDebug } from './logger.js';
+import { MAX_FILE_SIZE } from '../types/index.js';
+
+/**
+ * Reasons an image can't be fetched
+ */
+export type FetchImageError =
+  | 'invalid-url'
+  | 'blocked-host'
+  | 'blocked-address'
+  | 'too-many-redirects'
+  | 'timeout'
+  | 'http-error'
+  | 'not-an-image'
+  | 'too-large'
+  | 'network';
+
+/**
+ * Outcome of fetching an image
+ */
+export type FetchImageResult =
+  { ok: true; buffer: Buffer; contentType: string | null } | { ok: false; error: FetchImageError };
+
+// Discord's own CDN hosts, always allowed so attachments work with a restrictive allowlist
+const DISCORD_CDN_HOSTS = ['cdn.discordapp.com', 'media.discordapp.net'];
+
+// Content types that may carry an image whose real format is checked from its bytes
+const GENERIC_CONTENT_TYPES = ['application/octet-stream', 'binary/octet-stream'];
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+/**
+ * Address ranges that must never be fetched: unspecified, private, loopback,
+ * link-local, carrier-grade NAT, benchmarking, multicast and reserved ranges
+ *
+ * IPv4-mapped IPv6 addresses are checked against the IPv4 ranges by BlockList.
+ */
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64
+  ['2001:db8::', 32], // Documentation
+  ['2002::', 16], // 6to4, which can embed a private IPv4 address
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['fec0::', 10], // Deprecated site-local
+  ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * A failed fetch, converted to a result at the module boundary
+ */
+class ImageFetchFailure extends Error {
+  constructor(readonly reason: FetchImageError) {
+    super(`Image fetch failed: ${reason}`);
+  }
+}
+
+/**
+ * Whether an IP address is in a range that must never be fetched
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Whether a hostname is, or is a subdomain of, one of the listed hosts
+ */
+function matchesHost(hostname: string, hosts: string[]): boolean {
+  return hosts.some((host) => {
+    const normalized = host.toLowerCase();
+    return hostname === normalized || hostname.endsWith(`.${normalized}`);
+  });
+}
+
+/**
+ * Checks a URL against the scheme, host allowlist/denylist and literal-address rules
+ *
+ * Hostnames are only resolved when connecting; see guardedLookup.
+ *
+ * @returns The parsed URL, or the reason it can't be fetched
+ */
+export function checkImageUrl(
+  rawUrl: string
+): { ok: true; url: URL } | { ok: false; error: FetchImageError } {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return { ok: false, error: 'invalid-url' };
+  }
+
+  if ((url.protocol !== 'http:' && url.protocol !== 'https:') || url.username || url.password) {
+    return { ok: false, error: 'invalid-url' };
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (net.isIP(hostname) !== 0 && isBlockedAddress(hostname)) {
+    return { ok: false, error: 'blocked-address' };
+  }
+
+  if (matchesHost(hostname, DISCORD_CDN_HOSTS)) {
+    return { ok: true, url };
+  }
+  if (matchesHost(hostname, config.fetch.deniedHosts)) {
+    return { ok: false, error: 'blocked-host' };
+  }
+  if (config.fetch.allowedHosts.length > 0 && !matchesHost(hostname, config.fetch.allowedHosts)) {
+    return { ok: false, error: 'blocked-host' };
+  }
+
+  return { ok: true, url };
+}
+
+/**
+ * DNS lookup that refuses hostnames resolving to a blocked address
+ *
+ * Runs when the socket connects, so the checked address is the one used.
+ */
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      callback(new ImageFetchFailure('blocked-address'), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Sends a GET request and resolves once the response headers arrive
+ */
+function requestHeaders(url: URL): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.get(url, {
+      lookup: guardedLookup,
+      headers: { accept: 'image/*', 'user-agent': 'CardSightAI-Discord-Bot' },
+    });
+
+    // Covers DNS, connecting, TLS and waiting for the headers
+    const connectTimer = setTimeout(() => {
+      request.destroy(new ImageFetchFailure('timeout'));
+    }, config.fetch.connectTimeoutMs);
+
+    request.once('response', (response) => {
+      clearTimeout(connectTimer);
+      resolve(response);
+    });
+    request.on('error', (error) => {
+      clearTimeout(connectTimer);
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Reads a response body, giving up once it passes the size limit or stalls
+ */
+function readBody(response: IncomingMessage, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let received = 0;
+
+    response.setTimeout(config.fetch.readTimeoutMs, () => {
+      response.destroy(new ImageFetchFailure('timeout'));
+    });
+    response.on('data', (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > maxBytes) {
+        response.destroy(new ImageFetchFailure('too-large'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    response.once('end', () => resolve(Buffer.concat(chunks)));
+    response.on('error', reject);
+  });
+}
+
+/**
+ * Whether a response's declared Content-Type could be an image
+ */
+function isImageContentType(contentType: string | null): boolean {
+  return (
+    contentType === null ||
+    contentType.startsWith('image/') ||
+    GENERIC_CONTENT_TYPES.includes(contentType)
+  );
+}
+
+/**
+ * Follows redirects up to the configured limit and downloads the final image
+ */
+async function fetchWithRedirects(url: URL, maxBytes: number): Promise<FetchImageResult> {
+  let current = url;
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await requestHeaders(current);
+    const { statusCode = 0, headers } = response;
+
+    if (REDIRECT_STATUSES.includes(statusCode) && headers.location) {
+      response.resume();
+      if (redirects >= config.fetch.maxRedirects) {
+        return { ok: false, error: 'too-many-redirects' };
+      }
+
+      const checked = checkImageUrl(new URL(headers.location, current).toString());
+      if (!checked.ok) {
+        return checked;
+      }
+      logDebug('Following image redirect', { from: current.host, to: checked.url.host });
+      current = checked.url;
+      continue;
+    }
+
+    if (statusCode < 200 || statusCode >= 300) {
+      response.resume();
+      return { ok: false, error: 'http-error' };
+    }
+
+    const contentType = headers['content-type']?.split(';')[0].trim().toLowerCase() ?? null;
+    if (!isImageContentType(contentType)) {
+      response.resume();
+      return { ok: false, error: 'not-an-image' };
+    }
+
+    const declaredLength = Number(headers['content-length']);
+    if (Number.isFinite(declaredLength) && declaredLength > maxBytes) {
+      response.destroy();
+      return { ok: false, error: 'too-large' };
+    }
+
+    const buffer = await readBody(response, maxBytes);
+    if (!detectImageFormat(buffer)) {
+      return { ok: false, error: 'not-an-image' };
+    }
+
+    return { ok: true, buffer, contentType };
+  }
+}
+
+/**
+ * Downloads an image from an attachment or user-supplied URL
+ *
+ * Never throws: every failure is reported as a FetchImageError.
+ *
+ * @param maxBytes - Largest body accepted (default: the 25MB upload limit)
+ */
+export async function fetchImage(
+  rawUrl: string,
+  maxBytes: number = MAX_FILE_SIZE
+): Promise<FetchImageResult> {
+  const checked = checkImageUrl(rawUrl);
+  if (!checked.ok) {
+    return checked;
+  }
+
+  try {
+    return await fetchWithRedirects(checked.url, maxBytes);
+  } catch (error) {
+    if (error instanceof ImageFetchFailure) {
+      return { ok: false, error: error.reason };
+    }
+    logDebug('Image download failed', {
+      host: checked.url.host,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { ok: false, error: 'network' };
+  }
+}
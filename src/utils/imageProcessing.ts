@@ -0,0 +1,196 @@
+/**
+ * Image Processing
+ *
+ * Prepares downloaded images for CardSight, entirely offline: detects the real
+ * format from the file's magic bytes, converts it to JPEG (decoding HEIC and
+ * taking the first frame of animations), applies the EXIF orientation, strips
+ * all metadata, and downscales until the image fits the configured limits.
+ */
+
+import convertHeic from 'heic-convert';
+import sharp from 'sharp';
+import { config } from '../config/index.js';
+import { logDebug, logWarning } from './logger.js';
+import type { ImageValidationError } from './identification.js';
+
+/**
+ * Image formats recognized from their magic bytes
+ */
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'heic' | 'avif' | 'tiff';
+
+/**
+ * An image ready to send to CardSight
+ */
+export interface PreparedImage {
+  buffer: Buffer;
+  mimeType: 'image/jpeg';
+  // Format of the original image
+  sourceFormat: ImageFormat;
+  width: number;
+  height: number;
+}
+
+/**
+ * Outcome of preparing an image
+ */
+export type PrepareImageResult =
+  { ok: true; image: PreparedImage } | { ok: false; error: ImageValidationError };
+
+// ISO base media file brands (bytes 8-11) used by HEIF images
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+const AVIF_BRANDS = ['avif', 'avis'];
+
+// JPEG quality for the first encode, and the lowest quality tried before shrinking further
+const INITIAL_QUALITY = 90;
+const MIN_QUALITY = 60;
+const QUALITY_STEP = 15;
+
+// Scale applied to the dimensions on each further attempt to meet the byte budget
+const SHRINK_FACTOR = 0.75;
+const MAX_ENCODE_ATTEMPTS = 8;
+
+/**
+ * Detects an image's format from its magic bytes
+ *
+ * @returns The format, or null if the data isn't a recognized image
+ */
+export function detectImageFormat(buffer: Buffer): ImageFormat | null {
+  const ascii = (start: number, end: number): string => buffer.toString('latin1', start, end);
+
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (buffer.length >= 8 && ascii(0, 8) === '\x89PNG\r\n\x1a\n') {
+    return 'png';
+  }
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+    return 'gif';
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return 'webp';
+  }
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (AVIF_BRANDS.includes(brand)) {
+      return 'avif';
+    }
+    if (HEIC_BRANDS.includes(brand)) {
+      return 'heic';
+    }
+  }
+  if (ascii(0, 4) === 'II*\x00' || ascii(0, 4) === 'MM\x00*') {
+    return 'tiff';
+  }
+
+  return null;
+}
+
+/**
+ * Decodes HEIC images to JPEG, which sharp can read; other formats pass through
+ *
+ * sharp's prebuilt binaries only include the AV1 (AVIF) flavor of HEIF.
+ */
+async function toDecodableImage(buffer: Buffer, format: ImageFormat): Promise<Buffer> {
+  if (format !== 'heic') {
+    return buffer;
+  }
+
+  return Buffer.from(await convertHeic({ buffer, format: 'JPEG', quality: 0.95 }));
+}
+
+/**
+ * Encodes an image as an upright, metadata-free JPEG that fits within a square
+ */
+async function encodeJpeg(
+  input: Buffer,
+  maxDimension: number,
+  quality: number
+): Promise<{ data: Buffer; width: number; height: number }> {
+  // Only the first frame of animated images is read; sharp writes no metadata by default
+  const { data, info } = await sharp(input, { pages: 1 })
+    .rotate() // Apply the EXIF orientation
+    .resize({
+      width: maxDimension,
+      height: maxDimension,
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .flatten({ background: '#ffffff' }) // JPEG has no transparency
+    .jpeg({ quality })
+    .toBuffer({ resolveWithObject: true });
+
+  return { data, width: info.width, height: info.height };
+}
+
+/**
+ * Prepares an image for identification
+ *
+ * Lowers the JPEG quality and then the dimensions until the image fits the
+ * configured byte budget.
+ *
+ * @returns The prepared image, or why it can't be used
+ */
+export async function prepareImage(buffer: Buffer): Promise<PrepareImageResult> {
+  const sourceFormat = detectImageFormat(buffer);
+  if (!sourceFormat) {
+    return { ok: false, error: 'invalid-type' };
+  }
+
+  let decodable: Buffer;
+  try {
+    decodable = await toDecodableImage(buffer, sourceFormat);
+  } catch (error) {
+    logWarning('Failed to decode image', {
+      format: sourceFormat,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { ok: false, error: 'invalid-type' };
+  }
+
+  let maxDimension = config.image.maxDimension;
+  let quality = INITIAL_QUALITY;
+
+  for (let attempt = 0; attempt < MAX_ENCODE_ATTEMPTS; attempt++) {
+    let encoded: Awaited<ReturnType<typeof encodeJpeg>>;
+    try {
+      encoded = await encodeJpeg(decodable, maxDimension, quality);
+    } catch (error) {
+      logWarning('Failed to convert image', {
+        format: sourceFormat,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { ok: false, error: 'invalid-type' };
+    }
+
+    if (encoded.data.length <= config.image.maxBytes) {
+      logDebug('Prepared image for identification', {
+        format: sourceFormat,
+        originalSize: buffer.length,
+        preparedSize: encoded.data.length,
+        width: encoded.width,
+        height: encoded.height,
+        quality,
+      });
+
+      return {
+        ok: true,
+        image: {
+          buffer: encoded.data,
+          mimeType: 'image/jpeg',
+          sourceFormat,
+          width: encoded.width,
+          height: encoded.height,
+        },
+      };
+    }
+
+    // Too large: trade quality first, then size
+    if (quality > MIN_QUALITY) {
+      quality = Math.max(MIN_QUALITY, quality - QUALITY_STEP);
+    } else {
+      maxDimension = Math.floor(Math.max(encoded.width, encoded.height) * SHRINK_FACTOR);
+    }
+  }
+
+  return { ok: false, error: 'too-large' };
+}
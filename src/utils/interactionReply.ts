@@ -0,0 +1,30 @@
+/**
+ * Interaction Reply Helpers
+ *
+ * Shared helpers for responding to interactions regardless of their state.
+ */
+
+import type { EmbedBuilder, MessageComponentInteraction, RepliableInteraction } from 'discord.js';
+import { logError } from './logger.js';
+
+/**
+ * Sends an error embed, replying or following up depending on interaction state
+ *
+ * Never throws: failures to deliver the error are only logged.
+ */
+export async function replyWithError(
+  interaction: RepliableInteraction | MessageComponentInteraction,
+  errorEmbed: EmbedBuilder
+): Promise<void> {
+  try {
+    if (interaction.deferred) {
+      await interaction.editReply({ embeds: [errorEmbed] });
+    } else if (interaction.replied) {
+      await interaction.followUp({ embeds: [errorEmbed], ephemeral: true });
+    } else {
+      await interaction.reply({ embeds: [errorEmbed], ephemeral: true });
+    }
+  } catch (replyError) {
+    logError('Failed to send error message to user', replyError);
+  }
+}
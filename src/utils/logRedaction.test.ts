@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { hashPersonalValue, redactLogEntry } from './logRedaction.js';
+
+describe('redactLogEntry', () => {
+  it('hashes personal fields, including nested ones, in hash mode', () => {
+    const entry = redactLogEntry(
+      {
+        level: 'info',
+        message: 'Identified',
+        userId: '123456789012345678',
+        guildId: '876543210987654321',
+        image: { filename: 'my-card.jpg', size: 1024 },
+      },
+      'hash'
+    );
+
+    assert.deepEqual(entry, {
+      level: 'info',
+      message: 'Identified',
+      userId: hashPersonalValue('123456789012345678'),
+      guildId: hashPersonalValue('876543210987654321'),
+      image: { filename: hashPersonalValue('my-card.jpg'), size: 1024 },
+    });
+  });
+
+  it('removes personal fields in drop mode', () => {
+    const entry = redactLogEntry(
+      { level: 'info', message: 'Identified', user: 'someone#0001', channelId: '1', count: 2 },
+      'drop'
+    );
+
+    assert.deepEqual(entry, { level: 'info', message: 'Identified', count: 2 });
+  });
+
+  it('masks attachment URLs, image filenames and tokens in text', () => {
+    const entry = redactLogEntry(
+      {
+        level: 'warn',
+        message:
+          'Failed to fetch https://cdn.discordapp.com/attachments/1/2/card.png for front.jpg ' +
+          'with Bearer abc.def and ?api_key=s3cret',
+      },
+      'hash'
+    );
+
+    assert.equal(
+      entry.message,
+      'Failed to fetch [attachment-url] for [filename] with Bearer [redacted] and ?api_key=[redacted]'
+    );
+  });
+
+  it('leaves entries unchanged when redaction is off', () => {
+    const entry = redactLogEntry(
+      { level: 'info', message: 'Uploaded front.jpg', userId: '123456789012345678' },
+      'off'
+    );
+
+    assert.deepEqual(entry, {
+      level: 'info',
+      message: 'Uploaded front.jpg',
+      userId: '123456789012345678',
+    });
+  });
+
+  it('flattens errors so their message and stack are kept', () => {
+    const error = new Error('Request failed for token=abc123');
+    const entry = redactLogEntry({ level: 'error', message: 'Failed', error }, 'hash');
+
+    const redacted = entry.error as unknown as Record<string, unknown>;
+
+    assert.equal(redacted['name'], 'Error');
+    assert.equal(redacted['message'], 'Request failed for token=[redacted]');
+    assert.match(String(redacted['stack']), /^Error: Request failed for token=\[redacted\]/);
+  });
+
+  it('truncates circular references but keeps repeated objects', () => {
+    const shared = { count: 1 };
+    const circular: Record<string, unknown> = { name: 'loop' };
+    circular['self'] = circular;
+
+    const entry = redactLogEntry(
+      { level: 'info', message: 'Done', first: shared, second: shared, circular },
+      'hash'
+    );
+
+    assert.deepEqual(entry.first, { count: 1 });
+    assert.deepEqual(entry.second, { count: 1 });
+    assert.deepEqual(entry.circular, { name: 'loop', self: '[truncated]' });
+  });
+
+  it('leaves symbol-keyed fields untouched', () => {
+    const level = Symbol.for('level');
+    const entry = redactLogEntry({ level: 'info', message: 'Done', [level]: 'info' }, 'drop');
+
+    assert.equal(entry[level], 'info');
+  });
+});
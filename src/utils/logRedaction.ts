@@ -0,0 +1,233 @@
+/**
+ * Log Redaction
+ *
+ * Scrubs personal data and secrets from log entries before they are written,
+ * according to the PRIVACY_LOG_REDACTION setting:
+ *
+ * - `hash`: user tags, user, server and channel IDs, image URLs and filenames
+ *   are replaced by a short salted hash, so lines about the same user can
+ *   still be matched up
+ * - `drop`: those fields are removed entirely
+ * - `off`: entries are written unchanged
+ *
+ * In `hash` and `drop` modes, Discord attachment URLs, image filenames and
+ * token-like strings (Discord and bearer tokens, secret query parameters and
+ * the configured credentials) are also masked wherever they appear, including
+ * in messages and error text. Error objects are always flattened to plain objects so
+ * their message and stack survive JSON serialization.
+ */
+
+import { createHash } from 'node:crypto';
+import { config } from '../config/index.js';
+
+/**
+ * How personal data is treated in logs
+ */
+export type LogRedactionMode = 'off' | 'hash' | 'drop';
+
+// Fields holding a user's tag or display name
+const USER_NAME_KEYS = new Set([
+  'user',
+  'userTag',
+  'username',
+  'tag',
+  'author',
+  'reporter',
+  'displayName',
+]);
+
+// Fields holding a Discord user ID
+const USER_ID_KEYS = new Set([
+  'userId',
+  'authorId',
+  'reporterId',
+  'memberId',
+  'ownerId',
+  'enabledBy',
+]);
+
+// Fields holding the server or channel a user was active in
+const LOCATION_ID_KEYS = new Set(['guildId', 'channelId']);
+
+// Fields holding an image or attachment URL
+const URL_KEYS = new Set(['url', 'attachmentUrl', 'imageUrl', 'proxyUrl', 'proxyURL']);
+
+// Fields holding an uploaded file's name
+const FILENAME_KEYS = new Set(['filename', 'fileName']);
+
+// Every field whose value is hashed or dropped as a whole
+const PERSONAL_KEYS = new Set([
+  ...USER_NAME_KEYS,
+  ...USER_ID_KEYS,
+  ...LOCATION_ID_KEYS,
+  ...URL_KEYS,
+  ...FILENAME_KEYS,
+]);
+
+// Secrets recognizable by their shape, with their replacements
+const TOKEN_PATTERNS: [RegExp, string][] = [
+  // Discord bot and user tokens
+  [/[\w-]{23,28}\.[\w-]{6,7}\.[\w-]{27,}/g, '[redacted]'],
+  // Authorization header values
+  [/\bBearer\s+[\w\-.~+/]+=*/gi, 'Bearer [redacted]'],
+  // Secrets passed in query strings or key=value text
+  [/\b(api[_-]?key|access[_-]?token|token|secret|password|signature)=[^\s&"']+/gi, '$1=[redacted]'],
+];
+
+// Discord CDN attachment links, which identify the uploader's message
+const ATTACHMENT_URL_PATTERN =
+  /https?:\/\/(?:cdn\.discordapp\.com|media\.discordapp\.net)\/(?:ephemeral-)?attachments\/\S+/gi;
+
+// Image filenames, which users often name after themselves or their collection
+const IMAGE_FILENAME_PATTERN =
+  /[^\s/\\:"'`<>|]+\.(?:jpe?g|png|gif|webp|heic|heif|avif|bmp|tiff?)\b/gi;
+
+// Deeper structures are summarized rather than walked
+const MAX_DEPTH = 8;
+
+/**
+ * Hashes a personal value so it can be matched across lines but not read
+ */
+export function hashPersonalValue(value: string): string {
+  return `h:${createHash('sha256')
+    .update(`${config.privacy.hashSalt}:${value}`)
+    .digest('hex')
+    .slice(0, 12)}`;
+}
+
+/**
+ * Masks attachment URLs, image filenames and token-like strings in free text
+ */
+export function redactText(text: string): string {
+  let redacted = text
+    .replace(ATTACHMENT_URL_PATTERN, '[attachment-url]')
+    .replace(IMAGE_FILENAME_PATTERN, '[filename]');
+
+  for (const secret of getConfiguredSecrets()) {
+    redacted = redacted.split(secret).join('[redacted]');
+  }
+  for (const [pattern, replacement] of TOKEN_PATTERNS) {
+    redacted = redacted.replace(pattern, replacement);
+  }
+
+  return redacted;
+}
+
+/**
+ * Credentials from the environment that must never be logged
+ *
+ * Read directly so a missing credential doesn't throw while logging.
+ */
+function getConfiguredSecrets(): string[] {
+  return [process.env['DISCORD_TOKEN'], process.env['CARDSIGHTAI_API_KEY']].filter(
+    (secret): secret is string => typeof secret === 'string' && secret.length >= 8
+  );
+}
+
+/**
+ * Converts an error to a plain object that keeps its message and stack
+ */
+function serializeError(error: Error): Record<string, unknown> {
+  return {
+    ...Object.fromEntries(Object.entries(error)),
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+    ...(error.cause !== undefined ? { cause: error.cause } : {}),
+  };
+}
+
+/**
+ * Redacts one value of a log entry
+ *
+ * @param key - The field name, which decides how personal values are treated
+ * @returns The redacted value, or undefined to drop the field
+ */
+function redactValue(
+  key: string,
+  value: unknown,
+  mode: LogRedactionMode,
+  depth: number,
+  ancestors: Set<object>
+): unknown {
+  if (value instanceof Error) {
+    value = serializeError(value);
+  }
+  if (mode === 'off') {
+    return value;
+  }
+
+  if (PERSONAL_KEYS.has(key)) {
+    if (typeof value === 'string' || typeof value === 'number') {
+      return mode === 'hash' ? hashPersonalValue(String(value)) : undefined;
+    }
+  }
+
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (value instanceof Date || Buffer.isBuffer(value)) {
+    return value;
+  }
+  // Only a value containing itself is circular; the same object may appear
+  // under several keys
+  if (ancestors.has(value) || depth >= MAX_DEPTH) {
+    return '[truncated]';
+  }
+
+  ancestors.add(value);
+  try {
+    if (Array.isArray(value)) {
+      return value.map((item) => redactValue(key, item, mode, depth + 1, ancestors));
+    }
+    return redactObject(value as Record<string, unknown>, mode, depth + 1, ancestors);
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+/**
+ * Redacts every field of an object, dropping the ones redaction removes
+ */
+function redactObject(
+  object: Record<string, unknown>,
+  mode: LogRedactionMode,
+  depth: number,
+  ancestors: Set<object>
+): Record<string, unknown> {
+  const redacted: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(object)) {
+    const result = redactValue(key, value, mode, depth, ancestors);
+    if (result !== undefined) {
+      redacted[key] = result;
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Redacts a log entry's message and metadata in place
+ *
+ * Winston's internal symbol-keyed fields are left untouched.
+ */
+export function redactLogEntry<T extends Record<string | symbol, unknown>>(
+  entry: T,
+  mode: LogRedactionMode = config.privacy.logRedaction
+): T {
+  const ancestors = new Set<object>();
+  for (const key of Object.keys(entry)) {
+    if (key === 'level') {
+      continue;
+    }
+    const result = redactValue(key, entry[key], mode, 0, ancestors);
+    if (result === undefined) {
+      delete entry[key];
+    } else {
+      (entry as Record<string, unknown>)[key] = result;
+    }
+  }
+  return entry;
+}
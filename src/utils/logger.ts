@@ -2,80 +2,129 @@
  * Logging Utility
  *
  * Structured logging using Winston for better debugging and monitoring.
+ * Lines written while handling an interaction carry its correlation context
+ * (see correlation.ts) under `correlation`; the console shows its support code.
+ * Entries are redacted (see logRedaction.ts) before any transport writes them,
+ * and log files rotate daily and by size under LOG_DIR.
  */
 
+import path from 'node:path';
 import winston from 'winston';
+import DailyRotateFile from 'winston-daily-rotate-file';
 import { config } from '../config/index.js';
+import { getCorrelationLogFields } from './correlation.js';
+import { redactLogEntry } from './logRedaction.js';
 
-// Define log format
-const logFormat = winston.format.combine(
+// Attach the current correlation context, if any, to each entry
+const correlationFormat = winston.format((info) => {
+  const correlation = getCorrelationLogFields();
+  if (correlation) {
+    info.correlation = correlation;
+  }
+  return info;
+});
+
+// Scrub personal data and secrets according to the privacy settings
+const redactionFormat = winston.format((info) => redactLogEntry(info));
+
+// Shared by every transport; runs once per entry
+const baseFormat = winston.format.combine(
+  correlationFormat(),
+  winston.format.errors({ stack: true }),
+  winston.format.splat(),
+  redactionFormat()
+);
+
+// JSON lines, for files and log collectors
+const jsonFormat = winston.format.combine(
   winston.format.timestamp({
     format: 'YYYY-MM-DD HH:mm:ss',
   }),
-  winston.format.errors({ stack: true }),
-  winston.format.splat(),
   winston.format.json()
 );
 
+/**
+ * Formats an entry as one human-readable line, followed by its error if any
+ */
+const lineFormat = winston.format.printf(({ timestamp, level, message, correlation, ...meta }) => {
+  const supportCode = (correlation as { supportCode?: string } | undefined)?.supportCode;
+  let msg = `[${String(timestamp)}] ${String(level)}: ${supportCode ? `[${supportCode}] ` : ''}${String(message)}`;
+
+  // Add metadata if present
+  if (Object.keys(meta).length > 0) {
+    // Handle errors (flattened by the redaction format) specially
+    const error = meta.error as { message?: unknown; stack?: unknown } | undefined;
+    if (error && typeof error.message === 'string') {
+      msg += `\n  Error: ${error.message}`;
+      if (typeof error.stack === 'string' && config.app.nodeEnv === 'development') {
+        msg += `\n  Stack: ${error.stack}`;
+      }
+    } else {
+      // Format other metadata
+      const metaStr = Object.entries(meta)
+        .map(([key, value]) => `${key}=${JSON.stringify(value)}`)
+        .join(' ');
+      if (metaStr) {
+        msg += ` | ${metaStr}`;
+      }
+    }
+  }
+
+  return msg;
+});
+
+// Plain text lines, for files read by people
+const textFormat = winston.format.combine(
+  winston.format.timestamp({
+    format: 'YYYY-MM-DD HH:mm:ss',
+  }),
+  lineFormat
+);
+
 // Console log format for development
-const consoleFormat = winston.format.combine(
+const prettyFormat = winston.format.combine(
   winston.format.colorize({ all: true }),
   winston.format.timestamp({
     format: 'HH:mm:ss',
   }),
-  winston.format.printf(({ timestamp, level, message, ...meta }) => {
-    let msg = `[${String(timestamp)}] ${String(level)}: ${String(message)}`;
-
-    // Add metadata if present
-    if (Object.keys(meta).length > 0) {
-      // Handle error objects specially
-      if (meta.error && meta.error instanceof Error) {
-        msg += `\n  Error: ${meta.error.message}`;
-        if (meta.error.stack && config.app.nodeEnv === 'development') {
-          msg += `\n  Stack: ${meta.error.stack}`;
-        }
-      } else {
-        // Format other metadata
-        const metaStr = Object.entries(meta)
-          .map(([key, value]) => `${key}=${JSON.stringify(value)}`)
-          .join(' ');
-        if (metaStr) {
-          msg += ` | ${metaStr}`;
-        }
-      }
-    }
-
-    return msg;
-  })
+  lineFormat
 );
 
+/**
+ * Creates a file transport that rotates daily and when it reaches the size limit
+ *
+ * @param name - Base file name; the date is appended, e.g. error-2024-01-31.log
+ */
+function createRotatingFileTransport(name: string, level?: string): DailyRotateFile {
+  return new DailyRotateFile({
+    dirname: config.logging.dir,
+    filename: `${name}-%DATE%.log`,
+    datePattern: 'YYYY-MM-DD',
+    level,
+    maxSize: config.logging.maxSize,
+    maxFiles: config.logging.maxFiles,
+    zippedArchive: config.logging.zipArchives,
+    auditFile: path.join(config.logging.dir, `.${name}-audit.json`),
+    format: config.logging.fileFormat === 'text' ? textFormat : jsonFormat,
+  });
+}
+
 // Create the logger instance
 export const logger = winston.createLogger({
   level: config.app.logLevel,
-  format: logFormat,
+  format: baseFormat,
   defaultMeta: { service: 'cardsight-discord-bot' },
   transports: [
     // Console transport
     new winston.transports.Console({
-      format: config.app.nodeEnv === 'production' ? logFormat : consoleFormat,
+      format: config.logging.consoleFormat === 'json' ? jsonFormat : prettyFormat,
     }),
 
     // File transport for errors
-    new winston.transports.File({
-      filename: 'error.log',
-      level: 'error',
-      format: logFormat,
-    }),
+    createRotatingFileTransport('error', 'error'),
 
-    // File transport for all logs (optional, only in production)
-    ...(config.app.nodeEnv === 'production'
-      ? [
-          new winston.transports.File({
-            filename: 'combined.log',
-            format: logFormat,
-          }),
-        ]
-      : []),
+    // File transport for all logs (by default only in production)
+    ...(config.logging.combinedFile ? [createRotatingFileTransport('combined')] : []),
   ],
 });
 
@@ -99,11 +148,17 @@ export function logInteraction(
 /**
  * Logs an API call to CardSight
  */
-export function logApiCall(endpoint: string, duration?: number, success?: boolean): void {
+export function logApiCall(
+  endpoint: string,
+  duration?: number,
+  success?: boolean,
+  details?: Record<string, unknown>
+): void {
   logger.info(`CardSight API call`, {
     endpoint,
     duration: duration ? `${duration}ms` : undefined,
     success,
+    ...details,
   });
 }
 
@@ -130,3 +185,33 @@ export function logWarning(message: string, details?: Record<string, unknown>):
 export function logDebug(message: string, data?: unknown): void {
   logger.debug(message, { data });
 }
+
+/**
+ * Flushes and closes the log transports, so nothing is lost when the process exits
+ *
+ * The logger can't be used afterwards.
+ *
+ * @param timeoutMs - Longest time to wait for the file transports to finish writing
+ */
+export async function flushLogger(timeoutMs = 2000): Promise<void> {
+  const fileTransports = logger.transports.filter(
+    (transport) =>
+      transport instanceof winston.transports.File || transport instanceof DailyRotateFile
+  );
+  const finished = Promise.all(
+    fileTransports.map(
+      (transport) => new Promise<void>((resolve) => transport.once('finish', () => resolve()))
+    )
+  );
+
+  logger.end();
+
+  let timer: NodeJS.Timeout | undefined;
+  await Promise.race([
+    finished,
+    new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, timeoutMs);
+    }),
+  ]);
+  clearTimeout(timer);
+}
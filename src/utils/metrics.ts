@@ -0,0 +1,254 @@
+/**
+ * Metrics
+ *
+ * Minimal Prometheus-style counters, histograms and gauges for the bot,
+ * rendered in the Prometheus text exposition format by the HTTP server.
+ */
+
+import type { CardDetection } from 'cardsightai';
+
+type Labels = Record<string, string>;
+
+/**
+ * A metric that can render itself in the Prometheus text format
+ */
+interface Metric {
+  render(): string[];
+}
+
+// All metrics, in registration order
+const registry: Metric[] = [];
+
+/**
+ * Escapes a label value for the text format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Formats a label set as `{name="value",...}`, or an empty string without labels
+ */
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+/**
+ * A monotonically increasing counter, tracked per label set
+ */
+export class Counter implements Metric {
+  private readonly values = new Map<string, number>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string
+  ) {
+    registry.push(this);
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...Array.from(this.values, ([labels, value]) => `${this.name}${labels} ${value}`),
+    ];
+  }
+}
+
+/**
+ * A histogram with fixed upper bounds, tracked per label set
+ */
+export class Histogram implements Metric {
+  private readonly series = new Map<
+    string,
+    { labels: Labels; bucketCounts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[]
+  ) {
+    registry.push(this);
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.bucketCounts[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+    for (const [key, { labels, bucketCounts, sum, count }] of this.series) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${bucketCounts[index]}`
+        );
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${key} ${sum}`);
+      lines.push(`${this.name}_count${key} ${count}`);
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * A gauge whose value is read when metrics are rendered
+ */
+export class Gauge implements Metric {
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly collect: () => number
+  ) {
+    registry.push(this);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      `${this.name} ${this.collect()}`,
+    ];
+  }
+}
+
+/**
+ * Renders every registered metric in the Prometheus text format
+ */
+export function renderMetrics(): string {
+  return `${registry.flatMap((metric) => metric.render()).join('\n')}\n`;
+}
+
+// Bot metrics
+
+const commandsTotal = new Counter(
+  'cardsight_bot_commands_total',
+  'Slash and context-menu commands handled, by command and outcome'
+);
+
+const componentInteractionsTotal = new Counter(
+  'cardsight_bot_component_interactions_total',
+  'Button, select-menu and modal interactions handled, by handler'
+);
+
+const identificationDuration = new Histogram(
+  'cardsight_bot_identification_duration_seconds',
+  'Time taken to identify an image, including retries',
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+);
+
+const detectionsTotal = new Counter(
+  'cardsight_bot_detections_total',
+  'Cards detected in identified images, by confidence'
+);
+
+const cardsightErrorsTotal = new Counter(
+  'cardsight_bot_cardsight_errors_total',
+  'Failed CardSight identification calls, by HTTP status code'
+);
+
+const queueRejectionsTotal = new Counter(
+  'cardsight_bot_queue_rejections_total',
+  'Identification requests turned away because the queue was full'
+);
+
+// Last result of the CardSight health check, or null before the first check
+let cardsightHealthy: boolean | null = null;
+
+new Gauge(
+  'cardsight_bot_cardsight_up',
+  'Whether the last CardSight health check succeeded (-1 before the first check)',
+  () => (cardsightHealthy === null ? -1 : Number(cardsightHealthy))
+);
+
+/**
+ * Records a handled command
+ */
+export function recordCommand(
+  command: string,
+  outcome: 'success' | 'error' | 'rate_limited' | 'denied' | 'shutting_down'
+): void {
+  commandsTotal.inc({ command, outcome });
+}
+
+/**
+ * Records a handled component or modal interaction
+ */
+export function recordComponentInteraction(handler: string): void {
+  componentInteractionsTotal.inc({ handler });
+}
+
+/**
+ * Records a completed identification call
+ */
+export function recordIdentification(
+  durationMs: number,
+  labels: { cache: 'hit' | 'miss'; success: boolean }
+): void {
+  identificationDuration.observe(durationMs / 1000, {
+    cache: labels.cache,
+    success: String(labels.success),
+  });
+}
+
+/**
+ * Records the cards detected in an identified image
+ */
+export function recordDetections(detections: CardDetection[]): void {
+  detections.forEach((detection) => detectionsTotal.inc({ confidence: detection.confidence }));
+}
+
+/**
+ * Records a failed CardSight call
+ *
+ * @param status - The HTTP status code, or a short reason such as "network" when there is none
+ */
+export function recordCardSightError(status: number | string): void {
+  cardsightErrorsTotal.inc({ status: String(status) });
+}
+
+/**
+ * Records an identification request turned away by a full queue
+ */
+export function recordQueueRejection(): void {
+  queueRejectionsTotal.inc();
+}
+
+/**
+ * Records the result of a CardSight health check
+ */
+export function recordCardSightHealth(healthy: boolean): void {
+  cardsightHealthy = healthy;
+}
+
+/**
+ * Gets the result of the last CardSight health check, or null before the first check
+ */
+export function getCardSightHealth(): boolean | null {
+  return cardsightHealthy;
+}
@@ -0,0 +1,177 @@
+/**
+ * Mock Recognizer
+ *
+ * Offline card recognition backend driven by a JSON fixtures file. Each
+ * scenario returns canned detections after a simulated latency, or fails the
+ * way the CardSight API would (401, 413, 429, 5xx or a network error), so every
+ * branch of the bot can be demoed without credentials.
+ *
+ * An image whose filename contains a scenario's name gets that scenario, for
+ * example `error-429.jpg`. Other images cycle through the scenarios that succeed.
+ *
+ * Catalog searches and autocomplete are answered from the fixtures' catalog
+ * cards, matching text case-insensitively.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import type { CardDetection } from 'cardsightai';
+import { CardSightAIError } from 'cardsightai';
+import { logDebug } from './logger.js';
+import type {
+  CardRecognizer,
+  CatalogAutocompleteField,
+  CatalogCardSummary,
+  CatalogSearchRequest,
+  CatalogSearchResponse,
+  RecognitionRequest,
+  RecognitionResponse,
+} from './recognition.js';
+
+// Autocomplete suggestions returned at most, as with the CardSight API
+const MAX_SUGGESTIONS = 10;
+
+/**
+ * A canned recognition outcome
+ */
+export interface MockScenario {
+  // Selects the scenario when the image filename contains it
+  name: string;
+  // Simulated response time, overriding the fixtures' default
+  latencyMs?: number;
+  // Cards returned on success
+  detections?: CardDetection[];
+  // HTTP status to fail with instead of succeeding
+  status?: number;
+  // Simulates a connection failure instead of an HTTP response
+  networkError?: boolean;
+  // Error message for failures
+  message?: string;
+  // Retry-after hint, in seconds, sent with failures
+  retryAfter?: number;
+}
+
+/**
+ * Contents of a mock fixtures file
+ */
+export interface MockFixtures {
+  // Default simulated response time
+  latencyMs?: number;
+  // Result of health checks (default: healthy)
+  healthy?: boolean;
+  scenarios: MockScenario[];
+  // Cards served by catalog searches and autocomplete
+  catalog?: CatalogCardSummary[];
+}
+
+/**
+ * Whether a scenario fails rather than returning detections
+ */
+function isFailure(scenario: MockScenario): boolean {
+  return scenario.status !== undefined || scenario.networkError === true;
+}
+
+/**
+ * Whether a catalog value contains the searched text, ignoring case
+ *
+ * An empty search matches everything.
+ */
+function matchesText(value: string | undefined, search: string | undefined): boolean {
+  return !search || (value ?? '').toLowerCase().includes(search.toLowerCase());
+}
+
+/**
+ * Recognizes cards from fixtures instead of calling CardSight
+ */
+export class MockRecognizer implements CardRecognizer {
+  readonly name = 'mock';
+  private readonly fixtures: MockFixtures;
+  private nextDefault = 0;
+
+  /**
+   * @param fixturesPath - Path of the fixtures file, relative to the working directory
+   * @throws If the fixtures file can't be read or has no scenarios
+   */
+  constructor(fixturesPath: string) {
+    const filePath = path.resolve(fixturesPath);
+    this.fixtures = JSON.parse(readFileSync(filePath, 'utf8')) as MockFixtures;
+
+    if (!Array.isArray(this.fixtures.scenarios) || this.fixtures.scenarios.length === 0) {
+      throw new Error(`Mock recognition fixtures in ${filePath} have no scenarios`);
+    }
+  }
+
+  async identify(request: RecognitionRequest): Promise<RecognitionResponse> {
+    const scenario = this.selectScenario(request.filename);
+    logDebug('Mock recognizer selected scenario', {
+      scenario: scenario.name,
+      fileName: request.filename,
+    });
+
+    await sleep(scenario.latencyMs ?? this.fixtures.latencyMs ?? 0);
+
+    if (scenario.networkError) {
+      throw new TypeError(scenario.message ?? 'fetch failed');
+    }
+
+    const requestId = `mock-${randomUUID()}`;
+    if (scenario.status !== undefined) {
+      throw new CardSightAIError(
+        scenario.message ?? `API request failed with status ${scenario.status}`,
+        scenario.status,
+        { message: scenario.message, retryAfter: scenario.retryAfter },
+        { id: requestId, method: 'POST', url: 'mock://identify/card' }
+      );
+    }
+
+    return { success: true, detections: scenario.detections ?? [], requestId };
+  }
+
+  searchCatalog(request: CatalogSearchRequest): Promise<CatalogSearchResponse> {
+    const matches = (this.fixtures.catalog ?? []).filter(
+      (card) =>
+        matchesText(card.name, request.name) &&
+        matchesText(card.setName, request.set) &&
+        (!request.year || card.releaseYear === request.year) &&
+        (!request.number || card.number?.toLowerCase() === request.number.toLowerCase())
+    );
+
+    return Promise.resolve({ cards: matches.slice(0, request.limit), totalCount: matches.length });
+  }
+
+  autocompleteCatalog(field: CatalogAutocompleteField, query: string): Promise<string[]> {
+    const values = (this.fixtures.catalog ?? [])
+      .map((card) => (field === 'set' ? card.setName : card.name))
+      .filter((value) => matchesText(value, query));
+
+    return Promise.resolve([...new Set(values)].slice(0, MAX_SUGGESTIONS));
+  }
+
+  checkHealth(): Promise<boolean> {
+    return Promise.resolve(this.fixtures.healthy ?? true);
+  }
+
+  /**
+   * Picks the scenario named in the filename, or the next succeeding scenario
+   */
+  private selectScenario(filename: string): MockScenario {
+    const lowerFilename = filename.toLowerCase();
+    const named = this.fixtures.scenarios.find((scenario) =>
+      lowerFilename.includes(scenario.name.toLowerCase())
+    );
+    if (named) {
+      return named;
+    }
+
+    const defaults = this.fixtures.scenarios.filter((scenario) => !isFailure(scenario));
+    if (defaults.length === 0) {
+      return this.fixtures.scenarios[0];
+    }
+
+    const scenario = defaults[this.nextDefault % defaults.length];
+    this.nextDefault++;
+    return scenario;
+  }
+}
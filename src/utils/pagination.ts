@@ -0,0 +1,138 @@
+/**
+ * Paginated Replies
+ *
+ * Shows a list of embeds one page at a time with previous/next buttons. The
+ * buttons go through the component router: their custom IDs carry the owner,
+ * an idle expiry and the page they lead to, and the pages themselves are
+ * stashed in memory under a token.
+ */
+
+import type {
+  ButtonInteraction,
+  EmbedBuilder,
+  MessageActionRowComponentBuilder,
+  RepliableInteraction,
+} from 'discord.js';
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from 'discord.js';
+import { config } from '../config/index.js';
+import {
+  encodeCustomId,
+  getStashedComponentState,
+  stashComponentState,
+} from './componentRouter.js';
+import { createErrorEmbed } from './embedBuilder.js';
+import type { ComponentHandler, ComponentState } from '../types/index.js';
+import { resolveLocale, t, type SupportedLocale } from '../i18n/index.js';
+
+export const PAGER_PREFIX = 'pager';
+
+/**
+ * A pager's stashed pages and the rows shown below its buttons
+ */
+interface PagerState {
+  pages: EmbedBuilder[];
+  extraRows: ActionRowBuilder<MessageActionRowComponentBuilder>[];
+}
+
+/**
+ * Builds the reply components for a page
+ *
+ * Stashes the pager again on every render, so the buttons keep working for the
+ * configured idle time after the last page change.
+ */
+function createPageComponents(
+  state: PagerState,
+  pageIndex: number,
+  ownerId: string,
+  locale: SupportedLocale
+): ActionRowBuilder<MessageActionRowComponentBuilder>[] {
+  const ttlMs = config.pagination.idleTimeoutMs;
+  const token = stashComponentState(state, ttlMs);
+  const pageCount = state.pages.length;
+
+  const navigationRow = new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(encodeCustomId(PAGER_PREFIX, [token, String(pageIndex - 1)], { ownerId, ttlMs }))
+      .setLabel(t(locale, 'pager.previous'))
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(pageIndex === 0),
+    new ButtonBuilder()
+      .setCustomId(encodeCustomId(PAGER_PREFIX, [token, 'indicator']))
+      .setLabel(`${pageIndex + 1} / ${pageCount}`)
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(true),
+    new ButtonBuilder()
+      .setCustomId(encodeCustomId(PAGER_PREFIX, [token, String(pageIndex + 1)], { ownerId, ttlMs }))
+      .setLabel(t(locale, 'pager.next'))
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(pageIndex === pageCount - 1)
+  );
+
+  return [navigationRow, ...state.extraRows];
+}
+
+/**
+ * Edits an interaction's reply to show pages with navigation buttons
+ *
+ * Only the user who triggered the interaction can change pages, and the buttons
+ * stop working once nobody has paged for the configured idle time. A single
+ * page is shown without buttons.
+ *
+ * @param interaction - An interaction that has already been replied to or deferred
+ * @param pages - The embeds to page through, in order
+ * @param extraRows - Rows shown below the navigation buttons
+ */
+export async function editReplyWithPages(
+  interaction: RepliableInteraction,
+  pages: EmbedBuilder[],
+  extraRows: ActionRowBuilder<MessageActionRowComponentBuilder>[] = []
+): Promise<void> {
+  if (pages.length <= 1) {
+    await interaction.editReply({ embeds: pages, components: extraRows });
+    return;
+  }
+
+  await interaction.editReply({
+    embeds: [pages[0]],
+    components: createPageComponents(
+      { pages, extraRows },
+      0,
+      interaction.user.id,
+      resolveLocale(interaction)
+    ),
+  });
+}
+
+/**
+ * Shows the page a navigation button leads to
+ */
+async function handlePageChange(
+  interaction: ButtonInteraction,
+  state: ComponentState
+): Promise<void> {
+  const locale = resolveLocale(interaction);
+  const [token, page] = state.args;
+  const pager = getStashedComponentState<PagerState>(token);
+  const pageIndex = Number(page);
+
+  if (!pager || !Number.isInteger(pageIndex) || !pager.pages[pageIndex]) {
+    await interaction.reply({
+      embeds: [createErrorEmbed(t(locale, 'error.componentExpired'), undefined, locale)],
+      ephemeral: true,
+    });
+    return;
+  }
+
+  await interaction.update({
+    embeds: [pager.pages[pageIndex]],
+    components: createPageComponents(pager, pageIndex, interaction.user.id, locale),
+  });
+}
+
+/**
+ * Component handler for pager navigation buttons
+ */
+export const pagerHandler: ComponentHandler = {
+  prefix: PAGER_PREFIX,
+  handleButton: handlePageChange,
+};
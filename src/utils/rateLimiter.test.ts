@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { RateLimiter, TokenBucket, type BucketSettings } from './rateLimiter.js';
+
+const DISABLED: BucketSettings = { capacity: 0, refillMs: 1000 };
+
+describe('TokenBucket', () => {
+  it('allows a full burst, then waits for the next token', () => {
+    const bucket = new TokenBucket({ capacity: 2, refillMs: 1000 }, 0);
+
+    bucket.take(0);
+    bucket.take(0);
+
+    assert.equal(bucket.waitTime(0), 1000);
+    assert.equal(bucket.waitTime(400), 600);
+    assert.equal(bucket.waitTime(1000), 0);
+  });
+
+  it('never refills past its capacity', () => {
+    const bucket = new TokenBucket({ capacity: 2, refillMs: 1000 }, 0);
+
+    bucket.take(0);
+    assert.equal(bucket.isFull(0), false);
+    assert.equal(bucket.isFull(60_000), true);
+
+    bucket.take(60_000);
+    bucket.take(60_000);
+    assert.equal(bucket.waitTime(60_000), 1000);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('limits each user separately', () => {
+    const limiter = new RateLimiter({
+      user: { capacity: 1, refillMs: 1000 },
+      guild: DISABLED,
+      global: DISABLED,
+    });
+
+    assert.deepEqual(limiter.consume('alice', null, 0), { allowed: true });
+    assert.deepEqual(limiter.consume('alice', null, 0), {
+      allowed: false,
+      scope: 'user',
+      retryAfterMs: 1000,
+    });
+    assert.deepEqual(limiter.consume('bob', null, 0), { allowed: true });
+  });
+
+  it('only applies the guild limit to requests from a guild', () => {
+    const limiter = new RateLimiter({
+      user: DISABLED,
+      guild: { capacity: 1, refillMs: 1000 },
+      global: DISABLED,
+    });
+
+    assert.equal(limiter.consume('alice', 'guild-1', 0).allowed, true);
+    assert.equal(limiter.consume('bob', 'guild-1', 0).allowed, false);
+    assert.equal(limiter.consume('bob', 'guild-2', 0).allowed, true);
+    assert.equal(limiter.consume('bob', null, 0).allowed, true);
+  });
+
+  it('reports the limit with the longest wait', () => {
+    const limiter = new RateLimiter({
+      user: { capacity: 1, refillMs: 1000 },
+      guild: DISABLED,
+      global: { capacity: 1, refillMs: 5000 },
+    });
+
+    limiter.consume('alice', null, 0);
+
+    assert.deepEqual(limiter.consume('alice', null, 0), {
+      allowed: false,
+      scope: 'global',
+      retryAfterMs: 5000,
+    });
+  });
+
+  it('does not take tokens from other buckets when a request is blocked', () => {
+    const limiter = new RateLimiter({
+      user: { capacity: 1, refillMs: 1000 },
+      guild: DISABLED,
+      global: { capacity: 1, refillMs: 5000 },
+    });
+
+    limiter.consume('alice', null, 0);
+    // Blocked by the global limit, so Bob's own bucket stays full
+    assert.equal(limiter.consume('bob', null, 0).allowed, false);
+
+    assert.equal(limiter.consume('bob', null, 5000).allowed, true);
+  });
+});
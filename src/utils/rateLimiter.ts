@@ -0,0 +1,199 @@
+/**
+ * Rate Limiting
+ *
+ * Token-bucket rate limits for CardSight-backed commands, applied per user,
+ * per guild and globally so a single user cannot exhaust the API quota.
+ */
+
+import type { Interaction } from 'discord.js';
+import { config } from '../config/index.js';
+
+/**
+ * Settings for one kind of token bucket
+ */
+export interface BucketSettings {
+  // Maximum burst size; 0 disables the limit
+  capacity: number;
+  // Milliseconds to regain one token
+  refillMs: number;
+}
+
+/**
+ * Which limit blocked a request
+ */
+export type RateLimitScope = 'user' | 'guild' | 'global';
+
+/**
+ * Outcome of a rate limit check
+ */
+export type RateLimitResult =
+  { allowed: true } | { allowed: false; scope: RateLimitScope; retryAfterMs: number };
+
+/**
+ * Idle buckets are dropped after this long, once they have fully refilled
+ */
+const PRUNE_INTERVAL = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * A classic token bucket, refilled lazily on access
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(
+    private readonly settings: BucketSettings,
+    now = Date.now()
+  ) {
+    this.tokens = settings.capacity;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Milliseconds until a token is available (0 if one is available now)
+   */
+  waitTime(now = Date.now()): number {
+    this.refill(now);
+    if (this.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil((1 - this.tokens) * this.settings.refillMs);
+  }
+
+  /**
+   * Takes one token; callers should check waitTime() first
+   */
+  take(now = Date.now()): void {
+    this.refill(now);
+    this.tokens = Math.max(0, this.tokens - 1);
+  }
+
+  /**
+   * Whether the bucket is full, i.e. indistinguishable from a new one
+   */
+  isFull(now = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= this.settings.capacity;
+  }
+
+  private refill(now: number): void {
+    const elapsed = now - this.updatedAt;
+    this.tokens = Math.min(this.settings.capacity, this.tokens + elapsed / this.settings.refillMs);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Keyed collection of token buckets sharing the same settings
+ */
+class BucketGroup {
+  private readonly buckets = new Map<string, TokenBucket>();
+
+  constructor(readonly settings: BucketSettings) {}
+
+  get enabled(): boolean {
+    return this.settings.capacity > 0;
+  }
+
+  get(key: string, now: number): TokenBucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(this.settings, now);
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.isFull(now)) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Applies the user, guild and global limits together
+ *
+ * A request only consumes tokens when every applicable bucket has one, so a
+ * request blocked by the global limit does not also eat into the user's budget.
+ */
+export class RateLimiter {
+  private readonly groups: Record<RateLimitScope, BucketGroup>;
+  private lastPruneAt = Date.now();
+
+  constructor(settings: Record<RateLimitScope, BucketSettings>) {
+    this.groups = {
+      user: new BucketGroup(settings.user),
+      guild: new BucketGroup(settings.guild),
+      global: new BucketGroup(settings.global),
+    };
+  }
+
+  /**
+   * Consumes a token for the request if allowed
+   *
+   * @param userId - The requesting user
+   * @param guildId - The guild the request came from, if any
+   */
+  consume(userId: string, guildId: string | null, now = Date.now()): RateLimitResult {
+    this.pruneIfDue(now);
+
+    const keys: Array<[RateLimitScope, string]> = [
+      ['user', userId],
+      ...(guildId ? [['guild', guildId] as [RateLimitScope, string]] : []),
+      ['global', 'global'],
+    ];
+
+    const buckets = keys
+      .filter(([scope]) => this.groups[scope].enabled)
+      .map(([scope, key]) => ({ scope, bucket: this.groups[scope].get(key, now) }));
+
+    // Report the limit with the longest wait so the user is told the real retry time
+    let blocked: { scope: RateLimitScope; retryAfterMs: number } | null = null;
+    for (const { scope, bucket } of buckets) {
+      const wait = bucket.waitTime(now);
+      if (wait > 0 && (!blocked || wait > blocked.retryAfterMs)) {
+        blocked = { scope, retryAfterMs: wait };
+      }
+    }
+
+    if (blocked) {
+      return { allowed: false, ...blocked };
+    }
+
+    buckets.forEach(({ bucket }) => bucket.take(now));
+    return { allowed: true };
+  }
+
+  private pruneIfDue(now: number): void {
+    if (now - this.lastPruneAt < PRUNE_INTERVAL) {
+      return;
+    }
+    this.lastPruneAt = now;
+    Object.values(this.groups).forEach((group) => group.prune(now));
+  }
+}
+
+/**
+ * Shared limiter for CardSight-backed commands
+ */
+export const commandRateLimiter = new RateLimiter(config.rateLimit);
+
+/**
+ * Checks whether the interaction's member has a rate-limit-exempt role
+ */
+export function isRateLimitExempt(interaction: Interaction): boolean {
+  const { member } = interaction;
+  if (!member || config.rateLimit.exemptRoleIds.length === 0) {
+    return false;
+  }
+
+  // Cached members expose a role manager; uncached ones only a list of IDs
+  const roleIds = Array.isArray(member.roles)
+    ? member.roles
+    : Array.from(member.roles.cache.keys());
+
+  return roleIds.some((roleId) => config.rateLimit.exemptRoleIds.includes(roleId));
+}
@@ -0,0 +1,102 @@
+/**
+ * Card Recognition Backends
+ *
+ * identifyCard and the catalog lookups talk to a CardRecognizer rather than to
+ * the CardSight SDK directly, so the backend can be swapped by configuration:
+ * the CardSight API in production, or a fixture-driven mock for offline demos
+ * and development.
+ */
+
+import type { CardDetection, components } from 'cardsightai';
+import { config } from '../config/index.js';
+import { CardSightRecognizer } from './cardsightRecognizer.js';
+import { MockRecognizer } from './mockRecognizer.js';
+
+/**
+ * Recognition backends selectable with RECOGNITION_PROVIDER
+ */
+export type RecognitionProvider = 'cardsight' | 'mock';
+
+/**
+ * An image to recognize
+ */
+export interface RecognitionRequest {
+  image: Buffer;
+  filename: string;
+  mimeType: string;
+}
+
+/**
+ * A backend's answer for one image
+ */
+export interface RecognitionResponse {
+  success: boolean;
+  detections: CardDetection[];
+  requestId?: string;
+}
+
+/**
+ * A card as listed in the catalog
+ */
+export type CatalogCardSummary = components['schemas']['CardSummary'];
+
+/**
+ * Catalog fields with text autocomplete
+ */
+export type CatalogAutocompleteField = 'name' | 'set';
+
+/**
+ * A catalog search
+ */
+export interface CatalogSearchRequest {
+  name?: string;
+  year?: string;
+  set?: string;
+  number?: string;
+  // Maximum number of cards to return
+  limit: number;
+}
+
+/**
+ * A backend's answer for a catalog search
+ */
+export interface CatalogSearchResponse {
+  cards: CatalogCardSummary[];
+  // Number of matching cards, which may exceed the cards returned
+  totalCount: number;
+}
+
+/**
+ * A card recognition backend, which also serves catalog lookups
+ *
+ * Failures are thrown as the CardSight SDK's errors (CardSightAIError with the
+ * HTTP status, or AuthenticationError), so retries, the circuit breaker and
+ * error messages behave the same whichever backend is used.
+ */
+export interface CardRecognizer {
+  // Name shown in logs
+  readonly name: string;
+
+  identify(request: RecognitionRequest): Promise<RecognitionResponse>;
+
+  searchCatalog(request: CatalogSearchRequest): Promise<CatalogSearchResponse>;
+
+  // Up to 10 catalog values starting with or containing the query
+  autocompleteCatalog(field: CatalogAutocompleteField, query: string): Promise<string[]>;
+
+  // Whether the backend is reachable and accepting requests
+  checkHealth(): Promise<boolean>;
+}
+
+let recognizer: CardRecognizer | null = null;
+
+/**
+ * Gets the configured recognition backend, creating it on first use
+ */
+export function getRecognizer(): CardRecognizer {
+  recognizer ??=
+    config.recognition.provider === 'mock'
+      ? new MockRecognizer(config.recognition.mockFixturesPath)
+      : new CardSightRecognizer();
+  return recognizer;
+}
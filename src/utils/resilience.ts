@@ -0,0 +1,175 @@
+/**
+ * Resilience Helpers
+ *
+ * Retry with jittered exponential backoff and a circuit breaker, used to
+ * ride out transient CardSight failures and to fail fast while it is down.
+ */
+
+import { logger } from './logger.js';
+
+/**
+ * How an operation is retried
+ */
+export interface RetryOptions {
+  // Total attempts including the first one
+  maxAttempts: number;
+  // Base delay for exponential backoff
+  baseDelayMs: number;
+  // Upper bound for any single delay; longer retry-after hints are not waited for
+  maxDelayMs: number;
+  // Whether an error is worth retrying
+  isRetryable: (error: unknown) => boolean;
+  // Server-provided delay before retrying, if any
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+  // Called before waiting for the next attempt
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Computes the backoff delay before a retry, using "full jitter"
+ *
+ * @param attempt - The attempt that just failed (1-based)
+ */
+export function getBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Runs an operation, retrying retryable failures with backoff
+ *
+ * @returns The operation's result
+ * @throws The last error once attempts are exhausted or the error is not retryable
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= options.maxAttempts || !options.isRetryable(error)) {
+        throw error;
+      }
+
+      const retryAfterMs = options.getRetryAfterMs?.(error);
+      if (retryAfterMs !== undefined && retryAfterMs > options.maxDelayMs) {
+        // Waiting that long would leave the user hanging; surface the error instead
+        throw error;
+      }
+
+      const delayMs =
+        retryAfterMs ?? getBackoffDelay(attempt, options.baseDelayMs, options.maxDelayMs);
+      options.onRetry?.(error, attempt, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Circuit breaker states
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * How a circuit breaker trips and recovers
+ */
+export interface CircuitBreakerOptions {
+  name: string;
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long to stay open before probing again
+  resetTimeoutMs: number;
+  // Checks whether the service has recovered
+  probe: () => Promise<boolean>;
+}
+
+/**
+ * Fails fast while a service is down
+ *
+ * After `failureThreshold` consecutive failures the circuit opens and requests
+ * are rejected without calling the service. Once `resetTimeoutMs` has passed,
+ * the next request runs the probe (half-open); if it succeeds the circuit
+ * closes again, otherwise it stays open for another timeout.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probing: Promise<boolean> | null = null;
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  /**
+   * Current state of the circuit
+   */
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Checks whether a request may go through, probing the service if due
+   */
+  async allowRequest(): Promise<boolean> {
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (Date.now() - this.openedAt < this.options.resetTimeoutMs) {
+      return false;
+    }
+
+    // Only one probe at a time; concurrent requests keep failing fast
+    if (this.probing) {
+      return false;
+    }
+
+    this.state = 'half-open';
+    this.probing = this.options.probe().catch(() => false);
+    const recovered = await this.probing;
+    this.probing = null;
+
+    if (recovered) {
+      this.close();
+      return true;
+    }
+
+    this.open();
+    return false;
+  }
+
+  /**
+   * Records a successful call
+   */
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      this.close();
+    }
+    this.consecutiveFailures = 0;
+  }
+
+  /**
+   * Records a failed call, opening the circuit once the threshold is reached
+   */
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.state === 'closed' && this.consecutiveFailures >= this.options.failureThreshold) {
+      this.open();
+    }
+  }
+
+  private open(): void {
+    if (this.state !== 'open') {
+      logger.warn(`Circuit breaker opened: ${this.options.name}`, {
+        consecutiveFailures: this.consecutiveFailures,
+        resetTimeoutMs: this.options.resetTimeoutMs,
+      });
+    }
+    this.state = 'open';
+    this.openedAt = Date.now();
+  }
+
+  private close(): void {
+    logger.info(`Circuit breaker closed: ${this.options.name}`);
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Identification Result Cache
+ *
+ * Caches CardSight identification results by a hash of the image bytes, so
+ * re-posts of the same image don't cost another API call. Results live in a
+ * size-bounded in-memory LRU and, optionally, on disk to survive restarts.
+ * The disk cache is swept at startup and then at most hourly, dropping expired
+ * entries and the oldest beyond the same entry limit.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { config } from '../config/index.js';
+import type { CardIdentificationResult } from './cardsight.js';
+import { logDebug, logError } from './logger.js';
+
+/**
+ * A cached result and when it was stored
+ */
+interface CacheEntry {
+  storedAt: number;
+  result: CardIdentificationResult;
+}
+
+/**
+ * Running hit/miss counters, reported alongside API call logs
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+// Maps iterate in insertion order, so re-inserting on access keeps the
+// least recently used entry first
+const memoryCache = new Map<string, CacheEntry>();
+
+const stats: CacheStats = { hits: 0, misses: 0 };
+
+// How often writes trigger a sweep of the disk cache
+const DISK_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+let lastDiskSweepAt = 0;
+
+/**
+ * Directory of the on-disk cache backend
+ */
+function getDiskCacheDir(): string {
+  return path.resolve(config.storage.dataDir, 'cache');
+}
+
+/**
+ * Computes the cache key for an image
+ *
+ * @param provider - The recognition backend, so its results are never served for another's
+ */
+export function hashImage(imageBuffer: Buffer, provider: string): string {
+  return createHash('sha256').update(`${provider}:`).update(imageBuffer).digest('hex');
+}
+
+/**
+ * Returns a copy of the hit/miss counters
+ */
+export function getCacheStats(): CacheStats {
+  return { ...stats };
+}
+
+/**
+ * Looks up a cached result
+ *
+ * @param key - The image hash
+ * @returns The cached result, or undefined on a miss or expired entry
+ */
+export async function getCachedResult(key: string): Promise<CardIdentificationResult | undefined> {
+  if (!config.cache.enabled) {
+    return undefined;
+  }
+
+  let entry = memoryCache.get(key);
+  if (!entry && config.cache.disk) {
+    entry = await readDiskEntry(key);
+  }
+
+  if (!entry || Date.now() - entry.storedAt > config.cache.ttlMs) {
+    if (entry) {
+      memoryCache.delete(key);
+      await removeDiskEntry(key);
+    }
+    stats.misses++;
+    return undefined;
+  }
+
+  // Mark as most recently used
+  rememberInMemory(key, entry);
+  stats.hits++;
+  return entry.result;
+}
+
+/**
+ * Stores a result in the cache
+ *
+ * Only successful results are cached; failures such as rate limits should be retried.
+ */
+export async function setCachedResult(
+  key: string,
+  result: CardIdentificationResult
+): Promise<void> {
+  if (!config.cache.enabled || !result.success) {
+    return;
+  }
+
+  const entry: CacheEntry = { storedAt: Date.now(), result };
+  rememberInMemory(key, entry);
+
+  if (config.cache.disk) {
+    try {
+      await mkdir(getDiskCacheDir(), { recursive: true });
+      await writeFile(path.join(getDiskCacheDir(), `${key}.json`), JSON.stringify(entry), 'utf8');
+    } catch (error) {
+      logError('Failed to write identification cache entry', error);
+    }
+
+    if (Date.now() - lastDiskSweepAt > DISK_SWEEP_INTERVAL_MS) {
+      await sweepDiskCache();
+    }
+  }
+}
+
+/**
+ * Removes expired disk cache entries, then the oldest ones beyond the entry limit
+ *
+ * Entry files are written once, so their modification time is when they were stored.
+ *
+ * @returns The number of entries removed
+ */
+export async function sweepDiskCache(): Promise<number> {
+  if (!config.cache.enabled || !config.cache.disk) {
+    return 0;
+  }
+  lastDiskSweepAt = Date.now();
+
+  let filenames: string[];
+  try {
+    filenames = (await readdir(getDiskCacheDir())).filter((name) => name.endsWith('.json'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logError('Failed to list identification cache entries', error);
+    }
+    return 0;
+  }
+
+  const files = await Promise.all(
+    filenames.map(async (name) => {
+      const filePath = path.join(getDiskCacheDir(), name);
+      const storedAt = await stat(filePath).then(
+        ({ mtimeMs }) => mtimeMs,
+        () => undefined
+      );
+      return { filePath, storedAt };
+    })
+  );
+
+  // Newest first, so everything past the limit is the oldest
+  const live = files
+    .filter((file): file is { filePath: string; storedAt: number } => file.storedAt !== undefined)
+    .sort((a, b) => b.storedAt - a.storedAt);
+  const stale = live.filter(
+    ({ storedAt }, index) =>
+      index >= config.cache.maxEntries || lastDiskSweepAt - storedAt > config.cache.ttlMs
+  );
+
+  for (const { filePath } of stale) {
+    await rm(filePath, { force: true }).catch((error) =>
+      logError('Failed to remove identification cache entry', error)
+    );
+  }
+
+  logDebug('Swept identification cache', { removed: stale.length });
+  return stale.length;
+}
+
+/**
+ * Inserts an entry as most recently used, evicting the least recently used if full
+ */
+function rememberInMemory(key: string, entry: CacheEntry): void {
+  memoryCache.delete(key);
+  memoryCache.set(key, entry);
+
+  while (memoryCache.size > config.cache.maxEntries) {
+    const oldest = memoryCache.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    memoryCache.delete(oldest);
+  }
+}
+
+async function readDiskEntry(key: string): Promise<CacheEntry | undefined> {
+  try {
+    const contents = await readFile(path.join(getDiskCacheDir(), `${key}.json`), 'utf8');
+    return JSON.parse(contents) as CacheEntry;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logError('Failed to read identification cache entry', error);
+    }
+    return undefined;
+  }
+}
+
+async function removeDiskEntry(key: string): Promise<void> {
+  if (!config.cache.disk) {
+    return;
+  }
+
+  await rm(path.join(getDiskCacheDir(), `${key}.json`), { force: true }).catch((error) =>
+    logError('Failed to remove expired identification cache entry', error)
+  );
+}
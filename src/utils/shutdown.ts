@@ -0,0 +1,117 @@
+/**
+ * Graceful Shutdown
+ *
+ * Tracks in-flight work (commands and auto-identifications) so shutdown can
+ * stop accepting new work, wait for what's running to finish, and tell users
+ * about anything that couldn't finish in time.
+ */
+
+import { logger, logError } from './logger.js';
+
+/**
+ * A piece of in-flight work
+ */
+interface InFlightTask {
+  label: string;
+  // Called if the task is still running when the drain deadline passes
+  onAbandon?: () => Promise<void>;
+}
+
+// Longest time to spend notifying users about abandoned work
+const ABANDON_TIMEOUT_MS = 3000;
+
+const inFlight = new Map<Promise<unknown>, InFlightTask>();
+let shuttingDown = false;
+
+/**
+ * Checks whether shutdown has started, in which case new work should be refused
+ */
+export function isShuttingDown(): boolean {
+  return shuttingDown;
+}
+
+/**
+ * Gets the number of in-flight tasks
+ */
+export function getInFlightCount(): number {
+  return inFlight.size;
+}
+
+/**
+ * Runs work while tracking it as in flight
+ *
+ * @param label - Describes the work in shutdown logs
+ * @param work - The work to run
+ * @param onAbandon - Called if the work is still running when the drain deadline passes,
+ *   e.g. to replace a "processing" message with an apology
+ */
+export async function trackInFlight<T>(
+  label: string,
+  work: () => Promise<T>,
+  onAbandon?: () => Promise<void>
+): Promise<T> {
+  const promise = work();
+  inFlight.set(promise, { label, onAbandon });
+
+  try {
+    return await promise;
+  } finally {
+    inFlight.delete(promise);
+  }
+}
+
+/**
+ * Resolves after a delay, or once the promise settles if that happens first
+ */
+async function settleWithin(promise: Promise<unknown>, timeoutMs: number): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  await Promise.race([
+    promise.then(
+      () => undefined,
+      () => undefined
+    ),
+    new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, timeoutMs);
+    }),
+  ]);
+  clearTimeout(timer);
+}
+
+/**
+ * Starts shutting down: refuses new work and waits for in-flight work to finish
+ *
+ * Work still running after the deadline is abandoned, giving each task a
+ * chance to let its user know.
+ *
+ * @param deadlineMs - How long to wait for in-flight work
+ */
+export async function drainInFlight(deadlineMs: number): Promise<void> {
+  shuttingDown = true;
+
+  if (inFlight.size > 0) {
+    logger.info(`Waiting for ${inFlight.size} in-flight task(s) to finish`, { deadlineMs });
+    await settleWithin(Promise.allSettled(inFlight.keys()), deadlineMs);
+  }
+
+  const abandoned = Array.from(inFlight.values());
+  if (abandoned.length === 0) {
+    return;
+  }
+
+  logger.warn(`Abandoning ${abandoned.length} in-flight task(s) at shutdown`, {
+    tasks: abandoned.map(({ label }) => label),
+  });
+
+  await settleWithin(
+    Promise.allSettled(
+      abandoned.map(async ({ label, onAbandon }) => {
+        try {
+          await onAbandon?.();
+        } catch (error) {
+          logError('Failed to notify user about abandoned task', error, { task: label });
+        }
+      })
+    ),
+    ABANDON_TIMEOUT_MS
+  );
+}
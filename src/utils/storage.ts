@@ -0,0 +1,127 @@
+/**
+ * Persistent Storage
+ *
+ * Small JSON file store for bot state that must survive restarts.
+ * Each store owns one file in the configured data directory.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { config } from '../config/index.js';
+import { logError } from './logger.js';
+
+/**
+ * A JSON document persisted to disk
+ *
+ * The document is loaded lazily on first access and kept in memory. Updates
+ * are serialized and written atomically (temporary file + rename), so a crash
+ * mid-write never leaves a truncated file behind. A file that can't be read
+ * is moved aside rather than overwritten, so its data can still be recovered.
+ */
+export class JsonStore<T> {
+  private data: T | null = null;
+  private loading: Promise<T> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  // Set when an unreadable file couldn't be moved aside, so writing would destroy it
+  private writesBlocked = false;
+
+  /**
+   * @param filename - File name inside the data directory
+   * @param createDefault - Creates the initial document when the file does not exist
+   * @param options.compact - Writes the file without indentation, for stores that grow large
+   */
+  constructor(
+    private readonly filename: string,
+    private readonly createDefault: () => T,
+    private readonly options: { compact?: boolean } = {}
+  ) {}
+
+  /**
+   * Full path of the backing file
+   */
+  get filePath(): string {
+    return path.resolve(config.storage.dataDir, this.filename);
+  }
+
+  /**
+   * Returns the current document, loading it from disk on first access
+   */
+  async read(): Promise<T> {
+    if (this.data) {
+      return this.data;
+    }
+
+    this.loading ??= this.load();
+    return this.loading;
+  }
+
+  /**
+   * Applies a change to the document and persists it
+   *
+   * @param mutator - Mutates the document in place
+   */
+  async update(mutator: (data: T) => void): Promise<void> {
+    const data = await this.read();
+    mutator(data);
+
+    const write = this.writeQueue.then(() => this.write(data));
+    // Keep the queue alive even if this write fails
+    this.writeQueue = write.catch(() => undefined);
+    await write;
+  }
+
+  private async load(): Promise<T> {
+    try {
+      const contents = await readFile(this.filePath, 'utf8');
+      this.data = JSON.parse(contents) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        await this.quarantine(error);
+      }
+      this.data = this.createDefault();
+    }
+
+    return this.data;
+  }
+
+  /**
+   * Moves an unreadable file to `<name>.corrupt-<timestamp>` so the next write doesn't erase it
+   *
+   * If the file can't be moved, writes are refused until it is repaired or removed.
+   */
+  private async quarantine(loadError: unknown): Promise<void> {
+    const corruptPath = `${this.filePath}.corrupt-${Date.now()}`;
+    try {
+      await rename(this.filePath, corruptPath);
+      logError(
+        `Failed to load ${this.filename}; moved it to ${path.basename(corruptPath)} ` +
+          'and started with an empty store',
+        loadError
+      );
+    } catch (renameError) {
+      this.writesBlocked = true;
+      logError(
+        `Failed to load ${this.filename} and could not move it aside; ` +
+          'changes will not be saved until it is repaired or removed',
+        loadError,
+        { renameError: renameError instanceof Error ? renameError.message : String(renameError) }
+      );
+    }
+  }
+
+  private async write(data: T): Promise<void> {
+    if (this.writesBlocked) {
+      throw new Error(`Refusing to overwrite unreadable ${this.filename}`);
+    }
+
+    const tempPath = `${this.filePath}.tmp`;
+
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFile(
+      tempPath,
+      JSON.stringify(data, null, this.options.compact ? undefined : 2),
+      'utf8'
+    );
+    await rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { describe, it } from 'node:test';
+import {
+  createWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './webhookSignature.js';
+
+const SECRET = 'whsec_test';
+const BODY = '{"event":"identification.completed"}';
+
+/**
+ * The current Unix time in seconds
+ */
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+describe('createWebhookSecret', () => {
+  it('creates distinct prefixed secrets', () => {
+    const secret = createWebhookSecret();
+
+    assert.match(secret, /^whsec_[\w-]{32}$/);
+    assert.notEqual(secret, createWebhookSecret());
+  });
+});
+
+describe('signWebhookPayload', () => {
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    const expected = createHmac('sha256', SECRET).update(`1700000000.${BODY}`).digest('hex');
+
+    assert.equal(signWebhookPayload(SECRET, 1700000000, BODY), `sha256=${expected}`);
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  it('accepts a fresh delivery signed with the secret', () => {
+    const timestamp = nowSeconds();
+    const signature = signWebhookPayload(SECRET, timestamp, BODY);
+
+    assert.equal(verifyWebhookSignature(SECRET, signature, String(timestamp), BODY), true);
+  });
+
+  it('rejects a different secret or an altered body', () => {
+    const timestamp = nowSeconds();
+    const signature = signWebhookPayload(SECRET, timestamp, BODY);
+
+    assert.equal(verifyWebhookSignature('whsec_other', signature, String(timestamp), BODY), false);
+    assert.equal(verifyWebhookSignature(SECRET, signature, String(timestamp), `${BODY} `), false);
+  });
+
+  it('rejects a signature replayed with another timestamp', () => {
+    const timestamp = nowSeconds();
+    const signature = signWebhookPayload(SECRET, timestamp, BODY);
+
+    assert.equal(verifyWebhookSignature(SECRET, signature, String(timestamp - 1), BODY), false);
+  });
+
+  it('rejects timestamps outside the tolerance', () => {
+    const timestamp = nowSeconds() - 600;
+    const signature = signWebhookPayload(SECRET, timestamp, BODY);
+
+    assert.equal(verifyWebhookSignature(SECRET, signature, String(timestamp), BODY), false);
+    assert.equal(verifyWebhookSignature(SECRET, signature, String(timestamp), BODY, 900), true);
+  });
+
+  it('rejects missing or malformed headers', () => {
+    const timestamp = nowSeconds();
+    const signature = signWebhookPayload(SECRET, timestamp, BODY);
+
+    assert.equal(verifyWebhookSignature(SECRET, undefined, String(timestamp), BODY), false);
+    assert.equal(verifyWebhookSignature(SECRET, signature, undefined, BODY), false);
+    assert.equal(verifyWebhookSignature(SECRET, signature, 'yesterday', BODY), false);
+    assert.equal(verifyWebhookSignature(SECRET, 'sha256=short', String(timestamp), BODY), false);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Webhook Signatures
+ *
+ * Signs outbound webhook deliveries with HMAC-SHA256 so receivers can check
+ * they came from the bot and weren't altered or replayed. The signed content
+ * is the delivery's Unix timestamp and raw body joined by a dot, and the
+ * signature is sent as `sha256=<hex>`.
+ *
+ * Has no dependencies on the rest of the bot, so receivers can reuse it.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+// Headers sent with every delivery
+export const WEBHOOK_SIGNATURE_HEADER = 'x-cardsight-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-cardsight-timestamp';
+export const WEBHOOK_EVENT_HEADER = 'x-cardsight-event';
+export const WEBHOOK_DELIVERY_HEADER = 'x-cardsight-delivery';
+
+// Oldest delivery timestamp accepted by verifyWebhookSignature
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * Generates a new signing secret
+ */
+export function createWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Signs a delivery body
+ *
+ * @param timestamp - Unix time in seconds, sent in the timestamp header
+ * @returns The signature header value
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Checks a delivery's signature and that its timestamp is recent
+ *
+ * @param signature - The signature header value
+ * @param timestamp - The timestamp header value
+ * @param body - The raw request body, exactly as received
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  signature: string | undefined,
+  timestamp: string | undefined,
+  body: string,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS
+): boolean {
+  const sentAt = Number(timestamp);
+  if (!signature || !Number.isInteger(sentAt)) {
+    return false;
+  }
+  if (Math.abs(Date.now() / 1000 - sentAt) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, sentAt, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
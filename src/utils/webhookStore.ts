@@ -0,0 +1,88 @@
+/**
+ * Webhook Store
+ *
+ * Persists the outbound webhooks each guild has registered with /webhooks,
+ * including their signing secrets.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { JsonStore } from './storage.js';
+import { createWebhookSecret } from './webhookSignature.js';
+
+/**
+ * An endpoint that receives a guild's identification events
+ */
+export interface WebhookEndpoint {
+  // Short ID shown to admins and sent with each delivery
+  id: string;
+  url: string;
+  // HMAC signing secret, shown once when the webhook is added
+  secret: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+const store = new JsonStore<Record<string, WebhookEndpoint[]>>('webhooks.json', () => ({}));
+
+/**
+ * Lists a guild's webhooks, oldest first
+ */
+export async function listWebhooks(guildId: string): Promise<WebhookEndpoint[]> {
+  const data = await store.read();
+  return data[guildId] ?? [];
+}
+
+/**
+ * Gets one of a guild's webhooks
+ */
+export async function getWebhook(
+  guildId: string,
+  webhookId: string
+): Promise<WebhookEndpoint | undefined> {
+  return (await listWebhooks(guildId)).find(({ id }) => id === webhookId);
+}
+
+/**
+ * Registers a webhook for a guild with a new signing secret
+ *
+ * @param url - An already validated delivery URL
+ */
+export async function addWebhook(
+  guildId: string,
+  url: string,
+  createdBy: string
+): Promise<WebhookEndpoint> {
+  const webhook: WebhookEndpoint = {
+    id: randomBytes(4).toString('hex'),
+    url,
+    secret: createWebhookSecret(),
+    createdBy,
+    createdAt: new Date().toISOString(),
+  };
+
+  await store.update((data) => {
+    data[guildId] = [...(data[guildId] ?? []), webhook];
+  });
+  return webhook;
+}
+
+/**
+ * Removes one of a guild's webhooks
+ *
+ * @returns Whether the webhook existed
+ */
+export async function removeWebhook(guildId: string, webhookId: string): Promise<boolean> {
+  let removed = false;
+  await store.update((data) => {
+    const webhooks = data[guildId] ?? [];
+    const remaining = webhooks.filter(({ id }) => id !== webhookId);
+    removed = remaining.length !== webhooks.length;
+
+    if (remaining.length > 0) {
+      data[guildId] = remaining;
+    } else {
+      delete data[guildId];
+    }
+  });
+  return removed;
+}
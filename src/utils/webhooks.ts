@@ -0,0 +1,430 @@
+/**
+ * Outbound Webhooks
+ *
+ * Sends a guild's identification events to the webhooks it registered with
+ * /webhooks, as JSON POSTs signed with the webhook's secret (see
+ * webhookSignature.ts). Deliveries run in the background: timeouts, rate
+ * limits, server errors and network failures are retried with backoff, and a
+ * delivery that still fails, or is cut off by shutdown, is appended with its
+ * payload to a dead-letter file in the data directory so it can be replayed.
+ *
+ * Webhooks must use https and resolve to public addresses, checked at connect
+ * time as for image downloads, unless WEBHOOK_ALLOW_PRIVATE_HOSTS is set for
+ * testing against a local receiver.
+ */
+
+import { randomUUID } from 'node:crypto';
+import dns from 'node:dns';
+import { appendFile, mkdir } from 'node:fs/promises';
+import http from 'node:http';
+import https from 'node:https';
+import net, { type LookupFunction } from 'node:net';
+import path from 'node:path';
+import { config } from '../config/index.js';
+import type { CardIdentificationResult } from './cardsight.js';
+import { getSupportCode } from './correlation.js';
+import type { ImageIdentification } from './identification.js';
+import { isBlockedAddress } from './imageFetcher.js';
+import { logDebug, logError, logger, logWarning } from './logger.js';
+import { withRetry } from './resilience.js';
+import { trackInFlight } from './shutdown.js';
+import {
+  signWebhookPayload,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './webhookSignature.js';
+import { listWebhooks, type WebhookEndpoint } from './webhookStore.js';
+
+/**
+ * Events sent to webhooks
+ */
+export type WebhookEventType = 'identification.completed' | 'webhook.test';
+
+/**
+ * Body of a webhook delivery
+ */
+export interface WebhookPayload {
+  // Unique per delivery and kept across retries, so receivers can deduplicate
+  deliveryId: string;
+  event: WebhookEventType;
+  createdAt: string;
+  webhookId: string;
+  guildId: string;
+  channelId: string | null;
+  userId: string;
+  // Support code of the interaction, for matching deliveries to bot logs
+  supportCode: string | null;
+  // One entry per identified image; empty for test events
+  images: Array<{ url: string; filename: string; result: CardIdentificationResult }>;
+}
+
+/**
+ * Outcome of delivering a payload to a webhook
+ */
+export type WebhookDeliveryResult =
+  | { ok: true; status: number; attempts: number }
+  | { ok: false; error: string; status?: number; attempts: number };
+
+/**
+ * Reasons a URL can't be used as a webhook
+ */
+export type WebhookUrlError = 'invalid-url' | 'insecure-url' | 'blocked-address';
+
+/**
+ * A failed delivery, as written to the dead-letter file
+ */
+interface DeadLetter {
+  failedAt: string;
+  guildId: string;
+  webhookId: string;
+  // Host only: webhook URLs often carry their credential in the path or query
+  host: string;
+  attempts: number;
+  error: string;
+  status?: number;
+  payload: WebhookPayload;
+}
+
+const DEAD_LETTER_FILE = 'webhook-dead-letters.jsonl';
+
+/**
+ * A failed delivery attempt
+ */
+class WebhookDeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly status?: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'WebhookDeliveryError';
+  }
+}
+
+/**
+ * Checks that a URL can receive webhooks
+ *
+ * Hostnames are only resolved when connecting; see publicOnlyLookup.
+ *
+ * @returns The parsed URL, or the reason it can't be used
+ */
+export function checkWebhookUrl(
+  rawUrl: string
+): { ok: true; url: URL } | { ok: false; error: WebhookUrlError } {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return { ok: false, error: 'invalid-url' };
+  }
+
+  if ((url.protocol !== 'http:' && url.protocol !== 'https:') || url.username || url.password) {
+    return { ok: false, error: 'invalid-url' };
+  }
+  if (config.webhooks.allowPrivateHosts) {
+    return { ok: true, url };
+  }
+
+  if (url.protocol !== 'https:') {
+    return { ok: false, error: 'insecure-url' };
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(hostname) !== 0 && isBlockedAddress(hostname)) {
+    return { ok: false, error: 'blocked-address' };
+  }
+
+  return { ok: true, url };
+}
+
+/**
+ * DNS lookup that refuses hostnames resolving to a private or reserved address
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      callback(new WebhookDeliveryError('Webhook host resolves to a blocked address', false), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Parses a Retry-After header given in seconds
+ */
+function parseRetryAfterMs(header: string | undefined): number | undefined {
+  const seconds = Number(header);
+  return header && Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+}
+
+/**
+ * Makes one signed POST of a payload
+ *
+ * @returns The response status
+ * @throws WebhookDeliveryError if the request fails or the status isn't 2xx
+ */
+function postPayload(webhook: WebhookEndpoint, payload: WebhookPayload): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const checked = checkWebhookUrl(webhook.url);
+    if (!checked.ok) {
+      reject(new WebhookDeliveryError(`Webhook URL is not allowed: ${checked.error}`, false));
+      return;
+    }
+
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const client = checked.url.protocol === 'https:' ? https : http;
+    const request = client.request(checked.url, {
+      method: 'POST',
+      ...(config.webhooks.allowPrivateHosts ? {} : { lookup: publicOnlyLookup }),
+      headers: {
+        'content-type': 'application/json',
+        'content-length': Buffer.byteLength(body),
+        'user-agent': 'CardSightAI-Discord-Bot',
+        [WEBHOOK_EVENT_HEADER]: payload.event,
+        [WEBHOOK_DELIVERY_HEADER]: payload.deliveryId,
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, timestamp, body),
+      },
+    });
+
+    // Covers connecting, sending and waiting for the response headers
+    const timer = setTimeout(() => {
+      request.destroy(new WebhookDeliveryError('Webhook request timed out', true));
+    }, config.webhooks.timeoutMs);
+
+    request.once('response', (response) => {
+      clearTimeout(timer);
+      response.resume();
+
+      const status = response.statusCode ?? 0;
+      if (status >= 200 && status < 300) {
+        resolve(status);
+        return;
+      }
+
+      reject(
+        new WebhookDeliveryError(
+          `Webhook responded with HTTP ${status}`,
+          status === 408 || status === 429 || status >= 500,
+          status,
+          parseRetryAfterMs(response.headers['retry-after'])
+        )
+      );
+    });
+    request.on('error', (error) => {
+      clearTimeout(timer);
+      reject(
+        error instanceof WebhookDeliveryError
+          ? error
+          : new WebhookDeliveryError(error.message, true)
+      );
+    });
+
+    request.end(body);
+  });
+}
+
+/**
+ * Delivers a payload, retrying transient failures unless this is a one-off attempt
+ *
+ * Never throws.
+ *
+ * @param progress - Updated with the number of attempts made so far
+ */
+async function deliver(
+  webhook: WebhookEndpoint,
+  payload: WebhookPayload,
+  retry: boolean,
+  progress: { attempts: number } = { attempts: 0 }
+): Promise<WebhookDeliveryResult> {
+  try {
+    const status = await withRetry(
+      () => {
+        progress.attempts++;
+        return postPayload(webhook, payload);
+      },
+      {
+        maxAttempts: retry ? config.webhooks.maxAttempts : 1,
+        baseDelayMs: config.webhooks.baseDelayMs,
+        maxDelayMs: config.webhooks.maxDelayMs,
+        isRetryable: (error) => error instanceof WebhookDeliveryError && error.retryable,
+        getRetryAfterMs: (error) =>
+          error instanceof WebhookDeliveryError ? error.retryAfterMs : undefined,
+        onRetry: (error, attempt, delayMs) => {
+          logDebug('Retrying webhook delivery', {
+            webhookId: webhook.id,
+            deliveryId: payload.deliveryId,
+            attempt,
+            delayMs,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        },
+      }
+    );
+
+    logDebug('Webhook delivered', {
+      webhookId: webhook.id,
+      deliveryId: payload.deliveryId,
+      status,
+      attempts: progress.attempts,
+    });
+    return { ok: true, status, attempts: progress.attempts };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+      status: error instanceof WebhookDeliveryError ? error.status : undefined,
+      attempts: progress.attempts,
+    };
+  }
+}
+
+/**
+ * Appends a failed delivery to the dead-letter file
+ */
+async function recordDeadLetter(
+  webhook: WebhookEndpoint,
+  payload: WebhookPayload,
+  failure: { error: string; status?: number; attempts: number }
+): Promise<void> {
+  // Picked explicitly, since callers pass whole delivery results
+  const { error: reason, status, attempts } = failure;
+  const { host } = new URL(webhook.url);
+  logWarning('Webhook delivery failed', {
+    webhookId: webhook.id,
+    deliveryId: payload.deliveryId,
+    host,
+    error: reason,
+    status,
+    attempts,
+  });
+
+  const entry: DeadLetter = {
+    failedAt: new Date().toISOString(),
+    guildId: payload.guildId,
+    webhookId: webhook.id,
+    host,
+    error: reason,
+    status,
+    attempts,
+    payload,
+  };
+
+  try {
+    const filePath = path.resolve(config.storage.dataDir, DEAD_LETTER_FILE);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await appendFile(filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+  } catch (error) {
+    logError('Failed to record webhook dead letter', error, {
+      webhookId: webhook.id,
+      deliveryId: payload.deliveryId,
+    });
+  }
+}
+
+/**
+ * Creates the payload of a delivery to one webhook
+ */
+function createPayload(
+  event: WebhookEventType,
+  webhook: WebhookEndpoint,
+  guildId: string,
+  context: { channelId: string | null; userId: string; identifications: ImageIdentification[] }
+): WebhookPayload {
+  return {
+    deliveryId: randomUUID(),
+    event,
+    createdAt: new Date().toISOString(),
+    webhookId: webhook.id,
+    guildId,
+    channelId: context.channelId,
+    userId: context.userId,
+    supportCode: getSupportCode() ?? null,
+    images: context.identifications.map(({ source, result }) => ({
+      url: source.url,
+      filename: source.filename,
+      result,
+    })),
+  };
+}
+
+/**
+ * Sends an identification to each of the guild's webhooks in the background
+ *
+ * Never throws: failed deliveries are retried and then dead-lettered, so
+ * callers can fire and forget.
+ *
+ * @param guildId - The guild, or null outside of guilds (which have no webhooks)
+ */
+export async function dispatchIdentificationWebhooks(
+  guildId: string | null,
+  context: { channelId: string | null; userId: string; identifications: ImageIdentification[] }
+): Promise<void> {
+  if (!guildId || !config.webhooks.enabled) {
+    return;
+  }
+
+  try {
+    for (const webhook of await listWebhooks(guildId)) {
+      const payload = createPayload('identification.completed', webhook, guildId, context);
+      const progress = { attempts: 0 };
+
+      void trackInFlight(
+        `webhook ${webhook.id}`,
+        async () => {
+          const result = await deliver(webhook, payload, true, progress);
+          if (!result.ok) {
+            await recordDeadLetter(webhook, payload, result);
+          }
+        },
+        // Still retrying at shutdown: keep the payload for replay
+        () =>
+          recordDeadLetter(webhook, payload, {
+            error: 'Abandoned at shutdown',
+            attempts: progress.attempts,
+          })
+      );
+    }
+  } catch (error) {
+    logError('Failed to dispatch identification webhooks', error, { guildId });
+  }
+}
+
+/**
+ * Sends a test event to a webhook, once and without dead-lettering
+ *
+ * @param userId - The admin who asked for the test
+ */
+export async function sendTestWebhook(
+  webhook: WebhookEndpoint,
+  guildId: string,
+  context: { channelId: string | null; userId: string }
+): Promise<WebhookDeliveryResult> {
+  const payload = createPayload('webhook.test', webhook, guildId, {
+    ...context,
+    identifications: [],
+  });
+  const result = await deliver(webhook, payload, false);
+
+  logger.info('Webhook test sent', {
+    webhookId: webhook.id,
+    deliveryId: payload.deliveryId,
+    ok: result.ok,
+    status: result.status,
+  });
+  return result;
+}
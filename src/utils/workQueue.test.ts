@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { WorkQueue, type EnqueueResult, type QueuePosition } from './workQueue.js';
+
+/**
+ * A job that runs until released
+ */
+function createGate(): { task: () => Promise<void>; release: () => void } {
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  return { task: () => released, release };
+}
+
+/**
+ * Narrows an enqueue result to an accepted job
+ */
+function accepted<T>(result: EnqueueResult<T>): Extract<EnqueueResult<T>, { accepted: true }> {
+  assert.equal(result.accepted, true);
+  return result;
+}
+
+describe('WorkQueue', () => {
+  it('starts jobs right away while workers are free', async () => {
+    const queue = new WorkQueue({ concurrency: 1, maxDepth: 0, initialEstimateMs: 1000 });
+
+    const job = accepted(queue.enqueue(() => Promise.resolve('done')));
+
+    assert.equal(job.position, null);
+    assert.equal(await job.result, 'done');
+  });
+
+  it('serves the priority lane before the standard lane', async () => {
+    const queue = new WorkQueue({ concurrency: 1, maxDepth: 0, initialEstimateMs: 1000 });
+    const gate = createGate();
+    const order: string[] = [];
+
+    const running = accepted(queue.enqueue(gate.task));
+    const standard = accepted(
+      queue.enqueue(() => Promise.resolve(order.push('standard')), { lane: 'standard' })
+    );
+    const priority = accepted(
+      queue.enqueue(() => Promise.resolve(order.push('priority')), { lane: 'priority' })
+    );
+
+    assert.equal(standard.position?.position, 1);
+    assert.equal(priority.position?.position, 1);
+
+    gate.release();
+    await Promise.all([running.result, standard.result, priority.result]);
+
+    assert.deepEqual(order, ['priority', 'standard']);
+  });
+
+  it('tells waiting jobs when their position changes', async () => {
+    const queue = new WorkQueue({ concurrency: 1, maxDepth: 0, initialEstimateMs: 1000 });
+    const gate = createGate();
+    const positions: QueuePosition[] = [];
+
+    const running = accepted(queue.enqueue(gate.task));
+    const standard = accepted(
+      queue.enqueue(() => Promise.resolve(), {
+        onPositionChange: (position) => positions.push(position),
+      })
+    );
+    // Jumps ahead of the standard job, moving it back a place
+    const priority = accepted(queue.enqueue(() => Promise.resolve(), { lane: 'priority' }));
+
+    assert.deepEqual(positions, [{ position: 2, estimatedWaitMs: 2000 }]);
+    assert.equal(queue.depth, 2);
+
+    gate.release();
+    await Promise.all([running.result, standard.result, priority.result]);
+
+    // The estimate after the first job depends on how long it ran
+    assert.deepEqual(
+      positions.map(({ position }) => position),
+      [2, 1]
+    );
+  });
+
+  it('refuses jobs once the queue is full', () => {
+    const queue = new WorkQueue({ concurrency: 1, maxDepth: 1, initialEstimateMs: 1000 });
+    const gate = createGate();
+
+    accepted(queue.enqueue(gate.task));
+    accepted(queue.enqueue(gate.task));
+
+    assert.deepEqual(queue.enqueue(gate.task), { accepted: false, depth: 1 });
+    gate.release();
+  });
+
+  it('passes on a failed job and keeps serving the queue', async () => {
+    const queue = new WorkQueue({ concurrency: 1, maxDepth: 0, initialEstimateMs: 1000 });
+
+    const failing = accepted(queue.enqueue(() => Promise.reject(new Error('boom'))));
+    const next = accepted(queue.enqueue(() => Promise.resolve('next')));
+
+    await assert.rejects(failing.result, /boom/);
+    assert.equal(await next.result, 'next');
+    assert.equal(queue.depth, 0);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Work Queue
+ *
+ * A bounded job queue with a fixed number of workers and priority lanes.
+ * Identifications go through it so bursts of requests wait their turn instead
+ * of all hitting CardSight at once, and users can be shown their place in line.
+ */
+
+import { AsyncResource } from 'node:async_hooks';
+import type { Interaction } from 'discord.js';
+import { config } from '../config/index.js';
+import { Gauge } from './metrics.js';
+
+/**
+ * Queue lanes, served in this order
+ */
+export type QueueLane = 'priority' | 'standard';
+
+const LANES: QueueLane[] = ['priority', 'standard'];
+
+/**
+ * A waiting job's place in the queue
+ */
+export interface QueuePosition {
+  // 1-based position among all waiting jobs
+  position: number;
+  estimatedWaitMs: number;
+}
+
+/**
+ * Outcome of adding a job to the queue
+ */
+export type EnqueueResult<T> =
+  | { accepted: true; position: QueuePosition | null; result: Promise<T> }
+  | { accepted: false; depth: number };
+
+/**
+ * Options for a queued job
+ */
+export interface EnqueueOptions {
+  lane?: QueueLane;
+  // Called whenever the job's position changes while it waits
+  onPositionChange?: (position: QueuePosition) => void;
+  // Called when the job leaves the queue and starts running
+  onStart?: () => void;
+}
+
+/**
+ * Queue settings
+ */
+export interface WorkQueueOptions {
+  // Jobs that run at the same time
+  concurrency: number;
+  // Maximum number of waiting jobs; 0 means unlimited
+  maxDepth: number;
+  // Assumed job duration until real durations have been measured
+  initialEstimateMs: number;
+}
+
+interface QueuedJob {
+  run: () => Promise<void>;
+  options: EnqueueOptions;
+  lastPosition?: number;
+}
+
+// Weight of the latest job duration in the moving average
+const DURATION_SMOOTHING = 0.2;
+
+/**
+ * A bounded FIFO queue per lane, with higher lanes always served first
+ */
+export class WorkQueue {
+  private readonly waiting: Record<QueueLane, QueuedJob[]> = { priority: [], standard: [] };
+  private running = 0;
+  private averageDurationMs: number;
+
+  constructor(private readonly options: WorkQueueOptions) {
+    this.averageDurationMs = options.initialEstimateMs;
+  }
+
+  /**
+   * Number of jobs waiting to run
+   */
+  get depth(): number {
+    return LANES.reduce((depth, lane) => depth + this.waiting[lane].length, 0);
+  }
+
+  /**
+   * Number of jobs currently running
+   */
+  get activeCount(): number {
+    return this.running;
+  }
+
+  /**
+   * Adds a job to the queue, unless the queue is full
+   *
+   * @returns Whether the job was accepted, its initial position (null if it
+   *   started right away) and a promise for its result
+   */
+  enqueue<T>(task: () => Promise<T>, options: EnqueueOptions = {}): EnqueueResult<T> {
+    if (this.options.maxDepth > 0 && this.depth >= this.options.maxDepth) {
+      return { accepted: false, depth: this.depth };
+    }
+
+    // Jobs and their callbacks run in the async context of the caller that queued
+    // them, not whichever job happened to finish before them
+    const boundOptions: EnqueueOptions = {
+      ...options,
+      onPositionChange: options.onPositionChange && AsyncResource.bind(options.onPositionChange),
+      onStart: options.onStart && AsyncResource.bind(options.onStart),
+    };
+
+    let job!: QueuedJob;
+    const result = new Promise<T>((resolve, reject) => {
+      job = {
+        options: boundOptions,
+        run: AsyncResource.bind(() => {
+          const startedAt = Date.now();
+          return task()
+            .then(resolve, reject)
+            .finally(() => this.recordDuration(Date.now() - startedAt));
+        }),
+      };
+    });
+
+    this.waiting[boundOptions.lane ?? 'standard'].push(job);
+    this.startJobs();
+
+    const position = this.getPosition(job);
+    job.lastPosition = position?.position;
+    this.notifyPositions(job);
+
+    return { accepted: true, position, result };
+  }
+
+  /**
+   * Starts waiting jobs while workers are free
+   */
+  private startJobs(): void {
+    while (this.running < this.options.concurrency) {
+      const lane = LANES.find((candidate) => this.waiting[candidate].length > 0);
+      const job = lane && this.waiting[lane].shift();
+      if (!job) {
+        return;
+      }
+
+      this.running++;
+      job.options.onStart?.();
+      void job.run().finally(() => {
+        this.running--;
+        this.startJobs();
+        this.notifyPositions();
+      });
+    }
+  }
+
+  /**
+   * Gets a waiting job's position, or null if it is not waiting
+   */
+  private getPosition(job: QueuedJob): QueuePosition | null {
+    const index = LANES.flatMap((lane) => this.waiting[lane]).indexOf(job);
+    return index === -1 ? null : this.positionAt(index);
+  }
+
+  /**
+   * Builds the position of the waiting job at a 0-based index
+   */
+  private positionAt(index: number): QueuePosition {
+    const position = index + 1;
+    return {
+      position,
+      estimatedWaitMs:
+        Math.ceil(position / this.options.concurrency) * Math.round(this.averageDurationMs),
+    };
+  }
+
+  /**
+   * Tells waiting jobs whose position changed about their new position
+   *
+   * @param skip - A job that has just been told its position another way
+   */
+  private notifyPositions(skip?: QueuedJob): void {
+    LANES.flatMap((lane) => this.waiting[lane]).forEach((job, index) => {
+      if (job === skip || job.lastPosition === index + 1) {
+        return;
+      }
+
+      const position = this.positionAt(index);
+      job.lastPosition = position.position;
+      job.options.onPositionChange?.(position);
+    });
+  }
+
+  /**
+   * Folds a finished job's duration into the moving average used for wait estimates
+   */
+  private recordDuration(durationMs: number): void {
+    this.averageDurationMs =
+      this.averageDurationMs * (1 - DURATION_SMOOTHING) + durationMs * DURATION_SMOOTHING;
+  }
+}
+
+/**
+ * Shared queue for identification requests
+ */
+export const identificationQueue = new WorkQueue({
+  concurrency: config.queue.concurrency,
+  maxDepth: config.queue.maxDepth,
+  initialEstimateMs: 5000,
+});
+
+new Gauge(
+  'cardsight_bot_queue_depth',
+  'Identification requests waiting in the queue',
+  () => identificationQueue.depth
+);
+new Gauge(
+  'cardsight_bot_queue_active',
+  'Identification requests currently running',
+  () => identificationQueue.activeCount
+);
+
+/**
+ * Gets the queue lane for an interaction's user
+ *
+ * Members with a priority role, and server boosters if enabled, use the priority lane.
+ */
+export function getQueueLane(interaction: Interaction): QueueLane {
+  const { member } = interaction;
+  if (!member) {
+    return 'standard';
+  }
+
+  if (config.queue.priorityBoosters) {
+    // Cached members expose premiumSince; uncached ones the raw premium_since
+    const boosting =
+      'premiumSince' in member ? member.premiumSince !== null : Boolean(member.premium_since);
+    if (boosting) {
+      return 'priority';
+    }
+  }
+
+  // Cached members expose a role manager; uncached ones only a list of IDs
+  const roleIds = Array.isArray(member.roles)
+    ? member.roles
+    : Array.from(member.roles.cache.keys());
+
+  return roleIds.some((roleId) => config.queue.priorityRoleIds.includes(roleId))
+    ? 'priority'
+    : 'standard';
+}
@@ -0,0 +1,117 @@
+/**
+ * Webhook Receiver Script
+ *
+ * Local stand-in for a webhook endpoint, for trying out /webhooks without a
+ * real integration. It verifies each delivery's signature, logs what it
+ * received, and can fail the first attempts of each delivery to exercise the
+ * bot's retries.
+ *
+ * Usage:
+ *   npm run webhooks:receive -- --secret whsec_... [--port 8787] [--host 127.0.0.1] [--fail 2]
+ *
+ * The secret can also be given in WEBHOOK_RECEIVER_SECRET. The bot only
+ * delivers to http:// and local addresses with WEBHOOK_ALLOW_PRIVATE_HOSTS=true.
+ */
+
+import { createServer, type IncomingMessage } from 'node:http';
+import { parseArgs } from 'node:util';
+import { logger } from './utils/logger.js';
+import type { WebhookPayload } from './utils/webhooks.js';
+import {
+  verifyWebhookSignature,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './utils/webhookSignature.js';
+
+/**
+ * Reads a request's raw body
+ */
+async function readBody(request: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Gets a single-valued request header
+ */
+function getHeader(request: IncomingMessage, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Starts the receiver
+ */
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      secret: { type: 'string', default: process.env['WEBHOOK_RECEIVER_SECRET'] },
+      host: { type: 'string', default: '127.0.0.1' },
+      port: { type: 'string', default: '8787' },
+      fail: { type: 'string', default: '0' },
+    },
+  });
+
+  const { secret } = values;
+  if (!secret) {
+    logger.error('Pass the webhook signing secret with --secret or WEBHOOK_RECEIVER_SECRET');
+    process.exit(1);
+  }
+  const failAttempts = Number(values.fail);
+
+  // Attempts seen per delivery, for failing the first ones
+  const attempts = new Map<string, number>();
+
+  const server = createServer((request, response) => {
+    void readBody(request).then((body) => {
+      const deliveryId = getHeader(request, WEBHOOK_DELIVERY_HEADER) ?? 'unknown';
+      const attempt = (attempts.get(deliveryId) ?? 0) + 1;
+      attempts.set(deliveryId, attempt);
+
+      const verified = verifyWebhookSignature(
+        secret,
+        getHeader(request, WEBHOOK_SIGNATURE_HEADER),
+        getHeader(request, WEBHOOK_TIMESTAMP_HEADER),
+        body
+      );
+      if (!verified) {
+        logger.warn('Rejected delivery with an invalid signature', { deliveryId, attempt });
+        response.writeHead(401).end();
+        return;
+      }
+
+      if (attempt <= failAttempts) {
+        logger.info('Failing delivery on purpose', { deliveryId, attempt });
+        response.writeHead(503, { 'Retry-After': '1' }).end();
+        return;
+      }
+
+      const payload = JSON.parse(body) as WebhookPayload;
+      logger.info(`Received ${payload.event}`, {
+        deliveryId,
+        attempt,
+        guildId: payload.guildId,
+        supportCode: payload.supportCode,
+        images: payload.images.map(({ filename, result }) => ({
+          filename,
+          success: result.success,
+          requestId: result.requestId,
+          cards: result.detections.map(({ card }) => card.name),
+        })),
+      });
+      response.writeHead(200, { 'Content-Type': 'application/json' }).end('{"ok":true}');
+    });
+  });
+
+  server.listen(Number(values.port), values.host, () => {
+    logger.info(`Webhook receiver listening on http://${values.host}:${values.port}`, {
+      failAttempts,
+    });
+  });
+}
+
+main();